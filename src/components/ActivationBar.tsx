@@ -1,28 +1,30 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Activation, Lifeline, LIFELINE_HEADER_WIDTH, LIFELINE_HEADER_HEIGHT, LIFELINE_SPACING, LIFELINE_START_X, LIFELINE_START_Y, MESSAGE_SPACING, ACTIVATION_WIDTH } from '@/types/diagram';
+import { Activation, Lifeline, Separator, ACTIVATION_WIDTH } from '@/types/diagram';
+import { getActivationBarX } from '@/lib/ActivationLayout';
+import { getMessageY } from '@/lib/RowLayout';
 
 // Text label layout constants
 const TEXT_BOX_WIDTH = 80;
 const TEXT_BOX_HEIGHT = 20;
 const TEXT_BOX_OFFSET_X = 20; // Offset to the right of the activation bar
+const CONTROL_RADIUS = 7; // Radius of the resize buttons on explicit activations
+const CONTROL_ARROW_SIZE = 3;
 
 interface ActivationBarProps {
   activation: Activation;
   lifeline: Lifeline;
   isActive: boolean;
   text?: string;
+  level?: number; // Nesting level; each level is drawn further to the right
+  separators?: Separator[]; // Divider and delay rows that push the bar down
+  isSelected?: boolean;
   onClick: () => void;
   onTextChange?: (text: string | undefined) => void;
-}
-
-function getLifelineX(lifeline: Lifeline): number {
-  return LIFELINE_START_X + lifeline.order * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH / 2;
-}
-
-function getMessageY(order: number): number {
-  return LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT + 30 + order * MESSAGE_SPACING;
+  // Only provided for explicit activations, which can be resized and deleted
+  onResize?: (edge: 'top' | 'bottom', delta: number) => void;
+  onDelete?: () => void;
 }
 
 export default function ActivationBar({
@@ -30,16 +32,21 @@ export default function ActivationBar({
   lifeline,
   isActive,
   text,
+  level = 0,
+  separators = [],
+  isSelected = false,
   onClick,
   onTextChange,
+  onResize,
+  onDelete,
 }: ActivationBarProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(text || '');
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const x = getLifelineX(lifeline) - ACTIVATION_WIDTH / 2;
-  const startY = getMessageY(activation.startMessageOrder);
-  const endY = getMessageY(activation.endMessageOrder);
+  const x = getActivationBarX(lifeline, level);
+  const startY = getMessageY(activation.startMessageOrder, separators);
+  const endY = getMessageY(activation.endMessageOrder, separators);
   const height = Math.max(endY - startY, 20);
   const midY = startY + height / 2;
 
@@ -96,7 +103,7 @@ export default function ActivationBar({
       tabIndex={0}
       role="button"
       aria-pressed={isActive}
-      aria-label={`Toggle activation for ${lifeline.name}`}
+      aria-label={onResize ? `Select activation for ${lifeline.name}` : `Toggle activation for ${lifeline.name}`}
       className="cursor-pointer focus:outline-none"
     >
       {/* Clickable background area (slightly wider for easier clicking) */}
@@ -117,6 +124,8 @@ export default function ActivationBar({
           height={height}
           rx={2}
           fill={lifeline.color}
+          stroke={isSelected ? '#1F2937' : level > 0 ? 'white' : 'none'}
+          strokeWidth={isSelected ? 2 : 1}
           filter="drop-shadow(0 1px 2px rgba(0,0,0,0.2))"
         />
       )}
@@ -198,6 +207,59 @@ export default function ActivationBar({
           )}
         </g>
       )}
+      {/* Resize and delete controls for a selected explicit activation */}
+      {isSelected && onResize && (
+        <>
+          {[
+            { key: 'top-up', cy: startY - CONTROL_RADIUS - 2, cx: x - CONTROL_RADIUS - 2, edge: 'top' as const, delta: -1, up: true },
+            { key: 'top-down', cy: startY - CONTROL_RADIUS - 2, cx: x + ACTIVATION_WIDTH + CONTROL_RADIUS + 2, edge: 'top' as const, delta: 1, up: false },
+            { key: 'bottom-up', cy: startY + height + CONTROL_RADIUS + 2, cx: x - CONTROL_RADIUS - 2, edge: 'bottom' as const, delta: -1, up: true },
+            { key: 'bottom-down', cy: startY + height + CONTROL_RADIUS + 2, cx: x + ACTIVATION_WIDTH + CONTROL_RADIUS + 2, edge: 'bottom' as const, delta: 1, up: false },
+          ].map(({ key, cx, cy, edge, delta, up }) => {
+            const s = CONTROL_ARROW_SIZE;
+            return (
+              <g
+                key={key}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onResize(edge, delta);
+                }}
+                className="cursor-pointer"
+              >
+                <title>{`Move ${edge} edge ${up ? 'up' : 'down'}`}</title>
+                <circle cx={cx} cy={cy} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+                <polygon
+                  points={
+                    up
+                      ? `${cx},${cy - s} ${cx - s},${cy + s} ${cx + s},${cy + s}`
+                      : `${cx},${cy + s} ${cx - s},${cy - s} ${cx + s},${cy - s}`
+                  }
+                  fill="white"
+                />
+              </g>
+            );
+          })}
+          {onDelete && (
+            <g
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete();
+              }}
+              className="cursor-pointer"
+            >
+              <circle cx={x + ACTIVATION_WIDTH / 2} cy={startY + height + 2 * CONTROL_RADIUS + 12} r={9} fill="#EF4444" />
+              <text
+                x={x + ACTIVATION_WIDTH / 2}
+                y={startY + height + 2 * CONTROL_RADIUS + 16}
+                textAnchor="middle"
+                className="text-xs font-bold fill-white select-none"
+              >
+                ×
+              </text>
+            </g>
+          )}
+        </>
+      )}
     </g>
   );
 }
@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Fragment, FRAGMENT_OPERATORS, FRAGMENT_TAB_HEIGHT } from '@/types/diagram';
+import { FragmentFrame } from '@/lib/FragmentLayout';
+
+// Operator tab and control layout constants
+const TAB_CHAR_WIDTH = 8; // Approximate width of one operator character
+const TAB_MIN_WIDTH = 44;
+const TAB_NOTCH = 6; // Size of the cut corner on the operator tab
+const GUARD_BOX_WIDTH = 140;
+const GUARD_BOX_HEIGHT = 18;
+const CONTROL_RADIUS = 8; // Radius of the resize/operand buttons
+const CONTROL_ARROW_SIZE = 4;
+
+export type FragmentEdge = 'top' | 'bottom' | 'left' | 'right';
+
+type ArrowDirection = 'up' | 'down' | 'left' | 'right';
+
+interface CombinedFragmentProps {
+  frame: FragmentFrame;
+  maxMessageOrder: number; // Highest message order an operand may extend to
+  isSelected: boolean;
+  onSelect: (id: string) => void;
+  onUpdate: (fragment: Fragment) => void;
+  onDelete: (id: string) => void;
+  onResize: (id: string, edge: FragmentEdge, delta: number) => void;
+  onAddOperand: (id: string) => void;
+  onRemoveOperand: (id: string) => void;
+}
+
+function getArrowPoints(cx: number, cy: number, direction: ArrowDirection): string {
+  const s = CONTROL_ARROW_SIZE;
+  switch (direction) {
+    case 'up':
+      return `${cx},${cy - s} ${cx - s},${cy + s - 1} ${cx + s},${cy + s - 1}`;
+    case 'down':
+      return `${cx},${cy + s} ${cx - s},${cy - s + 1} ${cx + s},${cy - s + 1}`;
+    case 'left':
+      return `${cx - s},${cy} ${cx + s - 1},${cy - s} ${cx + s - 1},${cy + s}`;
+    case 'right':
+      return `${cx + s},${cy} ${cx - s + 1},${cy - s} ${cx - s + 1},${cy + s}`;
+  }
+}
+
+export default function CombinedFragment({
+  frame,
+  maxMessageOrder,
+  isSelected,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onResize,
+  onAddOperand,
+  onRemoveOperand,
+}: CombinedFragmentProps) {
+  const { fragment, x, y, width, height, operandTops } = frame;
+  const [editingOperandId, setEditingOperandId] = useState<string | null>(null);
+  const [editGuard, setEditGuard] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (editingOperandId && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [editingOperandId]);
+
+  const tabWidth = Math.max(TAB_MIN_WIDTH, fragment.operator.length * TAB_CHAR_WIDTH + 16);
+  const lastOperand = fragment.operands[fragment.operands.length - 1];
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect(fragment.id);
+  };
+
+  // Double-clicking the operator tab cycles through the available operators
+  const handleTabDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const index = FRAGMENT_OPERATORS.indexOf(fragment.operator);
+    const operator = FRAGMENT_OPERATORS[(index + 1) % FRAGMENT_OPERATORS.length];
+    onUpdate({ ...fragment, operator });
+  };
+
+  const handleGuardDoubleClick = (e: React.MouseEvent, operandId: string, guard: string) => {
+    e.stopPropagation();
+    setEditingOperandId(operandId);
+    setEditGuard(guard);
+  };
+
+  const handleGuardBlur = () => {
+    const operandId = editingOperandId;
+    setEditingOperandId(null);
+    const trimmedGuard = editGuard.trim();
+    const operand = fragment.operands.find((o) => o.id === operandId);
+    if (operand && trimmedGuard !== operand.guard) {
+      onUpdate({
+        ...fragment,
+        operands: fragment.operands.map((o) => (o.id === operandId ? { ...o, guard: trimmedGuard } : o)),
+      });
+    }
+  };
+
+  const handleGuardKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleGuardBlur();
+    } else if (e.key === 'Escape') {
+      setEditingOperandId(null);
+    }
+  };
+
+  // An operand can be added by splitting the final operand or extending one row further down
+  const canAddOperand =
+    !!lastOperand &&
+    (lastOperand.endMessageOrder > lastOperand.startMessageOrder || lastOperand.endMessageOrder < maxMessageOrder);
+
+  const handleAddOperand = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (canAddOperand) {
+      onAddOperand(fragment.id);
+    }
+  };
+
+  const handleRemoveOperand = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onRemoveOperand(fragment.id);
+  };
+
+  const renderControl = (
+    key: string,
+    cx: number,
+    cy: number,
+    direction: ArrowDirection,
+    title: string,
+    onClick: () => void
+  ) => (
+    <g
+      key={key}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="cursor-pointer"
+    >
+      <title>{title}</title>
+      <circle cx={cx} cy={cy} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+      <polygon points={getArrowPoints(cx, cy, direction)} fill="white" />
+    </g>
+  );
+
+  const midX = x + width / 2;
+  const midY = y + height / 2;
+
+  return (
+    <g>
+      {/* Frame outline (wide invisible stroke makes the border easy to click) */}
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill="none"
+        stroke="transparent"
+        strokeWidth={10}
+        pointerEvents="stroke"
+        className="cursor-pointer"
+        onClick={handleClick}
+      />
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        rx={2}
+        fill="none"
+        stroke={isSelected ? '#6366F1' : '#4B5563'}
+        strokeWidth={isSelected ? 2 : 1.5}
+        pointerEvents="none"
+      />
+
+      {/* Operator tab */}
+      <g onClick={handleClick} onDoubleClick={handleTabDoubleClick} className="cursor-pointer">
+        <polygon
+          points={`${x},${y} ${x + tabWidth},${y} ${x + tabWidth},${y + FRAGMENT_TAB_HEIGHT - TAB_NOTCH} ${x + tabWidth - TAB_NOTCH},${y + FRAGMENT_TAB_HEIGHT} ${x},${y + FRAGMENT_TAB_HEIGHT}`}
+          fill="#F3F4F6"
+          stroke={isSelected ? '#6366F1' : '#4B5563'}
+          strokeWidth={1}
+        />
+        <text
+          x={x + 8}
+          y={y + FRAGMENT_TAB_HEIGHT / 2 + 4}
+          className="text-xs font-bold fill-gray-700 select-none"
+        >
+          {fragment.operator}
+        </text>
+      </g>
+
+      {/* Operand separators and guards */}
+      {fragment.operands.map((operand, i) => {
+        const top = operandTops[i];
+        const guardX = i === 0 ? x + tabWidth + 8 : x + 8;
+        const guardY = i === 0 ? y + 1 : top + 4;
+        const showGuard = operand.guard || isSelected;
+        return (
+          <g key={operand.id}>
+            {i > 0 && (
+              <line
+                x1={x}
+                y1={top}
+                x2={x + width}
+                y2={top}
+                stroke="#4B5563"
+                strokeWidth={1}
+                strokeDasharray="6,4"
+                pointerEvents="none"
+              />
+            )}
+            {editingOperandId === operand.id ? (
+              <foreignObject x={guardX} y={guardY} width={GUARD_BOX_WIDTH} height={GUARD_BOX_HEIGHT}>
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={editGuard}
+                  onChange={(e) => setEditGuard(e.target.value)}
+                  onBlur={handleGuardBlur}
+                  onKeyDown={handleGuardKeyDown}
+                  placeholder="guard"
+                  style={{ width: '100%', height: '100%', fontSize: '11px', color: '#374151', backgroundColor: 'white', outline: 'none', border: '1px solid #3B82F6', borderRadius: '4px', padding: '0 4px' }}
+                  onClick={(e) => e.stopPropagation()}
+                />
+              </foreignObject>
+            ) : (
+              showGuard && (
+                <text
+                  x={guardX}
+                  y={guardY + GUARD_BOX_HEIGHT / 2 + 4}
+                  className="font-medium fill-gray-600 cursor-pointer select-none"
+                  style={{ fontSize: '11px' }}
+                  opacity={operand.guard ? 1 : 0.5}
+                  onClick={(e) => e.stopPropagation()}
+                  onDoubleClick={(e) => handleGuardDoubleClick(e, operand.id, operand.guard)}
+                >
+                  [{operand.guard || 'guard'}]
+                </text>
+              )
+            )}
+          </g>
+        );
+      })}
+
+      {isSelected && (
+        <>
+          {/* Delete button */}
+          <g
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(fragment.id);
+            }}
+            className="cursor-pointer"
+          >
+            <title>Delete fragment</title>
+            <circle cx={x + width - 8} cy={y + 8} r={10} fill="#EF4444" />
+            <text x={x + width - 8} y={y + 12} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ×
+            </text>
+          </g>
+
+          {/* Operand buttons */}
+          <g onClick={handleAddOperand} className={canAddOperand ? 'cursor-pointer' : 'cursor-not-allowed'} opacity={canAddOperand ? 1 : 0.4}>
+            <title>Add operand</title>
+            <circle cx={x + width - 32} cy={y + 8} r={CONTROL_RADIUS} fill="#10B981" />
+            <text x={x + width - 32} y={y + 12} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              +
+            </text>
+          </g>
+          {fragment.operands.length > 1 && (
+            <g onClick={handleRemoveOperand} className="cursor-pointer">
+              <title>Remove last operand</title>
+              <circle cx={x + width - 52} cy={y + 8} r={CONTROL_RADIUS} fill="#F59E0B" />
+              <text x={x + width - 52} y={y + 12} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+                −
+              </text>
+            </g>
+          )}
+
+          {/* Resize buttons: outward arrows grow the frame, inward arrows shrink it */}
+          {renderControl('top-grow', midX - 12, y, 'up', 'Extend up one message', () => onResize(fragment.id, 'top', -1))}
+          {renderControl('top-shrink', midX + 12, y, 'down', 'Shrink from the top', () => onResize(fragment.id, 'top', 1))}
+          {renderControl('bottom-shrink', midX - 12, y + height, 'up', 'Shrink from the bottom', () => onResize(fragment.id, 'bottom', -1))}
+          {renderControl('bottom-grow', midX + 12, y + height, 'down', 'Extend down one message', () => onResize(fragment.id, 'bottom', 1))}
+          {renderControl('left-grow', x, midY - 12, 'left', 'Extend to the previous lifeline', () => onResize(fragment.id, 'left', -1))}
+          {renderControl('left-shrink', x, midY + 12, 'right', 'Shrink from the left', () => onResize(fragment.id, 'left', 1))}
+          {renderControl('right-shrink', x + width, midY - 12, 'left', 'Shrink from the right', () => onResize(fragment.id, 'right', -1))}
+          {renderControl('right-grow', x + width, midY + 12, 'right', 'Extend to the next lifeline', () => onResize(fragment.id, 'right', 1))}
+        </>
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { Lifeline, DESTROY_MARKER_SIZE } from '@/types/diagram';
+
+// Control button layout constants
+const CONTROL_RADIUS = 8;
+const CONTROL_ARROW_SIZE = 4;
+const CONTROL_OFFSET_X = 24; // Distance from the marker center to the row controls
+
+interface DestroyMarkerProps {
+  lifeline: Lifeline;
+  x: number;
+  y: number;
+  isSelected: boolean; // Shown with row controls while its lifeline is selected
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onSelect: (id: string) => void;
+  onMove: (id: string, delta: number) => void;
+}
+
+export default function DestroyMarker({
+  lifeline,
+  x,
+  y,
+  isSelected,
+  canMoveUp,
+  canMoveDown,
+  onSelect,
+  onMove,
+}: DestroyMarkerProps) {
+  const s = DESTROY_MARKER_SIZE;
+  const a = CONTROL_ARROW_SIZE;
+  const controlX = x + CONTROL_OFFSET_X;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect(lifeline.id);
+  };
+
+  const renderArrowButton = (key: string, cy: number, points: string, title: string, delta: number) => (
+    <g
+      key={key}
+      onClick={(e) => {
+        e.stopPropagation();
+        onMove(lifeline.id, delta);
+      }}
+      className="cursor-pointer"
+    >
+      <title>{title}</title>
+      <circle cx={controlX} cy={cy} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+      <polygon points={points} fill="white" />
+    </g>
+  );
+
+  return (
+    <g>
+      {/* Invisible hit area around the X */}
+      <rect
+        x={x - s - 4}
+        y={y - s - 4}
+        width={2 * s + 8}
+        height={2 * s + 8}
+        fill="transparent"
+        className="cursor-pointer"
+        onClick={handleClick}
+      />
+      <path
+        d={`M ${x - s} ${y - s} L ${x + s} ${y + s} M ${x + s} ${y - s} L ${x - s} ${y + s}`}
+        stroke={isSelected ? '#6366F1' : '#374151'}
+        strokeWidth={3}
+        strokeLinecap="round"
+        pointerEvents="none"
+      />
+
+      {isSelected && canMoveUp &&
+        renderArrowButton(
+          'up',
+          y - 10,
+          `${controlX},${y - 10 - a} ${controlX - a},${y - 10 + a - 1} ${controlX + a},${y - 10 + a - 1}`,
+          'Destroy one row earlier',
+          -1
+        )}
+      {isSelected && canMoveDown &&
+        renderArrowButton(
+          'down',
+          y + 10,
+          `${controlX},${y + 10 + a} ${controlX - a},${y + 10 - a + 1} ${controlX + a},${y + 10 - a + 1}`,
+          'Destroy one row later',
+          1
+        )}
+    </g>
+  );
+}
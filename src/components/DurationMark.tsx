@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { DurationConstraint, DURATION_TICK_WIDTH } from '@/types/diagram';
+import { DurationFrame } from '@/lib/DurationLayout';
+
+// Label and control layout constants
+const LABEL_GAP = 8; // Space between the dimension line and its label
+const EDIT_BOX_WIDTH = 90;
+const EDIT_BOX_HEIGHT = 20;
+const ARROW_LENGTH = 6;
+const CONTROL_RADIUS = 8;
+const CONTROL_ARROW_SIZE = 4;
+
+export type DurationEdge = 'top' | 'bottom';
+
+interface DurationMarkProps {
+  frame: DurationFrame;
+  maxMessageOrder: number;
+  isSelected: boolean;
+  onSelect: (id: string) => void;
+  onUpdate: (duration: DurationConstraint) => void;
+  onDelete: (id: string) => void;
+  onResize: (id: string, edge: DurationEdge, delta: number) => void;
+}
+
+export default function DurationMark({
+  frame,
+  maxMessageOrder,
+  isSelected,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onResize,
+}: DurationMarkProps) {
+  const { duration, x, guideX, top, bottom } = frame;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editLabel, setEditLabel] = useState(duration.label);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect(duration.id);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditing(true);
+    setEditLabel(duration.label);
+  };
+
+  const handleBlur = () => {
+    setIsEditing(false);
+    const trimmedLabel = editLabel.trim();
+    if (trimmedLabel !== duration.label) {
+      onUpdate({ ...duration, label: trimmedLabel });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleBlur();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+      setEditLabel(duration.label);
+    }
+  };
+
+  // Move to the other gutter
+  const handleToggleSide = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onUpdate({ ...duration, side: duration.side === 'left' ? 'right' : 'left' });
+  };
+
+  const renderControl = (key: string, cy: number, pointsUp: boolean, title: string, onClick: () => void) => {
+    const s = CONTROL_ARROW_SIZE;
+    const cx = isLeft ? x - CONTROL_RADIUS - 14 : x + CONTROL_RADIUS + 14;
+    const points = pointsUp
+      ? `${cx},${cy - s} ${cx - s},${cy + s - 1} ${cx + s},${cy + s - 1}`
+      : `${cx},${cy + s} ${cx - s},${cy - s + 1} ${cx + s},${cy - s + 1}`;
+    return (
+      <g
+        key={key}
+        onClick={(e) => {
+          e.stopPropagation();
+          onClick();
+        }}
+        className="cursor-pointer"
+      >
+        <title>{title}</title>
+        <circle cx={cx} cy={cy} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+        <polygon points={points} fill="white" />
+      </g>
+    );
+  };
+
+  const isLeft = duration.side === 'left';
+  const color = isSelected ? '#6366F1' : '#B45309';
+  const midY = (top + bottom) / 2;
+  const labelX = isLeft ? x - LABEL_GAP : x + LABEL_GAP;
+  const span = duration.endMessageOrder - duration.startMessageOrder;
+
+  return (
+    <g onClick={handleClick} onDoubleClick={handleDoubleClick} className="cursor-pointer">
+      {/* Dotted guides from the ticks to the nearest lifeline */}
+      <line x1={x} y1={top} x2={guideX} y2={top} stroke={color} strokeOpacity={0.35} strokeDasharray="2,3" pointerEvents="none" />
+      <line x1={x} y1={bottom} x2={guideX} y2={bottom} stroke={color} strokeOpacity={0.35} strokeDasharray="2,3" pointerEvents="none" />
+
+      {/* Dimension line with ticks and arrowheads at both ends */}
+      <rect x={x - 6} y={top} width={12} height={bottom - top} fill="transparent" />
+      <line x1={x} y1={top} x2={x} y2={bottom} stroke={color} strokeWidth={1.5} />
+      <line x1={x - DURATION_TICK_WIDTH} y1={top} x2={x + DURATION_TICK_WIDTH} y2={top} stroke={color} strokeWidth={1.5} />
+      <line x1={x - DURATION_TICK_WIDTH} y1={bottom} x2={x + DURATION_TICK_WIDTH} y2={bottom} stroke={color} strokeWidth={1.5} />
+      <polygon points={`${x},${top} ${x - 3},${top + ARROW_LENGTH} ${x + 3},${top + ARROW_LENGTH}`} fill={color} />
+      <polygon points={`${x},${bottom} ${x - 3},${bottom - ARROW_LENGTH} ${x + 3},${bottom - ARROW_LENGTH}`} fill={color} />
+
+      {/* Label */}
+      {isEditing ? (
+        <foreignObject
+          x={isLeft ? labelX - EDIT_BOX_WIDTH : labelX}
+          y={midY - EDIT_BOX_HEIGHT / 2}
+          width={EDIT_BOX_WIDTH}
+          height={EDIT_BOX_HEIGHT}
+        >
+          <input
+            ref={inputRef}
+            type="text"
+            value={editLabel}
+            onChange={(e) => setEditLabel(e.target.value)}
+            onBlur={handleBlur}
+            onKeyDown={handleKeyDown}
+            placeholder="< 200ms"
+            style={{ width: '100%', height: '100%', textAlign: 'center', fontSize: '12px', color: '#374151', backgroundColor: 'white', outline: 'none', border: '1px solid #3B82F6', borderRadius: '4px', padding: '0 4px' }}
+            onClick={(e) => e.stopPropagation()}
+          />
+        </foreignObject>
+      ) : (
+        <text
+          x={labelX}
+          y={midY + 4}
+          textAnchor={isLeft ? 'end' : 'start'}
+          className="text-xs font-semibold select-none"
+          fill={color}
+          opacity={duration.label ? 1 : 0.5}
+          style={{ paintOrder: 'stroke', stroke: 'white', strokeWidth: 3 }}
+        >
+          {duration.label || 'Double-click to edit'}
+        </text>
+      )}
+
+      {isSelected && (
+        <>
+          {/* Delete button */}
+          <g
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(duration.id);
+            }}
+            className="cursor-pointer"
+          >
+            <title>Delete duration constraint</title>
+            <circle cx={x} cy={top - 16} r={CONTROL_RADIUS + 1} fill="#EF4444" />
+            <text x={x} y={top - 12} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ×
+            </text>
+          </g>
+
+          {/* Side toggle */}
+          <g onClick={handleToggleSide} className="cursor-pointer">
+            <title>{isLeft ? 'Move to the right gutter' : 'Move to the left gutter'}</title>
+            <circle cx={x} cy={bottom + 16} r={CONTROL_RADIUS + 1} fill="#4B5563" />
+            <text x={x} y={bottom + 20} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ⇄
+            </text>
+          </g>
+
+          {/* Resize controls: each end moves by one message */}
+          {duration.startMessageOrder > 0 && renderControl('top-up', top - 10, true, 'Start one message earlier', () => onResize(duration.id, 'top', -1))}
+          {span > 1 && renderControl('top-down', top + 10, false, 'Start one message later', () => onResize(duration.id, 'top', 1))}
+          {span > 1 && renderControl('bottom-up', bottom - 10, true, 'End one message earlier', () => onResize(duration.id, 'bottom', -1))}
+          {duration.endMessageOrder < maxMessageOrder && renderControl('bottom-down', bottom + 10, false, 'End one message later', () => onResize(duration.id, 'bottom', 1))}
+        </>
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Separator } from '@/types/diagram';
+import { RefFrame } from '@/lib/RefLayout';
+
+// Tab and control layout constants
+const TAB_WIDTH = 36;
+const TAB_HEIGHT = 16;
+const TAB_NOTCH = 5; // Size of the cut corner on the "ref" tab
+const EDIT_BOX_WIDTH = 200;
+const EDIT_BOX_HEIGHT = 40;
+const CONTROL_RADIUS = 8;
+const CONTROL_ARROW_SIZE = 4;
+
+export type RefEdge = 'left' | 'right';
+
+type ArrowDirection = 'up' | 'down' | 'left' | 'right';
+
+interface InteractionRefFrameProps {
+  frame: RefFrame;
+  maxLifelineOrder: number;
+  isResolved: boolean; // The referenced diagram was loaded
+  isExpanded: boolean;
+  isSelected: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onSelect: (id: string) => void;
+  onUpdate: (separator: Separator) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, delta: number) => void;
+  onResize: (id: string, edge: RefEdge, delta: number) => void;
+  onToggleExpand: (id: string) => void;
+  onOpen: (id: string) => void;
+}
+
+function getArrowPoints(cx: number, cy: number, direction: ArrowDirection): string {
+  const s = CONTROL_ARROW_SIZE;
+  switch (direction) {
+    case 'up':
+      return `${cx},${cy - s} ${cx - s},${cy + s - 1} ${cx + s},${cy + s - 1}`;
+    case 'down':
+      return `${cx},${cy + s} ${cx - s},${cy - s + 1} ${cx + s},${cy - s + 1}`;
+    case 'left':
+      return `${cx - s},${cy} ${cx + s - 1},${cy - s} ${cx + s - 1},${cy + s}`;
+    case 'right':
+      return `${cx + s},${cy} ${cx - s + 1},${cy - s} ${cx - s + 1},${cy + s}`;
+  }
+}
+
+export default function InteractionRefFrame({
+  frame,
+  maxLifelineOrder,
+  isResolved,
+  isExpanded,
+  isSelected,
+  canMoveUp,
+  canMoveDown,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onMove,
+  onResize,
+  onToggleExpand,
+  onOpen,
+}: InteractionRefFrameProps) {
+  const { separator, left, right, x, y, width, height } = frame;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(separator.text);
+  const [editTarget, setEditTarget] = useState(separator.target ?? '');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect(separator.id);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditing(true);
+    setEditText(separator.text);
+    setEditTarget(separator.target ?? '');
+  };
+
+  const commitEdit = () => {
+    setIsEditing(false);
+    const trimmedText = editText.trim();
+    const trimmedTarget = editTarget.trim();
+    if (trimmedText !== separator.text || trimmedTarget !== (separator.target ?? '')) {
+      onUpdate({ ...separator, text: trimmedText, target: trimmedTarget });
+    }
+  };
+
+  // Moving focus between the two inputs keeps the editor open
+  const handleEditorBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    commitEdit();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      commitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+      setEditText(separator.text);
+      setEditTarget(separator.target ?? '');
+    }
+  };
+
+  const renderControl = (
+    key: string,
+    cx: number,
+    cy: number,
+    direction: ArrowDirection,
+    title: string,
+    onClick: () => void
+  ) => (
+    <g
+      key={key}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="cursor-pointer"
+    >
+      <title>{title}</title>
+      <circle cx={cx} cy={cy} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+      <polygon points={getArrowPoints(cx, cy, direction)} fill="white" />
+    </g>
+  );
+
+  const renderButton = (key: string, cx: number, label: string, title: string, onClick: () => void) => (
+    <g
+      key={key}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="cursor-pointer"
+    >
+      <title>{title}</title>
+      <circle cx={cx} cy={y + TAB_HEIGHT / 2 + 1} r={CONTROL_RADIUS} fill="#0EA5E9" className="hover:fill-sky-600" />
+      <text x={cx} y={y + TAB_HEIGHT / 2 + 5} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+        {label}
+      </text>
+    </g>
+  );
+
+  const stroke = isSelected ? '#6366F1' : '#4B5563';
+  const midX = x + width / 2;
+  const midY = y + height / 2;
+  const target = separator.target?.trim();
+  const targetText = !target ? 'No diagram linked' : isResolved ? target : `${target} (not loaded)`;
+
+  return (
+    <g>
+      {/* Frame body covers the lifelines it spans */}
+      <g onClick={handleClick} onDoubleClick={handleDoubleClick} className="cursor-pointer">
+        <rect x={x} y={y} width={width} height={height} rx={2} fill="white" stroke={stroke} strokeWidth={isSelected ? 2 : 1.5} />
+        <polygon
+          points={`${x},${y} ${x + TAB_WIDTH},${y} ${x + TAB_WIDTH},${y + TAB_HEIGHT - TAB_NOTCH} ${x + TAB_WIDTH - TAB_NOTCH},${y + TAB_HEIGHT} ${x},${y + TAB_HEIGHT}`}
+          fill="#F3F4F6"
+          stroke={stroke}
+          strokeWidth={1}
+        />
+        <text x={x + 7} y={y + TAB_HEIGHT / 2 + 4} className="text-xs font-bold fill-gray-700 select-none">
+          ref
+        </text>
+
+        {isEditing ? (
+          <foreignObject x={midX - EDIT_BOX_WIDTH / 2} y={midY - EDIT_BOX_HEIGHT / 2} width={EDIT_BOX_WIDTH} height={EDIT_BOX_HEIGHT}>
+            <div onBlur={handleEditorBlur} style={{ display: 'flex', flexDirection: 'column', gap: '2px', height: '100%' }}>
+              <input
+                ref={inputRef}
+                type="text"
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Interaction name"
+                style={{ flex: 1, textAlign: 'center', fontSize: '12px', fontWeight: 600, color: '#374151', backgroundColor: 'white', outline: 'none', border: '1px solid #3B82F6', borderRadius: '4px', padding: '0 4px' }}
+                onClick={(e) => e.stopPropagation()}
+              />
+              <input
+                type="text"
+                value={editTarget}
+                onChange={(e) => setEditTarget(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="payment-authorization.buml"
+                style={{ flex: 1, textAlign: 'center', fontSize: '11px', color: '#6B7280', backgroundColor: 'white', outline: 'none', border: '1px solid #3B82F6', borderRadius: '4px', padding: '0 4px' }}
+                onClick={(e) => e.stopPropagation()}
+              />
+            </div>
+          </foreignObject>
+        ) : (
+          <>
+            <text x={midX} y={midY + 1} textAnchor="middle" className="text-xs font-semibold fill-gray-800 select-none">
+              {separator.text || 'Double-click to edit'}
+            </text>
+            <text
+              x={midX}
+              y={midY + 14}
+              textAnchor="middle"
+              className={`select-none ${isResolved ? 'fill-sky-600' : 'fill-gray-400'}`}
+              style={{ fontSize: '10px' }}
+            >
+              {targetText}
+            </text>
+          </>
+        )}
+      </g>
+
+      {/* Expand inline / open the referenced diagram */}
+      {isResolved && (
+        <>
+          {renderButton('expand', x + width - 34, isExpanded ? '−' : '+', isExpanded ? 'Collapse the preview' : 'Expand a read-only preview', () => onToggleExpand(separator.id))}
+          {renderButton('open', x + width - 14, '↗', 'Open the referenced diagram', () => onOpen(separator.id))}
+        </>
+      )}
+
+      {isSelected && (
+        <>
+          {/* Delete button */}
+          <g
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(separator.id);
+            }}
+            className="cursor-pointer"
+          >
+            <title>Delete ref</title>
+            <circle cx={x - 14} cy={y} r={10} fill="#EF4444" />
+            <text x={x - 14} y={y + 4} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ×
+            </text>
+          </g>
+
+          {/* Row controls */}
+          {canMoveUp && renderControl('up', midX - 12, y - 10, 'up', 'Move above the previous message', () => onMove(separator.id, -1))}
+          {canMoveDown && renderControl('down', midX + 12, y + height + 10, 'down', 'Move below the next message', () => onMove(separator.id, 1))}
+
+          {/* Lifeline span controls */}
+          {left > 0 && renderControl('left-grow', x, midY - 10, 'left', 'Extend to the previous lifeline', () => onResize(separator.id, 'left', -1))}
+          {left < right && renderControl('left-shrink', x, midY + 10, 'right', 'Shrink from the left', () => onResize(separator.id, 'left', 1))}
+          {left < right && renderControl('right-shrink', x + width, midY - 10, 'left', 'Shrink from the right', () => onResize(separator.id, 'right', -1))}
+          {right < maxLifelineOrder && renderControl('right-grow', x + width, midY + 10, 'right', 'Extend to the next lifeline', () => onResize(separator.id, 'right', 1))}
+        </>
+      )}
+    </g>
+  );
+}
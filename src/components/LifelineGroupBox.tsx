@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { LifelineGroup, DEFAULT_COLORS, GROUP_TITLE_HEIGHT } from '@/types/diagram';
+import { GroupFrame } from '@/lib/GroupLayout';
+
+// Control layout constants
+const TITLE_BOX_WIDTH = 160;
+const CONTROL_RADIUS = 8;
+const CONTROL_ARROW_SIZE = 4;
+
+export type GroupEdge = 'left' | 'right';
+
+interface LifelineGroupBoxProps {
+  frame: GroupFrame;
+  isSelected: boolean;
+  canExtendLeft: boolean; // The lifeline left of the group is free to join
+  canExtendRight: boolean; // The lifeline right of the group is free to join
+  onSelect: (id: string) => void;
+  onUpdate: (group: LifelineGroup) => void;
+  onDelete: (id: string) => void;
+  onResize: (id: string, edge: GroupEdge, delta: number) => void;
+}
+
+export default function LifelineGroupBox({
+  frame,
+  isSelected,
+  canExtendLeft,
+  canExtendRight,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onResize,
+}: LifelineGroupBoxProps) {
+  const { group, left, right, x, y, width, height } = frame;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editTitle, setEditTitle] = useState(group.title);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect(group.id);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditing(true);
+    setEditTitle(group.title);
+  };
+
+  const handleBlur = () => {
+    setIsEditing(false);
+    const trimmedTitle = editTitle.trim();
+    if (trimmedTitle && trimmedTitle !== group.title) {
+      onUpdate({ ...group, title: trimmedTitle });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleBlur();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+      setEditTitle(group.title);
+    }
+  };
+
+  // Cycle through the palette
+  const handleCycleColor = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const index = DEFAULT_COLORS.indexOf(group.color);
+    onUpdate({ ...group, color: DEFAULT_COLORS[(index + 1) % DEFAULT_COLORS.length] });
+  };
+
+  const renderControl = (
+    key: string,
+    cx: number,
+    cy: number,
+    pointsLeft: boolean,
+    title: string,
+    onClick: () => void
+  ) => {
+    const s = CONTROL_ARROW_SIZE;
+    const points = pointsLeft
+      ? `${cx - s},${cy} ${cx + s - 1},${cy - s} ${cx + s - 1},${cy + s}`
+      : `${cx + s},${cy} ${cx - s + 1},${cy - s} ${cx - s + 1},${cy + s}`;
+    return (
+      <g
+        key={key}
+        onClick={(e) => {
+          e.stopPropagation();
+          onClick();
+        }}
+        className="cursor-pointer"
+      >
+        <title>{title}</title>
+        <circle cx={cx} cy={cy} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+        <polygon points={points} fill="white" />
+      </g>
+    );
+  };
+
+  const hasSeveralMembers = right > left;
+  const titleY = y + GROUP_TITLE_HEIGHT / 2;
+
+  return (
+    <g>
+      {/* Translucent body (not clickable, so the canvas behind it still clears the selection) */}
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        rx={6}
+        fill={group.color}
+        fillOpacity={0.07}
+        stroke={isSelected ? '#6366F1' : group.color}
+        strokeOpacity={isSelected ? 1 : 0.5}
+        strokeWidth={isSelected ? 2 : 1}
+        pointerEvents="none"
+      />
+
+      {/* Title band */}
+      <g onClick={handleClick} onDoubleClick={handleDoubleClick} className="cursor-pointer">
+        <rect x={x} y={y} width={width} height={GROUP_TITLE_HEIGHT} rx={6} fill={group.color} fillOpacity={0.15} />
+        {isEditing ? (
+          <foreignObject x={x + width / 2 - TITLE_BOX_WIDTH / 2} y={y + 2} width={TITLE_BOX_WIDTH} height={GROUP_TITLE_HEIGHT - 4}>
+            <input
+              ref={inputRef}
+              type="text"
+              value={editTitle}
+              onChange={(e) => setEditTitle(e.target.value)}
+              onBlur={handleBlur}
+              onKeyDown={handleKeyDown}
+              style={{ width: '100%', height: '100%', textAlign: 'center', fontSize: '12px', fontWeight: 600, color: '#374151', backgroundColor: 'white', outline: 'none', border: '1px solid #3B82F6', borderRadius: '4px', padding: '0 4px' }}
+              onClick={(e) => e.stopPropagation()}
+            />
+          </foreignObject>
+        ) : (
+          <text
+            x={x + width / 2}
+            y={titleY + 4}
+            textAnchor="middle"
+            className="text-xs font-semibold select-none"
+            fill={group.color}
+          >
+            {group.title}
+          </text>
+        )}
+      </g>
+
+      {isSelected && (
+        <>
+          {/* Delete button */}
+          <g
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(group.id);
+            }}
+            className="cursor-pointer"
+          >
+            <title>Delete group</title>
+            <circle cx={x + width - 12} cy={titleY} r={CONTROL_RADIUS + 1} fill="#EF4444" />
+            <text x={x + width - 12} y={titleY + 4} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ×
+            </text>
+          </g>
+
+          {/* Color button */}
+          <g onClick={handleCycleColor} className="cursor-pointer">
+            <title>Change color</title>
+            <circle cx={x + 12} cy={titleY} r={CONTROL_RADIUS} fill={group.color} stroke="white" strokeWidth={2} />
+          </g>
+
+          {/* Membership controls: outward arrows take in the next lifeline, inward arrows release the outermost member */}
+          {canExtendLeft && renderControl('left-grow', x, titleY + 26, true, 'Add the lifeline on the left', () => onResize(group.id, 'left', -1))}
+          {hasSeveralMembers && renderControl('left-shrink', x, titleY + 46, false, 'Remove the leftmost lifeline', () => onResize(group.id, 'left', 1))}
+          {hasSeveralMembers && renderControl('right-shrink', x + width, titleY + 26, true, 'Remove the rightmost lifeline', () => onResize(group.id, 'right', -1))}
+          {canExtendRight && renderControl('right-grow', x + width, titleY + 46, false, 'Add the lifeline on the right', () => onResize(group.id, 'right', 1))}
+        </>
+      )}
+    </g>
+  );
+}
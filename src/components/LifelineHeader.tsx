@@ -1,12 +1,14 @@
 'use client';
 
-import { Lifeline, LIFELINE_HEADER_WIDTH, LIFELINE_HEADER_HEIGHT } from '@/types/diagram';
-import { useState, useRef, useEffect } from 'react';
+import { Lifeline, LifelineKind, LIFELINE_KINDS, LIFELINE_HEADER_WIDTH, LIFELINE_HEADER_HEIGHT } from '@/types/diagram';
+import { getLifelineShape, LIFELINE_GLYPH_STROKE_WIDTH } from '@/lib/LifelineShapes';
+import { useState, useRef, useEffect, useMemo } from 'react';
 
 // Move button positioning constants
 const MOVE_BUTTON_OFFSET = 15; // Distance from header edge to button center
 const MOVE_BUTTON_RADIUS = 12; // Circle radius for move buttons
 const ARROW_SIZE = 5; // Size of the triangle arrow
+const KIND_PICKER_HEIGHT = 24; // Height of the shape picker shown below a selected header
 
 interface LifelineHeaderProps {
   lifeline: Lifeline;
@@ -15,11 +17,13 @@ interface LifelineHeaderProps {
   isSelected: boolean;
   canMoveLeft: boolean;
   canMoveRight: boolean;
+  isDragging?: boolean; // Being dragged to another slot
   onSelect: (id: string) => void;
   onUpdate: (lifeline: Lifeline) => void;
   onDelete: (id: string) => void;
   onMoveLeft: (id: string) => void;
   onMoveRight: (id: string) => void;
+  onDragStart?: (id: string, clientX: number) => void;
 }
 
 export default function LifelineHeader({
@@ -29,16 +33,20 @@ export default function LifelineHeader({
   isSelected,
   canMoveLeft,
   canMoveRight,
+  isDragging = false,
   onSelect,
   onUpdate,
   onDelete,
   onMoveLeft,
   onMoveRight,
+  onDragStart,
 }: LifelineHeaderProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(lifeline.name);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const shape = useMemo(() => getLifelineShape(lifeline.kind, x, y), [lifeline.kind, x, y]);
+
   useEffect(() => {
     if (isEditing && inputRef.current) {
       inputRef.current.focus();
@@ -57,6 +65,13 @@ export default function LifelineHeader({
     setEditName(lifeline.name);
   };
 
+  const handleDragMouseDown = (e: React.MouseEvent) => {
+    // Only the primary button drags; the click that follows still selects the lifeline
+    if (e.button !== 0 || isEditing) return;
+    e.preventDefault();
+    onDragStart?.(lifeline.id, e.clientX);
+  };
+
   const handleNameBlur = () => {
     setIsEditing(false);
     if (editName.trim() !== lifeline.name) {
@@ -64,6 +79,12 @@ export default function LifelineHeader({
     }
   };
 
+  const handleKindChange = (kind: LifelineKind) => {
+    if (kind !== lifeline.kind) {
+      onUpdate({ ...lifeline, kind });
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleNameBlur();
@@ -74,26 +95,57 @@ export default function LifelineHeader({
   };
 
   return (
-    <g onClick={handleClick} onDoubleClick={handleDoubleClick}>
-      {/* Header box */}
+    <g onClick={handleClick} onDoubleClick={handleDoubleClick} opacity={isDragging ? 0.5 : 1}>
+      {/* Hit area covering the whole header, including gaps around glyphs */}
       <rect
         x={x}
         y={y}
         width={LIFELINE_HEADER_WIDTH}
         height={LIFELINE_HEADER_HEIGHT}
         rx={8}
-        fill={lifeline.color}
-        className={`cursor-pointer transition-all ${
-          isSelected ? 'stroke-white stroke-[3]' : ''
-        }`}
-        filter={isSelected ? 'drop-shadow(0 4px 8px rgba(0,0,0,0.3))' : 'drop-shadow(0 2px 4px rgba(0,0,0,0.15))'}
+        fill="transparent"
+        stroke={isSelected && !shape.labelInside ? lifeline.color : 'none'}
+        strokeDasharray="4,3"
+        className={onDragStart ? 'cursor-grab' : 'cursor-pointer'}
+        onMouseDown={handleDragMouseDown}
       />
+
+      {/* Header shape */}
+      <g
+        onMouseDown={handleDragMouseDown}
+        className={`${onDragStart ? 'cursor-grab' : 'cursor-pointer'} transition-all`}
+        filter={isSelected ? 'drop-shadow(0 4px 8px rgba(0,0,0,0.3))' : 'drop-shadow(0 2px 4px rgba(0,0,0,0.15))'}
+      >
+        {shape.body.map((d, i) => (
+          <path
+            key={`body-${i}`}
+            d={d}
+            fill={lifeline.color}
+            fillOpacity={shape.bodyOpacity}
+            className={isSelected && shape.labelInside ? 'stroke-white stroke-[3]' : ''}
+          />
+        ))}
+        {shape.rim.map((d, i) => (
+          <path key={`rim-${i}`} d={d} fill="none" stroke="white" strokeWidth={1.5} opacity={0.8} />
+        ))}
+        {shape.outline.map((d, i) => (
+          <path
+            key={`outline-${i}`}
+            d={d}
+            fill="none"
+            stroke={lifeline.color}
+            strokeWidth={LIFELINE_GLYPH_STROKE_WIDTH}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+      </g>
       
       {/* Label */}
       {isEditing ? (
         <foreignObject
           x={x + 5}
-          y={y + (LIFELINE_HEADER_HEIGHT - 24) / 2}
+          y={shape.labelY - 12}
           width={LIFELINE_HEADER_WIDTH - 10}
           height={24}
         >
@@ -111,9 +163,11 @@ export default function LifelineHeader({
       ) : (
         <text
           x={x + LIFELINE_HEADER_WIDTH / 2}
-          y={y + LIFELINE_HEADER_HEIGHT / 2 + 5}
+          y={shape.labelY + 5}
           textAnchor="middle"
-          className="text-sm font-semibold fill-white select-none pointer-events-none"
+          className={`text-sm font-semibold select-none pointer-events-none ${
+            shape.labelInside ? 'fill-white' : 'fill-gray-700'
+          }`}
         >
           {lifeline.name}
         </text>
@@ -145,6 +199,31 @@ export default function LifelineHeader({
         </g>
       )}
 
+      {/* Shape picker when selected */}
+      {isSelected && (
+        <foreignObject
+          x={x}
+          y={y + LIFELINE_HEADER_HEIGHT + 6}
+          width={LIFELINE_HEADER_WIDTH}
+          height={KIND_PICKER_HEIGHT}
+        >
+          <select
+            value={lifeline.kind}
+            onChange={(e) => handleKindChange(e.target.value as LifelineKind)}
+            onClick={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+            className="w-full h-full text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded outline-none"
+            title="Participant shape"
+          >
+            {LIFELINE_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {kind}
+              </option>
+            ))}
+          </select>
+        </foreignObject>
+      )}
+
       {/* Move left button (triangle pointing left) */}
       {isSelected && canMoveLeft && (() => {
         const centerX = x - MOVE_BUTTON_OFFSET;
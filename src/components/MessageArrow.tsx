@@ -1,7 +1,12 @@
 'use client';
 
-import { Message, Lifeline, LIFELINE_HEADER_WIDTH, LIFELINE_HEADER_HEIGHT, LIFELINE_SPACING, LIFELINE_START_X, LIFELINE_START_Y, MESSAGE_SPACING, ACTIVATION_WIDTH } from '@/types/diagram';
+import { Message, Lifeline, Separator, DIAGRAM_BOUNDARY_ID, BOUNDARY_DOT_RADIUS, LIFELINE_HEADER_WIDTH, LIFELINE_SPACING, LIFELINE_START_X, ACTIVATION_WIDTH, ACTIVATION_NEST_OFFSET, SELF_MESSAGE_LOOP_WIDTH, SELF_MESSAGE_LOOP_HEIGHT } from '@/types/diagram';
 import { useState, useRef, useEffect, useMemo } from 'react';
+import { getBoundaryX } from '@/lib/LifelineLayout';
+import { getMessageY } from '@/lib/RowLayout';
+import { formatPayloadSummary } from '@/lib/MessagePayload';
+import { formatGuardedLabel, formatMessageLabel, parseGuardedLabel } from '@/lib/MessageLabel';
+import { InsertPlacement } from '@/lib/MessageOrder';
 
 // Message label and description layout constants
 const LABEL_BOX_WIDTH = 100;
@@ -12,35 +17,61 @@ const DESCRIPTION_BOX_MIN_HEIGHT = 20;
 const DESCRIPTION_BOX_LINE_HEIGHT = 16;
 const DESCRIPTION_BOX_OFFSET_Y = 6; // Below the arrow line
 const DESCRIPTION_CHARS_PER_LINE = 20; // Approximate characters per line
+const SELF_MESSAGE_LABEL_GAP = 8; // Space between a self-message loop and its label
+const PAYLOAD_OFFSET_Y = 4; // Gap between the payload line and the label box below it
+const CONTROL_RADIUS = 10;
+const CONTROL_SPACING = 24; // Between the delete and insert buttons of a selected message
+const DRAG_HIT_WIDTH = 12; // Invisible stroke around the line that picks it up for dragging
+const END_HANDLE_RADIUS = 6;
+
+export type MessageEnd = 'from' | 'to';
 
 interface MessageArrowProps {
   message: Message;
   lifelines: Lifeline[];
+  fromLevel?: number; // Nesting level of the innermost activation at the source end
+  toLevel?: number; // Nesting level of the innermost activation at the destination end
+  endsAtHeader?: boolean; // Create message whose target's header is drawn at this row
+  number?: string; // Formatted autonumber shown before the label
+  separators?: Separator[]; // Divider and delay rows that push the arrow down
   isSelected: boolean;
+  isHighlighted?: boolean; // Part of the hovered call/return pair
+  isDragging?: boolean; // Being dragged to another row
   onSelect: (id: string) => void;
   onUpdate: (message: Message) => void;
   onDelete: (id: string) => void;
+  onHover?: (id: string | null) => void;
+  onInsert?: (id: string, placement: InsertPlacement) => void;
+  onDragStart?: (id: string, clientY: number) => void;
+  onEndDragStart?: (id: string, end: MessageEnd, clientX: number, clientY: number) => void;
 }
 
 function getLifelineX(lifeline: Lifeline): number {
   return LIFELINE_START_X + lifeline.order * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH / 2;
 }
 
-function getMessageY(order: number): number {
-  return LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT + 30 + order * MESSAGE_SPACING;
-}
-
 export default function MessageArrow({
   message,
   lifelines,
+  fromLevel = 0,
+  toLevel = 0,
+  endsAtHeader = false,
+  number,
+  separators = [],
   isSelected,
+  isHighlighted = false,
+  isDragging = false,
   onSelect,
   onUpdate,
   onDelete,
+  onHover,
+  onInsert,
+  onDragStart,
+  onEndDragStart,
 }: MessageArrowProps) {
   const [isEditingLabel, setIsEditingLabel] = useState(false);
   const [isEditingDescription, setIsEditingDescription] = useState(false);
-  const [editLabel, setEditLabel] = useState(message.label);
+  const [editLabel, setEditLabel] = useState(formatGuardedLabel(message));
   const [editDescription, setEditDescription] = useState(message.description || '');
   const labelInputRef = useRef<HTMLInputElement>(null);
   const descriptionInputRef = useRef<HTMLTextAreaElement>(null);
@@ -72,27 +103,64 @@ export default function MessageArrow({
     return { displayText, boxHeight, editHeight };
   }, [message.description, isSelected]);
 
-  if (!fromLifeline || !toLifeline) return null;
+  // Found messages enter from the left diagram edge, lost messages leave through the right one
+  const isFound = message.fromLifelineId === DIAGRAM_BOUNDARY_ID;
+  const isLost = message.toLifelineId === DIAGRAM_BOUNDARY_ID;
+  if ((!fromLifeline && !isFound) || (!toLifeline && !isLost)) return null;
 
-  const fromX = getLifelineX(fromLifeline);
-  const toX = getLifelineX(toLifeline);
-  const y = getMessageY(message.order);
+  const fromX = fromLifeline ? getLifelineX(fromLifeline) : getBoundaryX('left', lifelines);
+  const toX = toLifeline ? getLifelineX(toLifeline) : getBoundaryX('right', lifelines);
+  const y = getMessageY(message.order, separators);
 
-  // Adjust for activation bars
+  // Adjust for activation bars, attaching to the outer edge of the innermost (stacked) bar
+  const isSelfMessage = !!fromLifeline && fromLifeline.id === toLifeline?.id;
   const isLeftToRight = fromX < toX;
-  const adjustedFromX = isLeftToRight ? fromX + ACTIVATION_WIDTH / 2 : fromX - ACTIVATION_WIDTH / 2;
-  const adjustedToX = isLeftToRight ? toX - ACTIVATION_WIDTH / 2 : toX + ACTIVATION_WIDTH / 2;
+  const adjustedFromX = isFound
+    ? fromX
+    : (isLeftToRight || isSelfMessage ? fromX + ACTIVATION_WIDTH / 2 : fromX - ACTIVATION_WIDTH / 2) +
+      fromLevel * ACTIVATION_NEST_OFFSET;
+  // A create message stops at the near edge of the header it creates, a lost message at its dot
+  let adjustedToX: number;
+  if (isLost) {
+    adjustedToX = toX - BOUNDARY_DOT_RADIUS;
+  } else if (endsAtHeader) {
+    adjustedToX = isLeftToRight ? toX - LIFELINE_HEADER_WIDTH / 2 : toX + LIFELINE_HEADER_WIDTH / 2;
+  } else {
+    adjustedToX =
+      (isLeftToRight || isSelfMessage ? toX - ACTIVATION_WIDTH / 2 : toX + ACTIVATION_WIDTH / 2) +
+      toLevel * ACTIVATION_NEST_OFFSET;
+  }
 
-  // Calculate midpoint for label
+  // Self-messages loop out to the right of the lifeline and come back one step lower
+  const loopX = adjustedFromX + SELF_MESSAGE_LOOP_WIDTH;
+  const arrowY = isSelfMessage ? y + SELF_MESSAGE_LOOP_HEIGHT : y;
+  const arrowPointX = isSelfMessage ? adjustedFromX : adjustedToX;
+  const linePoints = isSelfMessage
+    ? `${adjustedFromX},${y} ${loopX},${y} ${loopX},${arrowY} ${arrowPointX},${arrowY}`
+    : `${adjustedFromX},${y} ${adjustedToX},${y}`;
+
+  // Label and description sit centered above/below the arrow, or beside the loop for self-messages
   const midX = (adjustedFromX + adjustedToX) / 2;
+  const labelX = isSelfMessage ? loopX + SELF_MESSAGE_LABEL_GAP + LABEL_BOX_WIDTH / 2 : midX;
+  const labelY = isSelfMessage ? y - LABEL_BOX_HEIGHT / 2 : y - LABEL_BOX_OFFSET_Y;
+  const descriptionX = isSelfMessage ? loopX + SELF_MESSAGE_LABEL_GAP + DESCRIPTION_BOX_WIDTH / 2 : midX;
+  const descriptionY = isSelfMessage ? labelY + LABEL_BOX_HEIGHT + 4 : y + DESCRIPTION_BOX_OFFSET_Y;
+  const deleteX = isSelfMessage ? labelX + LABEL_BOX_WIDTH / 2 + 14 : midX + 60;
+
+  // The autonumber is only displayed; editing the label never touches it
+  const displayLabel = formatMessageLabel(message, number);
+  const payloadSummary = formatPayloadSummary(message);
 
   // Arrow properties
   const arrowLength = 10;
   const arrowWidth = 6;
   const isReturn = message.type === 'return';
+  // Return and create messages are dashed
+  const isDashed = isReturn || message.type === 'create';
+  // Async, return and create messages use an open arrowhead; only sync is filled
+  const hasOpenArrowhead = message.type !== 'sync';
 
-  // Arrow direction
-  const arrowPointX = adjustedToX;
+  // Arrow direction (a self-message's returning leg points back left, towards the lifeline)
   const arrowDirection = isLeftToRight ? -1 : 1;
 
   const handleClick = (e: React.MouseEvent) => {
@@ -100,10 +168,49 @@ export default function MessageArrow({
     onSelect(message.id);
   };
 
+  const handleDragMouseDown = (e: React.MouseEvent) => {
+    // Only the primary button drags; the click that follows still selects the message
+    if (e.button !== 0 || isEditingLabel || isEditingDescription) return;
+    e.preventDefault();
+    onDragStart?.(message.id, e.clientY);
+  };
+
+  const renderEndHandle = (end: MessageEnd, cx: number, cy: number, title: string) => (
+    <g
+      key={end}
+      onMouseDown={(e) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        e.preventDefault();
+        onEndDragStart?.(message.id, end, e.clientX, e.clientY);
+      }}
+      className="cursor-move"
+    >
+      <title>{title}</title>
+      <circle cx={cx} cy={cy} r={END_HANDLE_RADIUS} fill="white" stroke="#8B5CF6" strokeWidth={2} />
+    </g>
+  );
+
+  const renderInsertControl = (placement: InsertPlacement, cx: number, glyph: string, title: string) => (
+    <g
+      onClick={(e) => {
+        e.stopPropagation();
+        onInsert?.(message.id, placement);
+      }}
+      className="cursor-pointer"
+    >
+      <title>{title}</title>
+      <circle cx={cx} cy={y - 12} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+      <text x={cx} y={y - 8} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+        +{glyph}
+      </text>
+    </g>
+  );
+
   const handleLabelDoubleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     setIsEditingLabel(true);
-    setEditLabel(message.label);
+    setEditLabel(formatGuardedLabel(message));
   };
 
   const handleDescriptionDoubleClick = (e: React.MouseEvent) => {
@@ -114,8 +221,10 @@ export default function MessageArrow({
 
   const handleLabelBlur = () => {
     setIsEditingLabel(false);
-    if (editLabel !== message.label) {
-      onUpdate({ ...message, label: editLabel });
+    // A leading "[condition]" is stored as the guard
+    if (editLabel !== formatGuardedLabel(message)) {
+      const { guard, label } = parseGuardedLabel(editLabel);
+      onUpdate({ ...message, label, guard });
     }
   };
 
@@ -132,7 +241,7 @@ export default function MessageArrow({
       handleLabelBlur();
     } else if (e.key === 'Escape') {
       setIsEditingLabel(false);
-      setEditLabel(message.label);
+      setEditLabel(formatGuardedLabel(message));
     }
   };
 
@@ -147,42 +256,89 @@ export default function MessageArrow({
   };
 
   return (
-    <g onClick={handleClick}>
+    <g
+      onClick={handleClick}
+      onMouseEnter={() => onHover?.(message.id)}
+      onMouseLeave={() => onHover?.(null)}
+      opacity={isDragging ? 0.5 : 1}
+    >
+      {/* Halo behind a hovered call and its paired return */}
+      {isHighlighted && (
+        <polyline
+          points={linePoints}
+          fill="none"
+          stroke="#FBBF24"
+          strokeOpacity={0.45}
+          strokeWidth={10}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          pointerEvents="none"
+        />
+      )}
+
+      {/* Wide invisible stroke to drag the arrow to another row */}
+      {onDragStart && (
+        <polyline
+          points={linePoints}
+          fill="none"
+          stroke="transparent"
+          strokeWidth={DRAG_HIT_WIDTH}
+          className="cursor-row-resize"
+          onMouseDown={handleDragMouseDown}
+        />
+      )}
+
       {/* Line */}
-      <line
-        x1={adjustedFromX}
-        y1={y}
-        x2={adjustedToX}
-        y2={y}
+      <polyline
+        points={linePoints}
+        fill="none"
         stroke={isReturn ? '#6B7280' : '#374151'}
         strokeWidth={isSelected ? 3 : 2}
-        strokeDasharray={isReturn ? '8,4' : 'none'}
-        className="cursor-pointer"
+        strokeDasharray={isDashed ? '8,4' : 'none'}
+        className={onDragStart ? 'cursor-row-resize' : 'cursor-pointer'}
+        onMouseDown={handleDragMouseDown}
       />
       
       {/* Arrowhead */}
-      {isReturn ? (
-        // Open arrowhead for return messages
+      {hasOpenArrowhead ? (
+        // Open arrowhead for async, return and create messages
         <polyline
-          points={`${arrowPointX + arrowDirection * arrowLength},${y - arrowWidth} ${arrowPointX},${y} ${arrowPointX + arrowDirection * arrowLength},${y + arrowWidth}`}
+          points={`${arrowPointX + arrowDirection * arrowLength},${arrowY - arrowWidth} ${arrowPointX},${arrowY} ${arrowPointX + arrowDirection * arrowLength},${arrowY + arrowWidth}`}
           fill="none"
-          stroke="#6B7280"
+          stroke={isReturn ? '#6B7280' : '#374151'}
           strokeWidth={2}
         />
       ) : (
         // Filled arrowhead for sync messages
         <polygon
-          points={`${arrowPointX},${y} ${arrowPointX + arrowDirection * arrowLength},${y - arrowWidth} ${arrowPointX + arrowDirection * arrowLength},${y + arrowWidth}`}
+          points={`${arrowPointX},${arrowY} ${arrowPointX + arrowDirection * arrowLength},${arrowY - arrowWidth} ${arrowPointX + arrowDirection * arrowLength},${arrowY + arrowWidth}`}
           fill="#374151"
         />
       )}
 
+      {/* Filled dot at the diagram edge for found and lost messages */}
+      {isFound && <circle cx={fromX} cy={y} r={BOUNDARY_DOT_RADIUS} fill="#374151" />}
+      {isLost && <circle cx={toX} cy={y} r={BOUNDARY_DOT_RADIUS} fill="#374151" />}
+
+      {/* Compact payload (above the label), e.g. "POST /api/chat { prompt }" */}
+      {payloadSummary && (
+        <text
+          x={labelX}
+          y={labelY - PAYLOAD_OFFSET_Y}
+          textAnchor="middle"
+          className="fill-sky-700 select-none"
+          style={{ fontSize: '11px', fontFamily: 'ui-monospace, monospace', paintOrder: 'stroke', stroke: 'white', strokeWidth: 3 }}
+        >
+          {payloadSummary}
+        </text>
+      )}
+
       {/* Label background and text (above the arrow) */}
-      {message.label && (
+      {displayLabel && (
         <>
           <rect
-            x={midX - LABEL_BOX_WIDTH / 2}
-            y={y - LABEL_BOX_OFFSET_Y}
+            x={labelX - LABEL_BOX_WIDTH / 2}
+            y={labelY}
             width={LABEL_BOX_WIDTH}
             height={LABEL_BOX_HEIGHT}
             fill="white"
@@ -191,7 +347,7 @@ export default function MessageArrow({
             onDoubleClick={handleLabelDoubleClick}
           />
           {isEditingLabel ? (
-            <foreignObject x={midX - LABEL_BOX_WIDTH / 2} y={y - LABEL_BOX_OFFSET_Y} width={LABEL_BOX_WIDTH} height={LABEL_BOX_HEIGHT}>
+            <foreignObject x={labelX - LABEL_BOX_WIDTH / 2} y={labelY} width={LABEL_BOX_WIDTH} height={LABEL_BOX_HEIGHT}>
               <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
                 <input
                   ref={labelInputRef}
@@ -207,13 +363,13 @@ export default function MessageArrow({
             </foreignObject>
           ) : (
             <text
-              x={midX}
-              y={y - LABEL_BOX_OFFSET_Y + LABEL_BOX_HEIGHT / 2 + 2}
+              x={labelX}
+              y={labelY + LABEL_BOX_HEIGHT / 2 + 2}
               textAnchor="middle"
               className="text-xs font-medium fill-gray-700 cursor-pointer select-none"
               onDoubleClick={handleLabelDoubleClick}
             >
-              {message.label}
+              {displayLabel}
             </text>
           )}
         </>
@@ -223,8 +379,8 @@ export default function MessageArrow({
       {(message.description || isSelected) && (
         <>
           <rect
-            x={midX - DESCRIPTION_BOX_WIDTH / 2}
-            y={y + DESCRIPTION_BOX_OFFSET_Y}
+            x={descriptionX - DESCRIPTION_BOX_WIDTH / 2}
+            y={descriptionY}
             width={DESCRIPTION_BOX_WIDTH}
             height={descriptionLayout.boxHeight}
             fill="white"
@@ -233,7 +389,7 @@ export default function MessageArrow({
             onDoubleClick={handleDescriptionDoubleClick}
           />
           {isEditingDescription ? (
-            <foreignObject x={midX - DESCRIPTION_BOX_WIDTH / 2} y={y + DESCRIPTION_BOX_OFFSET_Y} width={DESCRIPTION_BOX_WIDTH} height={descriptionLayout.editHeight}>
+            <foreignObject x={descriptionX - DESCRIPTION_BOX_WIDTH / 2} y={descriptionY} width={DESCRIPTION_BOX_WIDTH} height={descriptionLayout.editHeight}>
               <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'flex-start', justifyContent: 'center', padding: '4px' }}>
                 <textarea
                   ref={descriptionInputRef}
@@ -262,8 +418,8 @@ export default function MessageArrow({
             </foreignObject>
           ) : (
             <foreignObject 
-              x={midX - DESCRIPTION_BOX_WIDTH / 2} 
-              y={y + DESCRIPTION_BOX_OFFSET_Y} 
+              x={descriptionX - DESCRIPTION_BOX_WIDTH / 2} 
+              y={descriptionY} 
               width={DESCRIPTION_BOX_WIDTH} 
               height={descriptionLayout.boxHeight}
             >
@@ -310,9 +466,9 @@ export default function MessageArrow({
           }}
           className="cursor-pointer"
         >
-          <circle cx={midX + 60} cy={y - 12} r={10} fill="#EF4444" />
+          <circle cx={deleteX} cy={y - 12} r={CONTROL_RADIUS} fill="#EF4444" />
           <text
-            x={midX + 60}
+            x={deleteX}
             y={y - 8}
             textAnchor="middle"
             className="text-xs font-bold fill-white select-none"
@@ -321,6 +477,22 @@ export default function MessageArrow({
           </text>
         </g>
       )}
+
+      {/* End handles when selected: drop an end on another lifeline (or past the edge) to rewire it */}
+      {isSelected && onEndDragStart && (
+        <>
+          {renderEndHandle('from', isFound ? fromX : adjustedFromX, y, 'Drag to change the sender')}
+          {renderEndHandle('to', isLost ? toX : arrowPointX, arrowY, 'Drag to change the receiver')}
+        </>
+      )}
+
+      {/* Insert buttons when selected: draw a new message right above or below this one */}
+      {isSelected && onInsert && (
+        <>
+          {renderInsertControl('above', deleteX + CONTROL_SPACING, '↑', 'Insert a message above')}
+          {renderInsertControl('below', deleteX + CONTROL_SPACING * 2, '↓', 'Insert a message below')}
+        </>
+      )}
     </g>
   );
 }
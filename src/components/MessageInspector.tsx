@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Message,
+  MessagePayload,
+  MessageProtocol,
+  HttpMethod,
+  MESSAGE_PROTOCOLS,
+  HTTP_METHODS,
+} from '@/types/diagram';
+import { normalizePayload, formatPayloadSummary } from '@/lib/MessagePayload';
+
+// Form values as typed; empty strings are dropped when the payload is saved
+interface PayloadDraft {
+  protocol: MessageProtocol | '';
+  method: HttpMethod | '';
+  path: string;
+  params: string;
+  status: string;
+  returns: string;
+}
+
+interface MessageInspectorProps {
+  message: Message;
+  fromName: string;
+  toName: string;
+  onUpdate: (message: Message) => void;
+  onClose: () => void;
+}
+
+const FIELD_CLASS_NAME =
+  'w-full px-2 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function toDraft(payload: MessagePayload | undefined): PayloadDraft {
+  return {
+    protocol: payload?.protocol ?? '',
+    method: payload?.method ?? '',
+    path: payload?.path ?? '',
+    params: payload?.params ?? '',
+    status: payload?.status?.toString() ?? '',
+    returns: payload?.returns ?? '',
+  };
+}
+
+function fromDraft(draft: PayloadDraft): MessagePayload | undefined {
+  const status = parseInt(draft.status, 10);
+  return normalizePayload({
+    protocol: draft.protocol || undefined,
+    method: draft.method || undefined,
+    path: draft.path,
+    params: draft.params,
+    status: Number.isNaN(status) ? undefined : status,
+    returns: draft.returns,
+  });
+}
+
+export default function MessageInspector({ message, fromName, toName, onUpdate, onClose }: MessageInspectorProps) {
+  // Keyed by message id in the canvas, so the draft resets when another message is selected
+  const [draft, setDraft] = useState<PayloadDraft>(() => toDraft(message.payload));
+
+  const handleChange = <K extends keyof PayloadDraft>(field: K, value: PayloadDraft[K]) => {
+    const next = { ...draft, [field]: value };
+    setDraft(next);
+    onUpdate({ ...message, payload: fromDraft(next) });
+  };
+
+  const isHttp = draft.protocol === '' || draft.protocol === 'http';
+  const isReturn = message.type === 'return';
+  const summary = formatPayloadSummary(message);
+
+  return (
+    <div
+      className="fixed bottom-6 right-6 z-40 w-80 bg-white/95 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-200 p-4 flex flex-col gap-3"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-800">Message details</h2>
+          <p className="text-xs text-gray-500">
+            {fromName} → {toName}
+          </p>
+        </div>
+        <button
+          className="w-6 h-6 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-700 transition-colors"
+          onClick={onClose}
+          title="Close"
+          aria-label="Close message details"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+          Protocol
+          <select
+            value={draft.protocol}
+            onChange={(e) => handleChange('protocol', e.target.value as MessageProtocol | '')}
+            className={FIELD_CLASS_NAME}
+          >
+            <option value="">—</option>
+            {MESSAGE_PROTOCOLS.map((protocol) => (
+              <option key={protocol} value={protocol}>
+                {protocol}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+          Method
+          <select
+            value={isHttp ? draft.method : ''}
+            onChange={(e) => handleChange('method', e.target.value as HttpMethod | '')}
+            className={FIELD_CLASS_NAME}
+            disabled={!isHttp}
+          >
+            <option value="">—</option>
+            {HTTP_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {method}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+        Path
+        <input
+          type="text"
+          value={draft.path}
+          onChange={(e) => handleChange('path', e.target.value)}
+          className={`${FIELD_CLASS_NAME} font-mono`}
+          placeholder={isHttp ? '/api/chat' : 'Service/Method or topic'}
+        />
+      </label>
+
+      {!isReturn && (
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+          Params / body
+          <textarea
+            value={draft.params}
+            onChange={(e) => handleChange('params', e.target.value)}
+            className={`${FIELD_CLASS_NAME} font-mono resize-none`}
+            rows={2}
+            placeholder="{ prompt }"
+          />
+        </label>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+          Status
+          <input
+            type="number"
+            value={draft.status}
+            onChange={(e) => handleChange('status', e.target.value)}
+            className={FIELD_CLASS_NAME}
+            placeholder="200"
+            min={100}
+            max={599}
+          />
+        </label>
+        <label className="col-span-2 flex flex-col gap-1 text-xs font-medium text-gray-600">
+          Returns
+          <input
+            type="text"
+            value={draft.returns}
+            onChange={(e) => handleChange('returns', e.target.value)}
+            className={`${FIELD_CLASS_NAME} font-mono`}
+            placeholder="{ reply }"
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Shown as: <span className="font-mono text-sky-700">{summary || '—'}</span>
+      </p>
+    </div>
+  );
+}
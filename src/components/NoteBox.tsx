@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Note, NOTE_POSITIONS, NOTE_FOLD_SIZE } from '@/types/diagram';
+import { NoteFrame } from '@/lib/NoteLayout';
+
+// Control button layout constants
+const CONTROL_RADIUS = 8;
+const CONTROL_ARROW_SIZE = 4;
+
+interface NoteBoxProps {
+  frame: NoteFrame;
+  isSelected: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  canExtendSpan: boolean;
+  onSelect: (id: string) => void;
+  onUpdate: (note: Note) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, delta: number) => void;
+  onResizeSpan: (id: string, delta: number) => void;
+}
+
+export default function NoteBox({
+  frame,
+  isSelected,
+  canMoveUp,
+  canMoveDown,
+  canExtendSpan,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onMove,
+  onResizeSpan,
+}: NoteBoxProps) {
+  const { note, x, y, width, height } = frame;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(note.text);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect(note.id);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditing(true);
+    setEditText(note.text);
+  };
+
+  const handleBlur = () => {
+    setIsEditing(false);
+    const trimmedText = editText.trim();
+    if (trimmedText && trimmedText !== note.text) {
+      onUpdate({ ...note, text: trimmedText });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleBlur();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+      setEditText(note.text);
+    }
+  };
+
+  // Cycle left -> over -> right
+  const handleCyclePosition = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const index = NOTE_POSITIONS.indexOf(note.position);
+    onUpdate({ ...note, position: NOTE_POSITIONS[(index + 1) % NOTE_POSITIONS.length] });
+  };
+
+  const isAttached = !!note.messageId;
+  const canShrinkSpan = note.lifelineIds.length > 1;
+  const showSpanControls = !isAttached && note.position === 'over';
+
+  const renderArrowButton = (
+    key: string,
+    cx: number,
+    cy: number,
+    points: string,
+    title: string,
+    onClick: () => void
+  ) => (
+    <g
+      key={key}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className="cursor-pointer"
+    >
+      <title>{title}</title>
+      <circle cx={cx} cy={cy} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+      <polygon points={points} fill="white" />
+    </g>
+  );
+
+  const s = CONTROL_ARROW_SIZE;
+  const leftControlX = x - CONTROL_RADIUS - 4;
+  const rightControlX = x + width + CONTROL_RADIUS + 4;
+  const midY = y + height / 2;
+
+  return (
+    <g onClick={handleClick} onDoubleClick={handleDoubleClick}>
+      {/* Folded-corner body */}
+      <path
+        d={`M ${x} ${y} L ${x + width - NOTE_FOLD_SIZE} ${y} L ${x + width} ${y + NOTE_FOLD_SIZE} L ${x + width} ${y + height} L ${x} ${y + height} Z`}
+        fill="#FEF9C3"
+        stroke={isSelected ? '#6366F1' : '#CA8A04'}
+        strokeWidth={isSelected ? 2 : 1}
+        className="cursor-pointer"
+        filter="drop-shadow(0 1px 2px rgba(0,0,0,0.1))"
+      />
+      <path
+        d={`M ${x + width - NOTE_FOLD_SIZE} ${y} L ${x + width - NOTE_FOLD_SIZE} ${y + NOTE_FOLD_SIZE} L ${x + width} ${y + NOTE_FOLD_SIZE}`}
+        fill="#FDE68A"
+        stroke={isSelected ? '#6366F1' : '#CA8A04'}
+        strokeWidth={1}
+        pointerEvents="none"
+      />
+
+      {/* Text */}
+      {isEditing ? (
+        <foreignObject x={x} y={y} width={width} height={Math.max(height, 60)}>
+          <textarea
+            ref={inputRef}
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            onBlur={handleBlur}
+            onKeyDown={handleKeyDown}
+            placeholder="Add note..."
+            style={{
+              width: '100%',
+              height: '100%',
+              fontSize: '12px',
+              color: '#374151',
+              backgroundColor: '#FEF9C3',
+              outline: 'none',
+              border: '1px solid #3B82F6',
+              padding: '4px 6px',
+              resize: 'none',
+              lineHeight: '1.25',
+            }}
+            onClick={(e) => e.stopPropagation()}
+          />
+        </foreignObject>
+      ) : (
+        <foreignObject x={x} y={y} width={width - NOTE_FOLD_SIZE / 2} height={height}>
+          <div
+            style={{
+              width: '100%',
+              height: '100%',
+              display: 'flex',
+              alignItems: 'center',
+              padding: '4px 6px',
+              boxSizing: 'border-box',
+            }}
+          >
+            <p
+              style={{
+                margin: 0,
+                fontSize: '12px',
+                color: '#374151',
+                lineHeight: '1.25',
+                whiteSpace: 'pre-wrap',
+                overflowWrap: 'break-word',
+                cursor: 'pointer',
+                userSelect: 'none',
+              }}
+            >
+              {note.text}
+            </p>
+          </div>
+        </foreignObject>
+      )}
+
+      {isSelected && (
+        <>
+          {/* Delete button */}
+          <g
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(note.id);
+            }}
+            className="cursor-pointer"
+          >
+            <circle cx={x + width} cy={y} r={10} fill="#EF4444" />
+            <text x={x + width} y={y + 4} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ×
+            </text>
+          </g>
+
+          {/* Position toggle */}
+          <g onClick={handleCyclePosition} className="cursor-pointer">
+            <title>{`Position: ${note.position} (click to change)`}</title>
+            <circle cx={x} cy={y} r={CONTROL_RADIUS + 1} fill="#CA8A04" />
+            <text x={x} y={y + 4} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ⇄
+            </text>
+          </g>
+
+          {/* Row controls (message-attached notes follow their message instead) */}
+          {!isAttached && canMoveUp &&
+            renderArrowButton(
+              'up',
+              leftControlX,
+              midY - 10,
+              `${leftControlX},${midY - 10 - s} ${leftControlX - s},${midY - 10 + s - 1} ${leftControlX + s},${midY - 10 + s - 1}`,
+              'Move up one row',
+              () => onMove(note.id, -1)
+            )}
+          {!isAttached && canMoveDown &&
+            renderArrowButton(
+              'down',
+              leftControlX,
+              midY + 10,
+              `${leftControlX},${midY + 10 + s} ${leftControlX - s},${midY + 10 - s + 1} ${leftControlX + s},${midY + 10 - s + 1}`,
+              'Move down one row',
+              () => onMove(note.id, 1)
+            )}
+
+          {/* Span controls for notes over several lifelines */}
+          {showSpanControls && canShrinkSpan &&
+            renderArrowButton(
+              'shrink',
+              rightControlX,
+              midY - 10,
+              `${rightControlX - s},${midY - 10} ${rightControlX + s - 1},${midY - 10 - s} ${rightControlX + s - 1},${midY - 10 + s}`,
+              'Span one lifeline less',
+              () => onResizeSpan(note.id, -1)
+            )}
+          {showSpanControls && canExtendSpan &&
+            renderArrowButton(
+              'extend',
+              rightControlX,
+              midY + 10,
+              `${rightControlX + s},${midY + 10} ${rightControlX - s + 1},${midY + 10 - s} ${rightControlX - s + 1},${midY + 10 + s}`,
+              'Span the next lifeline',
+              () => onResizeSpan(note.id, 1)
+            )}
+        </>
+      )}
+    </g>
+  );
+}
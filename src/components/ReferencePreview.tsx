@@ -0,0 +1,180 @@
+'use client';
+
+import { Message, Separator, DIAGRAM_BOUNDARY_ID } from '@/types/diagram';
+import { BumlDiagram } from '@/lib/BumlBuilder';
+
+// Compact layout constants for the read-only preview
+const TITLE_HEIGHT = 22;
+const HEADER_HEIGHT = 20;
+const ROW_HEIGHT = 26;
+const PADDING = 8;
+const COLUMN_MIN_WIDTH = 90;
+const ARROW_SIZE = 6;
+const SELF_LOOP_WIDTH = 18;
+
+// A message or separator row of the preview, in drawing order
+type PreviewRow = { message: Message } | { separator: Separator };
+
+interface ReferencePreviewProps {
+  diagram: BumlDiagram;
+  title: string;
+  x: number;
+  y: number; // Top of the preview panel
+  minWidth: number;
+}
+
+/**
+ * Returns the rows of a diagram top to bottom: separators sit above the message they name
+ */
+function getPreviewRows(messages: Message[], separators: Separator[]): PreviewRow[] {
+  const sortedSeparators = [...separators].sort((a, b) => a.beforeMessageOrder - b.beforeMessageOrder);
+  const sortedMessages = [...messages].sort((a, b) => a.order - b.order);
+  const rows: PreviewRow[] = [];
+  let next = 0;
+  for (const message of sortedMessages) {
+    while (next < sortedSeparators.length && sortedSeparators[next].beforeMessageOrder <= message.order) {
+      rows.push({ separator: sortedSeparators[next++] });
+    }
+    rows.push({ message });
+  }
+  while (next < sortedSeparators.length) {
+    rows.push({ separator: sortedSeparators[next++] });
+  }
+  return rows;
+}
+
+/**
+ * Returns the height of the preview panel for a diagram
+ */
+export function getReferencePreviewHeight(diagram: BumlDiagram): number {
+  const rowCount = diagram.state.messages.length + diagram.state.separators.length;
+  return TITLE_HEIGHT + HEADER_HEIGHT + 4 + Math.max(rowCount, 1) * ROW_HEIGHT + PADDING;
+}
+
+export default function ReferencePreview({ diagram, title, x, y, minWidth }: ReferencePreviewProps) {
+  const { lifelines, messages, separators } = diagram.state;
+  const sortedLifelines = [...lifelines].sort((a, b) => a.order - b.order);
+  const rows = getPreviewRows(messages, separators);
+
+  const width = Math.max(minWidth, sortedLifelines.length * COLUMN_MIN_WIDTH + 2 * PADDING);
+  const columnWidth = (width - 2 * PADDING) / Math.max(sortedLifelines.length, 1);
+  const headersTop = y + TITLE_HEIGHT;
+  const rowsTop = headersTop + HEADER_HEIGHT + 4;
+  const height = getReferencePreviewHeight(diagram);
+
+  const columnX = new Map(sortedLifelines.map((l, i) => [l.id, x + PADDING + columnWidth * (i + 0.5)]));
+  const getEndpointX = (id: string, side: 'left' | 'right') =>
+    columnX.get(id) ?? (side === 'left' ? x + PADDING / 2 : x + width - PADDING / 2);
+
+  const renderMessage = (message: Message, rowY: number) => {
+    const fromX = getEndpointX(message.fromLifelineId, 'left');
+    const toX = getEndpointX(message.toLifelineId, 'right');
+    const isDashed = message.type === 'return' || message.type === 'create';
+    const dash = isDashed ? '4,3' : undefined;
+    const labelY = rowY - 4;
+
+    if (message.fromLifelineId === message.toLifelineId && message.fromLifelineId !== DIAGRAM_BOUNDARY_ID) {
+      const loopY = rowY + 8;
+      return (
+        <g key={message.id}>
+          <polyline
+            points={`${fromX},${rowY} ${fromX + SELF_LOOP_WIDTH},${rowY} ${fromX + SELF_LOOP_WIDTH},${loopY} ${fromX},${loopY}`}
+            fill="none"
+            stroke="#4B5563"
+            strokeWidth={1}
+            strokeDasharray={dash}
+          />
+          <polygon points={`${fromX},${loopY} ${fromX + ARROW_SIZE},${loopY - 3} ${fromX + ARROW_SIZE},${loopY + 3}`} fill="#4B5563" />
+          <text x={fromX + SELF_LOOP_WIDTH + 4} y={rowY + 3} className="fill-gray-600" style={{ fontSize: '9px' }}>
+            {message.label}
+          </text>
+        </g>
+      );
+    }
+
+    const direction = toX >= fromX ? 1 : -1;
+    const tipBase = toX - direction * ARROW_SIZE;
+    const head =
+      message.type === 'sync' ? (
+        <polygon points={`${toX},${rowY} ${tipBase},${rowY - 3} ${tipBase},${rowY + 3}`} fill="#4B5563" />
+      ) : (
+        <polyline points={`${tipBase},${rowY - 3} ${toX},${rowY} ${tipBase},${rowY + 3}`} fill="none" stroke="#4B5563" strokeWidth={1} />
+      );
+
+    return (
+      <g key={message.id}>
+        <line x1={fromX} y1={rowY} x2={toX} y2={rowY} stroke="#4B5563" strokeWidth={1} strokeDasharray={dash} />
+        {head}
+        {message.fromLifelineId === DIAGRAM_BOUNDARY_ID && <circle cx={fromX} cy={rowY} r={2.5} fill="#4B5563" />}
+        {message.toLifelineId === DIAGRAM_BOUNDARY_ID && <circle cx={toX} cy={rowY} r={2.5} fill="#4B5563" />}
+        <text x={(fromX + toX) / 2} y={labelY} textAnchor="middle" className="fill-gray-600" style={{ fontSize: '9px' }}>
+          {message.label}
+        </text>
+      </g>
+    );
+  };
+
+  const renderSeparator = (separator: Separator, rowY: number) => {
+    if (separator.kind === 'ref') {
+      const edgeXs = [separator.startLifelineId, separator.endLifelineId].map((id) => columnX.get(id ?? '') ?? x + width / 2);
+      const boxLeft = Math.min(...edgeXs) - columnWidth / 2 + 4;
+      const boxRight = Math.max(...edgeXs) + columnWidth / 2 - 4;
+      return (
+        <g key={separator.id}>
+          <rect x={boxLeft} y={rowY - 9} width={boxRight - boxLeft} height={18} rx={2} fill="white" stroke="#4B5563" strokeWidth={1} />
+          <text x={(boxLeft + boxRight) / 2} y={rowY + 3} textAnchor="middle" className="fill-gray-700" style={{ fontSize: '9px' }}>
+            ref: {separator.text}
+          </text>
+        </g>
+      );
+    }
+    const isDivider = separator.kind === 'divider';
+    return (
+      <g key={separator.id}>
+        {isDivider && <line x1={x + 2} y1={rowY} x2={x + width - 2} y2={rowY} stroke="#9CA3AF" strokeWidth={1} />}
+        <text
+          x={x + width / 2}
+          y={rowY + 3}
+          textAnchor="middle"
+          className={isDivider ? 'fill-gray-700 font-bold' : 'fill-gray-500 italic'}
+          style={{ fontSize: '9px', paintOrder: 'stroke', stroke: 'white', strokeWidth: 3 }}
+        >
+          {isDivider ? separator.text : `… ${separator.text} …`}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <g pointerEvents="none">
+      {/* Panel */}
+      <rect x={x} y={y} width={width} height={height} rx={6} fill="white" fillOpacity={0.97} stroke="#0EA5E9" strokeWidth={1.5} strokeDasharray="5,3" />
+      <text x={x + PADDING} y={y + 15} className="text-xs font-semibold fill-sky-700 select-none">
+        {title}
+      </text>
+      <text x={x + width - PADDING} y={y + 15} textAnchor="end" className="fill-gray-400 italic select-none" style={{ fontSize: '10px' }}>
+        read-only
+      </text>
+
+      {/* Lifelines */}
+      {sortedLifelines.map((lifeline) => {
+        const cx = columnX.get(lifeline.id) as number;
+        return (
+          <g key={lifeline.id}>
+            <line x1={cx} y1={headersTop + HEADER_HEIGHT} x2={cx} y2={y + height - PADDING / 2} stroke="#D1D5DB" strokeWidth={1} strokeDasharray="3,3" />
+            <rect x={cx - columnWidth / 2 + 6} y={headersTop} width={columnWidth - 12} height={HEADER_HEIGHT} rx={4} fill={lifeline.color} />
+            <text x={cx} y={headersTop + 14} textAnchor="middle" className="fill-white font-semibold select-none" style={{ fontSize: '10px' }}>
+              {lifeline.name}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Messages and separators */}
+      {rows.map((row, i) => {
+        const rowY = rowsTop + i * ROW_HEIGHT + ROW_HEIGHT / 2;
+        return 'message' in row ? renderMessage(row.message, rowY) : renderSeparator(row.separator, rowY);
+      })}
+    </g>
+  );
+}
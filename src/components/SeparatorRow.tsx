@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Separator, MESSAGE_SPACING } from '@/types/diagram';
+
+// Separator layout constants
+const LABEL_CHAR_WIDTH = 7; // Approximate width of one label character
+const LABEL_MIN_WIDTH = 80;
+const LABEL_HEIGHT = 22;
+const EDIT_BOX_WIDTH = 220;
+const DIVIDER_LINE_GAP = 3; // Distance between the two lines of a divider
+const DELAY_BAND_HEIGHT = MESSAGE_SPACING - 16; // Height of the band that interrupts the lifelines
+const CONTROL_RADIUS = 8;
+const CONTROL_ARROW_SIZE = 4;
+
+interface SeparatorRowProps {
+  separator: Separator;
+  y: number; // Center of the separator's row
+  width: number; // Full canvas width
+  lifelineXs: number[]; // Lifeline centers, drawn dotted through a delay
+  isSelected: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onSelect: (id: string) => void;
+  onUpdate: (separator: Separator) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, delta: number) => void;
+}
+
+export default function SeparatorRow({
+  separator,
+  y,
+  width,
+  lifelineXs,
+  isSelected,
+  canMoveUp,
+  canMoveDown,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onMove,
+}: SeparatorRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(separator.text);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSelect(separator.id);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsEditing(true);
+    setEditText(separator.text);
+  };
+
+  const handleBlur = () => {
+    setIsEditing(false);
+    const trimmedText = editText.trim();
+    if (trimmedText !== separator.text) {
+      onUpdate({ ...separator, text: trimmedText });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleBlur();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+      setEditText(separator.text);
+    }
+  };
+
+  // Switch between divider and delay
+  const handleToggleKind = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onUpdate({ ...separator, kind: separator.kind === 'divider' ? 'delay' : 'divider' });
+  };
+
+  const isDivider = separator.kind === 'divider';
+  const centerX = width / 2;
+  const labelWidth = Math.max(LABEL_MIN_WIDTH, separator.text.length * LABEL_CHAR_WIDTH + 24);
+  const highlight = isSelected ? '#6366F1' : '#4B5563';
+  const s = CONTROL_ARROW_SIZE;
+  const controlX = centerX + labelWidth / 2 + CONTROL_RADIUS + 8;
+
+  const renderArrowButton = (key: string, cy: number, points: string, title: string, delta: number) => (
+    <g
+      key={key}
+      onClick={(e) => {
+        e.stopPropagation();
+        onMove(separator.id, delta);
+      }}
+      className="cursor-pointer"
+    >
+      <title>{title}</title>
+      <circle cx={controlX} cy={cy} r={CONTROL_RADIUS} fill="#6366F1" className="hover:fill-indigo-600" />
+      <polygon points={points} fill="white" />
+    </g>
+  );
+
+  return (
+    <g onClick={handleClick} onDoubleClick={handleDoubleClick} className="cursor-pointer">
+      {isDivider ? (
+        <>
+          {/* Double line across the whole diagram */}
+          <rect x={0} y={y - DIVIDER_LINE_GAP - 4} width={width} height={2 * DIVIDER_LINE_GAP + 8} fill="transparent" />
+          <line x1={0} y1={y - DIVIDER_LINE_GAP} x2={width} y2={y - DIVIDER_LINE_GAP} stroke={highlight} strokeWidth={1} />
+          <line x1={0} y1={y + DIVIDER_LINE_GAP} x2={width} y2={y + DIVIDER_LINE_GAP} stroke={highlight} strokeWidth={1} />
+        </>
+      ) : (
+        <>
+          {/* Band hiding the dashed lifelines, which continue dotted to show time passing */}
+          <rect
+            x={0}
+            y={y - DELAY_BAND_HEIGHT / 2}
+            width={width}
+            height={DELAY_BAND_HEIGHT}
+            fill="white"
+            fillOpacity={0.9}
+            stroke={isSelected ? '#6366F1' : 'none'}
+            strokeDasharray="4,4"
+          />
+          {lifelineXs.map((x, i) => (
+            <line
+              key={i}
+              x1={x}
+              y1={y - DELAY_BAND_HEIGHT / 2}
+              x2={x}
+              y2={y + DELAY_BAND_HEIGHT / 2}
+              stroke="#9CA3AF"
+              strokeWidth={2}
+              strokeDasharray="2,5"
+              strokeLinecap="round"
+            />
+          ))}
+        </>
+      )}
+
+      {/* Label */}
+      {isEditing ? (
+        <foreignObject x={centerX - EDIT_BOX_WIDTH / 2} y={y - LABEL_HEIGHT / 2} width={EDIT_BOX_WIDTH} height={LABEL_HEIGHT}>
+          <input
+            ref={inputRef}
+            type="text"
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            onBlur={handleBlur}
+            onKeyDown={handleKeyDown}
+            placeholder={isDivider ? 'Section name' : 'e.g. 30 seconds later'}
+            style={{ width: '100%', height: '100%', textAlign: 'center', fontSize: '12px', color: '#374151', backgroundColor: 'white', outline: 'none', border: '1px solid #3B82F6', borderRadius: '4px', padding: '0 4px' }}
+            onClick={(e) => e.stopPropagation()}
+          />
+        </foreignObject>
+      ) : (
+        (separator.text || isSelected) && (
+          <>
+            {isDivider && (
+              <rect
+                x={centerX - labelWidth / 2}
+                y={y - LABEL_HEIGHT / 2}
+                width={labelWidth}
+                height={LABEL_HEIGHT}
+                rx={3}
+                fill="#F3F4F6"
+                stroke={highlight}
+                strokeWidth={1}
+              />
+            )}
+            <text
+              x={centerX}
+              y={y + 4}
+              textAnchor="middle"
+              className={`text-xs select-none ${isDivider ? 'font-bold fill-gray-700' : 'italic fill-gray-500'}`}
+              opacity={separator.text ? 1 : 0.5}
+            >
+              {separator.text || 'Double-click to edit'}
+            </text>
+          </>
+        )
+      )}
+
+      {isSelected && (
+        <>
+          {/* Delete button */}
+          <g
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(separator.id);
+            }}
+            className="cursor-pointer"
+          >
+            <title>{isDivider ? 'Delete divider' : 'Delete delay'}</title>
+            <circle cx={centerX - labelWidth / 2 - 14} cy={y} r={10} fill="#EF4444" />
+            <text x={centerX - labelWidth / 2 - 14} y={y + 4} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ×
+            </text>
+          </g>
+
+          {/* Kind toggle */}
+          <g onClick={handleToggleKind} className="cursor-pointer">
+            <title>{isDivider ? 'Turn into a delay' : 'Turn into a divider'}</title>
+            <circle cx={centerX - labelWidth / 2 - 38} cy={y} r={CONTROL_RADIUS + 1} fill="#4B5563" />
+            <text x={centerX - labelWidth / 2 - 38} y={y + 4} textAnchor="middle" className="text-xs font-bold fill-white select-none">
+              ⇄
+            </text>
+          </g>
+
+          {/* Row controls */}
+          {canMoveUp &&
+            renderArrowButton(
+              'up',
+              y - 10,
+              `${controlX},${y - 10 - s} ${controlX - s},${y - 10 + s - 1} ${controlX + s},${y - 10 + s - 1}`,
+              'Move above the previous message',
+              -1
+            )}
+          {canMoveDown &&
+            renderArrowButton(
+              'down',
+              y + 10,
+              `${controlX},${y + 10 + s} ${controlX - s},${y + 10 - s + 1} ${controlX + s},${y + 10 - s + 1}`,
+              'Move below the next message',
+              1
+            )}
+        </>
+      )}
+    </g>
+  );
+}
@@ -1,11 +1,26 @@
 'use client';
 
-import { useState, useCallback, useMemo, useRef } from 'react';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import {
   Lifeline,
+  LifelineKind,
+  LifelineGroup,
   Message,
+  MessageType,
+  Activation,
   ActivationBlockData,
+  Fragment,
+  FragmentOperator,
+  Note,
+  Separator,
+  SeparatorKind,
+  DurationConstraint,
+  AutonumberSettings,
+  DEFAULT_AUTONUMBER,
   DEFAULT_COLORS,
+  DIAGRAM_BOUNDARY_ID,
+  BOUNDARY_DOT_RADIUS,
+  CANVAS_PADDING,
   LIFELINE_HEADER_WIDTH,
   LIFELINE_HEADER_HEIGHT,
   LIFELINE_SPACING,
@@ -14,11 +29,72 @@ import {
   MESSAGE_SPACING,
 } from '@/types/diagram';
 import LifelineHeader from './LifelineHeader';
-import MessageArrow from './MessageArrow';
+import MessageArrow, { MessageEnd } from './MessageArrow';
 import ActivationBar from './ActivationBar';
 import SequenceToolbar from './SequenceToolbar';
-import { serializeToBuml, buildDiagramFromBuml } from '@/lib/BumlBuilder';
-import { ExportFactory } from '@/lib/ExportFactory';
+import CombinedFragment, { FragmentEdge } from './CombinedFragment';
+import NoteBox from './NoteBox';
+import DestroyMarker from './DestroyMarker';
+import SeparatorRow from './SeparatorRow';
+import LifelineGroupBox, { GroupEdge } from './LifelineGroupBox';
+import InteractionRefFrame, { RefEdge } from './InteractionRefFrame';
+import ReferencePreview, { getReferencePreviewHeight } from './ReferencePreview';
+import MessageInspector from './MessageInspector';
+import DurationMark, { DurationEdge } from './DurationMark';
+import {
+  serializeToBuml,
+  buildDiagramFromBumlFiles,
+  buildDiagramFromPlantUml,
+  buildDiagramFromMermaid,
+  BumlDiagram,
+  BumlSourceFile,
+} from '@/lib/BumlBuilder';
+import { ExportFactory, ExportFormat, ExportOptions } from '@/lib/ExportFactory';
+import { formatImportWarnings, formatExportWarnings } from '@/lib/TextFormats';
+import { readSvgBumlSource } from '@/lib/SvgDocument';
+import { layoutFragments, getFragmentLifelineRange, getFragmentOrderRange } from '@/lib/FragmentLayout';
+import { layoutNotes } from '@/lib/NoteLayout';
+import { computeMessageNumbers } from '@/lib/MessageNumbering';
+import { findReply, getPairedMessageIds, removeInvalidReplies } from '@/lib/MessagePairing';
+import {
+  InsertPlacement,
+  InsertPosition,
+  OrderMap,
+  getInsertedOrder,
+  getInsertOrderMap,
+  getMoveOrderMap,
+  remapActivations,
+  remapDurations,
+  remapFragments,
+  remapLifelines,
+  remapMessages,
+  remapNotes,
+  remapSeparators,
+} from '@/lib/MessageOrder';
+import { getMessageY, getNearestMessageOrder, getSeparatorY, getRowCount } from '@/lib/RowLayout';
+import { layoutGroups, getGroupLifelineRange } from '@/lib/GroupLayout';
+import { layoutRefs, getRefLifelineRange } from '@/lib/RefLayout';
+import { layoutDurations } from '@/lib/DurationLayout';
+import { inferActivatedBlocks, applyBlockOverrides } from '@/lib/ActivationInference';
+import {
+  ActivationBlock,
+  getActivationBlocks,
+  getBlockKey,
+  removeMessageFromBlocks,
+  removeStaleBlocks,
+  removeUnspannedBlocks,
+} from '@/lib/ActivationBlocks';
+import { ActivationSpan, computeNestingLevels, getAttachmentLevel, getStackLevel } from '@/lib/ActivationLayout';
+import {
+  getCreationMessage,
+  getLifelineHeaderY,
+  getLifelineLineBounds,
+  getDestroyMarkerY,
+  getBoundaryX,
+  getEndpointAtX,
+  getLifelineSlotX,
+  getNearestLifelineSlot,
+} from '@/lib/LifelineLayout';
 
 let idCounter = 0;
 
@@ -39,33 +115,297 @@ function isActivationBlockData(data: unknown): data is ActivationBlockData {
 }
 
 const INITIAL_LIFELINES: Lifeline[] = [
-  { id: generateId('lifeline'), name: 'Front', color: DEFAULT_COLORS[0], order: 0 },
-  { id: generateId('lifeline'), name: 'Back', color: DEFAULT_COLORS[1], order: 1 },
-  { id: generateId('lifeline'), name: 'AI', color: DEFAULT_COLORS[4], order: 2 },
+  { id: generateId('lifeline'), name: 'Front', color: DEFAULT_COLORS[0], order: 0, kind: 'participant' },
+  { id: generateId('lifeline'), name: 'Back', color: DEFAULT_COLORS[1], order: 1, kind: 'participant' },
+  { id: generateId('lifeline'), name: 'AI', color: DEFAULT_COLORS[4], order: 2, kind: 'participant' },
 ];
 
-// Represents a block between two consecutive messages on a lifeline
-interface ActivationBlock {
-  lifelineId: string;
-  startMessageOrder: number;
-  endMessageOrder: number;
+// Default label for newly drawn messages of each type
+const DEFAULT_MESSAGE_LABELS: Record<MessageType, string> = {
+  sync: 'request()',
+  async: 'publish()',
+  return: 'response',
+  create: 'new()',
+};
+
+// Human-readable name of each message type for the add-message hint
+const MESSAGE_TYPE_NAMES: Record<MessageType, string> = {
+  sync: 'sync request',
+  async: 'async message',
+  return: 'return',
+  create: 'create message',
+};
+
+// A bar drawn on a lifeline: either a toggleable block or an explicit activation
+type ActivationBarItem =
+  | { kind: 'block'; key: string; block: ActivationBlock; data?: ActivationBlockData; level: number }
+  | { kind: 'activation'; key: string; activation: Activation; level: number };
+
+// A message end being dragged to another lifeline, or a new message being dragged out of a lifeline's line
+type ArrowDrag =
+  | { kind: 'rewire'; messageId: string; end: MessageEnd; x: number; y: number }
+  | { kind: 'create'; fromLifelineId: string; startX: number; startY: number; x: number; y: number };
+
+// Pointer travel below which dragging out of a lifeline counts as a click
+const MIN_ARROW_DRAG_DISTANCE = 12;
+
+// Explain why a message end cannot be connected to an endpoint, if it cannot
+function getRewireError(message: Message, end: MessageEnd, endpointId: string): string | undefined {
+  const fromId = end === 'from' ? endpointId : message.fromLifelineId;
+  const toId = end === 'to' ? endpointId : message.toLifelineId;
+  if (fromId === DIAGRAM_BOUNDARY_ID && toId === DIAGRAM_BOUNDARY_ID) {
+    return 'A message cannot both start and end at the diagram edge';
+  }
+  if (message.type === 'create' && (fromId === toId || toId === DIAGRAM_BOUNDARY_ID)) {
+    return 'A create message must point at another actor';
+  }
+  return undefined;
+}
+
+// Connect one end of a message to another endpoint; the return answering a rewired call follows it
+function rewireMessage(messages: Message[], id: string, end: MessageEnd, endpointId: string): Message[] {
+  const message = messages.find((m) => m.id === id);
+  if (!message) return messages;
+  const rewired = end === 'from' ? { ...message, fromLifelineId: endpointId } : { ...message, toLifelineId: endpointId };
+  return removeInvalidReplies(
+    messages.map((m) => {
+      if (m.id === id) return rewired;
+      if (m.replyTo === id) return { ...m, fromLifelineId: rewired.toLifelineId, toLifelineId: rewired.fromLifelineId };
+      return m;
+    })
+  );
+}
+
+// Shift an inclusive message-order range after the message at the given order was deleted
+function removeOrderFromRange(start: number, end: number, order: number): { start: number; end: number } {
+  const newStart = start > order ? start - 1 : start;
+  const newEnd = end >= order ? end - 1 : end;
+  return { start: newStart, end: Math.max(newStart, newEnd) };
+}
+
+// Shift explicit activations after the message at the given order was deleted
+function removeOrderFromActivations(activations: Activation[], order: number): Activation[] {
+  return activations.map((a) => {
+    const { start, end } = removeOrderFromRange(a.startMessageOrder, a.endMessageOrder, order);
+    return { ...a, startMessageOrder: start, endMessageOrder: end };
+  });
+}
+
+// Shift duration constraints after the message at the given order was deleted,
+// dropping those that no longer span two messages
+function removeOrderFromDurations(durations: DurationConstraint[], order: number): DurationConstraint[] {
+  return durations.flatMap((d) => {
+    const { start, end } = removeOrderFromRange(d.startMessageOrder, d.endMessageOrder, order);
+    return start < end ? [{ ...d, startMessageOrder: start, endMessageOrder: end }] : [];
+  });
+}
+
+// Move destroy markers below a deleted message up a row
+function removeOrderFromLifelines(lifelines: Lifeline[], order: number): Lifeline[] {
+  return lifelines.map((l) =>
+    l.destroyOrder !== undefined && l.destroyOrder > order ? { ...l, destroyOrder: l.destroyOrder - 1 } : l
+  );
+}
+
+// Move a lifeline one step left or right. Crossing a group edge swaps whole blocks
+// (all members of a group, or a single ungrouped lifeline) so groups stay contiguous.
+function moveLifeline(lifelines: Lifeline[], groups: LifelineGroup[], id: string, delta: -1 | 1): Lifeline[] {
+  const sorted = [...lifelines].sort((a, b) => a.order - b.order);
+  const index = sorted.findIndex((l) => l.id === id);
+  const neighborIndex = index + delta;
+  if (index === -1 || neighborIndex < 0 || neighborIndex >= sorted.length) return lifelines;
+
+  const groupOf = (lifelineId: string) => groups.find((g) => g.lifelineIds.includes(lifelineId));
+  const ownGroup = groupOf(id);
+  const neighborGroup = groupOf(sorted[neighborIndex].id);
+  const getBlock = (i: number, group: LifelineGroup | undefined): { start: number; end: number } => {
+    const range = group && ownGroup !== neighborGroup ? getGroupLifelineRange(group, sorted) : null;
+    return range ? { start: range.left, end: range.right } : { start: i, end: i };
+  };
+
+  const own = getBlock(index, ownGroup);
+  const neighbor = getBlock(neighborIndex, neighborGroup);
+  const [first, second] = delta < 0 ? [neighbor, own] : [own, neighbor];
+  const reordered = [
+    ...sorted.slice(0, first.start),
+    ...sorted.slice(second.start, second.end + 1),
+    ...sorted.slice(first.start, first.end + 1),
+    ...sorted.slice(second.end + 1),
+  ];
+  const newOrders = new Map(reordered.map((l, i) => [l.id, i]));
+  return lifelines.map((l) => ({ ...l, order: newOrders.get(l.id) ?? l.order }));
+}
+
+// Work out where a lifeline dropped into a slot (the gap in front of the lifeline with that order)
+// lands. Inside its own group it moves alone; dropped outside, its whole group moves with it, and a
+// drop inside another group snaps to that group's nearer edge so groups stay contiguous.
+// Returns null when the drop leaves every lifeline where it is.
+function getLifelineDrop(
+  lifelines: Lifeline[],
+  groups: LifelineGroup[],
+  id: string,
+  slot: number
+): { start: number; end: number; slot: number } | null {
+  const sorted = [...lifelines].sort((a, b) => a.order - b.order);
+  const index = sorted.findIndex((l) => l.id === id);
+  if (index === -1) return null;
+
+  const ownGroup = groups.find((g) => g.lifelineIds.includes(id));
+  const ownRange = ownGroup ? getGroupLifelineRange(ownGroup, sorted) : null;
+  const staysInGroup = ownRange !== null && slot >= ownRange.left && slot <= ownRange.right + 1;
+  const block = ownRange && !staysInGroup ? { start: ownRange.left, end: ownRange.right } : { start: index, end: index };
+
+  let target = slot;
+  if (!staysInGroup) {
+    for (const group of groups) {
+      const range = group === ownGroup ? null : getGroupLifelineRange(group, sorted);
+      if (range && slot > range.left && slot <= range.right) {
+        target = slot - range.left <= range.right + 1 - slot ? range.left : range.right + 1;
+      }
+    }
+  }
+  if (target >= block.start && target <= block.end + 1) return null;
+  return { ...block, slot: target };
+}
+
+// Move a lifeline (or its whole group) into a slot, renumbering every lifeline at once
+function moveLifelineToSlot(lifelines: Lifeline[], groups: LifelineGroup[], id: string, slot: number): Lifeline[] {
+  const drop = getLifelineDrop(lifelines, groups, id, slot);
+  if (!drop) return lifelines;
+  const sorted = [...lifelines].sort((a, b) => a.order - b.order);
+  const moving = sorted.slice(drop.start, drop.end + 1);
+  const rest = [...sorted.slice(0, drop.start), ...sorted.slice(drop.end + 1)];
+  const insertAt = drop.slot < drop.start ? drop.slot : drop.slot - moving.length;
+  const reordered = [...rest.slice(0, insertAt), ...moving, ...rest.slice(insertAt)];
+  const newOrders = new Map(reordered.map((l, i) => [l.id, i]));
+  return lifelines.map((l) => ({ ...l, order: newOrders.get(l.id) ?? l.order }));
+}
+
+// Drop a deleted lifeline from groups, removing groups left without members
+function removeLifelineFromGroups(groups: LifelineGroup[], id: string): LifelineGroup[] {
+  return groups
+    .map((g) => ({ ...g, lifelineIds: g.lifelineIds.filter((lifelineId) => lifelineId !== id) }))
+    .filter((g) => g.lifelineIds.length > 0);
+}
+
+// Move dividers and delays below a deleted message up a row
+function removeOrderFromSeparators(separators: Separator[], order: number): Separator[] {
+  return separators.map((s) => (s.beforeMessageOrder > order ? { ...s, beforeMessageOrder: s.beforeMessageOrder - 1 } : s));
+}
+
+// Remove a fragment, re-attaching its nested fragments to its own parent
+function removeFragment(fragments: Fragment[], id: string): Fragment[] {
+  const removed = fragments.find((f) => f.id === id);
+  return fragments
+    .filter((f) => f.id !== id)
+    .map((f) => (f.parentId === id ? { ...f, parentId: removed?.parentId } : f));
+}
+
+// Shift fragment operand ranges after the message at the given order was deleted
+function removeOrderFromFragments(fragments: Fragment[], order: number): Fragment[] {
+  return fragments.map((f) => ({
+    ...f,
+    operands: f.operands.map((operand) => {
+      const { start, end } = removeOrderFromRange(operand.startMessageOrder, operand.endMessageOrder, order);
+      return { ...operand, startMessageOrder: start, endMessageOrder: end };
+    }),
+  }));
+}
+
+// Shrink fragments whose edge lifeline was deleted; drop those left without any lifeline
+function removeLifelineFromFragments(fragments: Fragment[], lifelines: Lifeline[], id: string): Fragment[] {
+  const remaining = lifelines.filter((l) => l.id !== id).sort((a, b) => a.order - b.order);
+  let result = fragments;
+  for (const fragment of fragments) {
+    if (fragment.startLifelineId !== id && fragment.endLifelineId !== id) continue;
+    const range = getFragmentLifelineRange(fragment, lifelines);
+    const covered = range ? remaining.filter((l) => l.order >= range.left && l.order <= range.right) : [];
+    if (covered.length === 0) {
+      result = removeFragment(result, fragment.id);
+    } else {
+      result = result.map((f) =>
+        f.id === fragment.id
+          ? { ...f, startLifelineId: covered[0].id, endLifelineId: covered[covered.length - 1].id }
+          : f
+      );
+    }
+  }
+  return result;
+}
+
+// Shrink refs whose edge lifeline is deleted, removing refs left without lifelines
+function removeLifelineFromRefs(separators: Separator[], lifelines: Lifeline[], id: string): Separator[] {
+  const remaining = lifelines.filter((l) => l.id !== id).sort((a, b) => a.order - b.order);
+  return separators.flatMap((separator) => {
+    if (separator.kind !== 'ref' || (separator.startLifelineId !== id && separator.endLifelineId !== id)) {
+      return [separator];
+    }
+    const range = getRefLifelineRange(separator, lifelines);
+    const covered = range ? remaining.filter((l) => l.order >= range.left && l.order <= range.right) : [];
+    if (covered.length === 0) return [];
+    return [{ ...separator, startLifelineId: covered[0].id, endLifelineId: covered[covered.length - 1].id }];
+  });
+}
+
+// Drop a deleted lifeline from notes. Notes attached to messages that touched it,
+// and detached notes left without any lifeline, are removed too.
+function removeLifelineFromNotes(notes: Note[], messages: Message[], id: string): Note[] {
+  const removedMessageIds = new Set(
+    messages.filter((m) => m.fromLifelineId === id || m.toLifelineId === id).map((m) => m.id)
+  );
+  return notes
+    .filter((n) => !(n.messageId && removedMessageIds.has(n.messageId)))
+    .map((n) => ({ ...n, lifelineIds: n.lifelineIds.filter((lifelineId) => lifelineId !== id) }))
+    .filter((n) => n.messageId || n.lifelineIds.length > 0);
 }
 
-// Generate a unique key for an activation block
-function getBlockKey(block: ActivationBlock): string {
-  return `${block.lifelineId}-${block.startMessageOrder}-${block.endMessageOrder}`;
+// Remove notes attached to a deleted message and shift detached notes below it up a row
+function removeMessageFromNotes(notes: Note[], message: Message): Note[] {
+  return notes
+    .filter((n) => n.messageId !== message.id)
+    .map((n) => (n.messageOrder > message.order ? { ...n, messageOrder: n.messageOrder - 1 } : n));
 }
 
 export default function SequenceDiagramCanvas() {
   const [lifelines, setLifelines] = useState<Lifeline[]>(INITIAL_LIFELINES);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [fragments, setFragments] = useState<Fragment[]>([]);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [separators, setSeparators] = useState<Separator[]>([]);
+  const [groups, setGroups] = useState<LifelineGroup[]>([]);
+  const [durations, setDurations] = useState<DurationConstraint[]>([]);
+  // Diagrams loaded alongside this one, keyed by the ref target that names them
+  const [referencedDiagrams, setReferencedDiagrams] = useState<Record<string, BumlDiagram>>({});
+  // Diagrams a ref was opened from, innermost last, with the ref target that was opened
+  const [parentDiagrams, setParentDiagrams] = useState<{ diagram: BumlDiagram; target: string }[]>([]);
+  const [expandedRefIds, setExpandedRefIds] = useState<Set<string>>(new Set());
+  const [autonumber, setAutonumber] = useState<AutonumberSettings>(DEFAULT_AUTONUMBER);
+  const [autoActivate, setAutoActivate] = useState(false);
+  // Explicit activations spanning any range of messages (drawn in addition to toggled blocks)
+  const [activations, setActivations] = useState<Activation[]>([]);
   // Track which blocks are activated using a Map of block keys to block data (includes text)
   const [activatedBlocks, setActivatedBlocks] = useState<Map<string, ActivationBlockData>>(new Map());
   const [selectedLifelineId, setSelectedLifelineId] = useState<string | null>(null);
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
+  const [selectedFragmentId, setSelectedFragmentId] = useState<string | null>(null);
+  const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+  const [selectedDurationId, setSelectedDurationId] = useState<string | null>(null);
+  const [selectedActivationId, setSelectedActivationId] = useState<string | null>(null);
+  const [selectedSeparatorId, setSelectedSeparatorId] = useState<string | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [hoveredMessageId, setHoveredMessageId] = useState<string | null>(null);
   const [isAddMessageMode, setIsAddMessageMode] = useState(false);
   const [messageFromLifeline, setMessageFromLifeline] = useState<string | null>(null);
-  const [messageType, setMessageType] = useState<'sync' | 'return'>('sync');
+  const [messageType, setMessageType] = useState<MessageType>('sync');
+  // Where the next drawn message goes when inserting next to an existing one (appended otherwise)
+  const [pendingInsert, setPendingInsert] = useState<InsertPosition | null>(null);
+  // Lifeline header being dragged to another column
+  const [lifelineDrag, setLifelineDrag] = useState<{ id: string; startClientX: number; deltaX: number } | null>(null);
+  // Message arrow being dragged to another row
+  const [messageDrag, setMessageDrag] = useState<{ id: string; startClientY: number; deltaY: number } | null>(null);
+  // Message end being dropped on another lifeline, or a new message dragged out of a lifeline
+  const [arrowDrag, setArrowDrag] = useState<ArrowDrag | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
   
   // File input ref for loading .buml files
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -82,6 +422,18 @@ export default function SequenceDiagramCanvas() {
     setTimeout(() => setNotification(null), 4000);
   }, []);
 
+  // Deselect every element
+  const clearSelection = useCallback(() => {
+    setSelectedLifelineId(null);
+    setSelectedMessageId(null);
+    setSelectedFragmentId(null);
+    setSelectedNoteId(null);
+    setSelectedActivationId(null);
+    setSelectedSeparatorId(null);
+    setSelectedGroupId(null);
+    setSelectedDurationId(null);
+  }, []);
+
   // Calculate lifeline X position
   const getLifelineX = useCallback((lifeline: Lifeline) => {
     return LIFELINE_START_X + lifeline.order * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH / 2;
@@ -94,46 +446,72 @@ export default function SequenceDiagramCanvas() {
   );
   const canvasHeight = Math.max(
     600,
-    LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT + 50 + (messages.length + 1) * MESSAGE_SPACING + 100
+    LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT + 50 + (getRowCount(messages.length, separators) + 1) * MESSAGE_SPACING + 100
   );
 
   // Add new lifeline
-  const handleAddLifeline = useCallback((color: string) => {
+  const handleAddLifeline = useCallback((color: string, kind: LifelineKind) => {
     const newLifeline: Lifeline = {
       id: generateId('lifeline'),
       name: 'Actor',
       color,
       order: lifelines.length,
+      kind,
     };
     setLifelines((prev) => [...prev, newLifeline]);
   }, [lifelines.length]);
 
+  // Move everything bound to message orders along when messages are renumbered
+  const applyOrderMap = useCallback((map: OrderMap) => {
+    setFragments((prev) => remapFragments(prev, map));
+    setNotes((prev) => remapNotes(prev, map));
+    setActivations((prev) => remapActivations(prev, map));
+    setLifelines((prev) => remapLifelines(prev, map));
+    setSeparators((prev) => remapSeparators(prev, map));
+    setDurations((prev) => remapDurations(prev, map));
+  }, []);
+
+  // Add a new message at the end, or inserted next to an existing one
+  const addMessage = useCallback((message: Message, insert: InsertPosition | null) => {
+    if (!insert) {
+      setMessages((prev) => [...prev, { ...message, order: prev.length }]);
+      return;
+    }
+    // Make room next to the existing message, moving everything below it down a row
+    const map = getInsertOrderMap(insert);
+    applyOrderMap(map);
+    setMessages((prev) => [...remapMessages(prev, map), { ...message, order: getInsertedOrder(insert) }]);
+  }, [applyOrderMap]);
+
   // Select lifeline
   const handleSelectLifeline = useCallback(
     (id: string) => {
       if (isAddMessageMode) {
         if (!messageFromLifeline) {
           setMessageFromLifeline(id);
-        } else if (messageFromLifeline !== id) {
-          // Create message
+        } else if (messageType === 'create' && (messageFromLifeline === id || id === DIAGRAM_BOUNDARY_ID)) {
+          showNotification('A create message must point at another actor', 'error');
+        } else {
+          // Create message (clicking the source again creates a self-message)
           const newMessage: Message = {
             id: generateId('message'),
             fromLifelineId: messageFromLifeline,
             toLifelineId: id,
-            label: messageType === 'sync' ? 'request()' : 'response',
+            label: DEFAULT_MESSAGE_LABELS[messageType],
             type: messageType,
             order: messages.length,
           };
-          setMessages((prev) => [...prev, newMessage]);
+          addMessage(newMessage, pendingInsert);
           setMessageFromLifeline(null);
           setIsAddMessageMode(false);
+          setPendingInsert(null);
         }
       } else {
+        clearSelection();
         setSelectedLifelineId(id);
-        setSelectedMessageId(null);
       }
     },
-    [isAddMessageMode, messageFromLifeline, messageType, messages.length]
+    [isAddMessageMode, messageFromLifeline, messageType, messages.length, pendingInsert, addMessage, showNotification, clearSelection]
   );
 
   // Update lifeline
@@ -143,121 +521,355 @@ export default function SequenceDiagramCanvas() {
 
   // Delete lifeline
   const handleDeleteLifeline = useCallback((id: string) => {
+    setFragments((prev) => removeLifelineFromFragments(prev, lifelines, id));
+    setNotes((prev) => removeLifelineFromNotes(prev, messages, id));
+    setActivations((prev) => prev.filter((a) => a.lifelineId !== id));
+    setGroups((prev) => removeLifelineFromGroups(prev, id));
+    setSeparators((prev) => removeLifelineFromRefs(prev, lifelines, id));
     setLifelines((prev) => {
       const filtered = prev.filter((l) => l.id !== id);
       // Reorder remaining lifelines
       return filtered.map((l, i) => ({ ...l, order: i }));
     });
-    setMessages((prev) =>
-      prev.filter((m) => m.fromLifelineId !== id && m.toLifelineId !== id)
+    const remainingMessages = messages.filter((m) => m.fromLifelineId !== id && m.toLifelineId !== id);
+    setMessages(removeInvalidReplies(remainingMessages));
+    // Clean up activated blocks on the deleted lifeline and around its messages
+    setActivatedBlocks((prev) =>
+      removeStaleBlocks(prev, lifelines.filter((l) => l.id !== id), remainingMessages)
     );
-    // Clean up activated blocks for deleted lifeline using filter
-    setActivatedBlocks((prev) => {
-      const prefix = id + '-';
-      const newMap = new Map<string, ActivationBlockData>();
-      prev.forEach((value, key) => {
-        if (!key.startsWith(prefix)) {
-          newMap.set(key, value);
-        }
-      });
-      return newMap;
-    });
     setSelectedLifelineId(null);
-  }, []);
+  }, [lifelines, messages]);
 
   // Move lifeline left
   const handleMoveLifelineLeft = useCallback((id: string) => {
-    setLifelines((prev) => {
-      const lifeline = prev.find((l) => l.id === id);
-      if (!lifeline || lifeline.order === 0) return prev;
-      
-      return prev.map((l) => {
-        if (l.id === id) {
-          return { ...l, order: l.order - 1 };
-        }
-        if (l.order === lifeline.order - 1) {
-          return { ...l, order: l.order + 1 };
-        }
-        return l;
-      });
-    });
-  }, []);
+    setLifelines((prev) => moveLifeline(prev, groups, id, -1));
+  }, [groups]);
 
   // Move lifeline right
   const handleMoveLifelineRight = useCallback((id: string) => {
-    setLifelines((prev) => {
-      const lifeline = prev.find((l) => l.id === id);
-      if (!lifeline || lifeline.order === prev.length - 1) return prev;
-      
-      return prev.map((l) => {
-        if (l.id === id) {
-          return { ...l, order: l.order + 1 };
-        }
-        if (l.order === lifeline.order + 1) {
-          return { ...l, order: l.order - 1 };
-        }
-        return l;
-      });
-    });
+    setLifelines((prev) => moveLifeline(prev, groups, id, 1));
+  }, [groups]);
+
+  // Start dragging a lifeline header sideways
+  const handleLifelineDragStart = useCallback((id: string, clientX: number) => {
+    setLifelineDrag({ id, startClientX: clientX, deltaX: 0 });
+  }, []);
+
+  // Slot a dragged lifeline would be dropped into, snapped so groups stay together
+  const draggedLifeline = lifelines.find((l) => l.id === lifelineDrag?.id);
+  const lifelineDrop =
+    lifelineDrag && draggedLifeline
+      ? getLifelineDrop(
+          lifelines,
+          groups,
+          draggedLifeline.id,
+          getNearestLifelineSlot(getLifelineX(draggedLifeline) + lifelineDrag.deltaX, lifelines.length)
+        )
+      : null;
+
+  // Follow the pointer while a lifeline is dragged and move it on release
+  useEffect(() => {
+    if (!lifelineDrag) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      setLifelineDrag((prev) => (prev ? { ...prev, deltaX: e.clientX - prev.startClientX } : prev));
+    };
+    const handleMouseUp = () => {
+      if (lifelineDrop) {
+        setLifelines((prev) => moveLifelineToSlot(prev, groups, lifelineDrag.id, lifelineDrop.slot));
+      }
+      setLifelineDrag(null);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [lifelineDrag, lifelineDrop, groups]);
+
+  // Group the selected lifeline into a new box
+  const handleAddGroup = useCallback(() => {
+    const lifeline = lifelines.find((l) => l.id === selectedLifelineId);
+    if (!lifeline) {
+      showNotification('Select an actor to start a group', 'error');
+      return;
+    }
+    if (groups.some((g) => g.lifelineIds.includes(lifeline.id))) {
+      showNotification(`"${lifeline.name}" already belongs to a group`, 'error');
+      return;
+    }
+
+    const newGroup: LifelineGroup = {
+      id: generateId('group'),
+      title: 'Group',
+      color: DEFAULT_COLORS[groups.length % DEFAULT_COLORS.length],
+      lifelineIds: [lifeline.id],
+    };
+    setGroups((prev) => [...prev, newGroup]);
+    clearSelection();
+    setSelectedGroupId(newGroup.id);
+  }, [lifelines, groups, selectedLifelineId, showNotification, clearSelection]);
+
+  // Select group
+  const handleSelectGroup = useCallback((id: string) => {
+    clearSelection();
+    setSelectedGroupId(id);
+  }, [clearSelection]);
+
+  // Update group
+  const handleUpdateGroup = useCallback((updated: LifelineGroup) => {
+    setGroups((prev) => prev.map((g) => (g.id === updated.id ? updated : g)));
+  }, []);
+
+  // Delete group (its lifelines stay)
+  const handleDeleteGroup = useCallback((id: string) => {
+    setGroups((prev) => prev.filter((g) => g.id !== id));
+    setSelectedGroupId(null);
   }, []);
 
+  // Take in the ungrouped lifeline beyond an edge, or release the outermost member at that edge
+  const handleResizeGroup = useCallback((id: string, edge: GroupEdge, delta: number) => {
+    const sortedLifelines = [...lifelines].sort((a, b) => a.order - b.order);
+    setGroups((prev) =>
+      prev.map((g) => {
+        if (g.id !== id) return g;
+        const range = getGroupLifelineRange(g, lifelines);
+        if (!range) return g;
+        const growing = (edge === 'left' && delta < 0) || (edge === 'right' && delta > 0);
+        if (growing) {
+          const next = sortedLifelines[edge === 'left' ? range.left - 1 : range.right + 1];
+          const isFree = next && !prev.some((other) => other.lifelineIds.includes(next.id));
+          return isFree ? { ...g, lifelineIds: [...g.lifelineIds, next.id] } : g;
+        }
+        if (range.left === range.right) return g;
+        const released = sortedLifelines[edge === 'left' ? range.left : range.right];
+        return { ...g, lifelineIds: g.lifelineIds.filter((lifelineId) => lifelineId !== released.id) };
+      })
+    );
+  }, [lifelines]);
+
+  // Add a destroy marker to the selected lifeline after its last message, or remove it
+  const handleToggleLifelineDestroy = useCallback(() => {
+    const lifeline = lifelines.find((l) => l.id === selectedLifelineId);
+    if (!lifeline) {
+      showNotification('Select an actor to destroy it', 'error');
+      return;
+    }
+
+    let destroyOrder: number | undefined;
+    if (lifeline.destroyOrder === undefined) {
+      const touchingOrders = messages
+        .filter((m) => m.fromLifelineId === lifeline.id || m.toLifelineId === lifeline.id)
+        .map((m) => m.order);
+      destroyOrder = touchingOrders.length > 0 ? Math.max(...touchingOrders) : messages.length;
+    }
+    setLifelines((prev) => prev.map((l) => (l.id === lifeline.id ? { ...l, destroyOrder } : l)));
+  }, [lifelines, messages, selectedLifelineId, showNotification]);
+
+  // Move a lifeline's destroy marker up or down by one row
+  const handleMoveDestroyMarker = useCallback((id: string, delta: number) => {
+    setLifelines((prev) =>
+      prev.map((l) =>
+        l.id === id && l.destroyOrder !== undefined
+          ? { ...l, destroyOrder: Math.min(Math.max(l.destroyOrder + delta, 0), messages.length) }
+          : l
+      )
+    );
+  }, [messages.length]);
+
   // Select message
   const handleSelectMessage = useCallback((id: string) => {
+    clearSelection();
     setSelectedMessageId(id);
-    setSelectedLifelineId(null);
-  }, []);
+  }, [clearSelection]);
 
   // Update message
   const handleUpdateMessage = useCallback((updated: Message) => {
     setMessages((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
   }, []);
 
+  // Start drawing a message that is inserted above or below the given one
+  const handleStartInsertMessage = useCallback((id: string, placement: InsertPlacement) => {
+    const message = messages.find((m) => m.id === id);
+    if (!message) return;
+    setPendingInsert({ order: message.order, placement });
+    setIsAddMessageMode(true);
+    setMessageFromLifeline(null);
+    clearSelection();
+  }, [messages, clearSelection]);
+
+  // Move a message to another row, renumbering the ones in between
+  const handleMoveMessage = useCallback((id: string, order: number) => {
+    const message = messages.find((m) => m.id === id);
+    if (!message || message.order === order) return;
+    const map = getMoveOrderMap(message.order, order, messages.length);
+    applyOrderMap(map);
+    const movedMessages = remapMessages(messages, map);
+    // A return moved above its call no longer answers it
+    setMessages(removeInvalidReplies(movedMessages));
+    // Blocks that ran to or from the moved message no longer join consecutive messages
+    setActivatedBlocks((prev) => removeUnspannedBlocks(prev, getActivationBlocks(lifelines, movedMessages)));
+  }, [lifelines, messages, applyOrderMap]);
+
+  // Start dragging a message arrow vertically
+  const handleMessageDragStart = useCallback((id: string, clientY: number) => {
+    setMessageDrag({ id, startClientY: clientY, deltaY: 0 });
+  }, []);
+
+  // Row a dragged message would be dropped at
+  const draggedMessage = messages.find((m) => m.id === messageDrag?.id);
+  const messageDropOrder =
+    messageDrag && draggedMessage
+      ? getNearestMessageOrder(getMessageY(draggedMessage.order, separators) + messageDrag.deltaY, messages.length, separators)
+      : null;
+
+  // Follow the pointer while a message is dragged and move it on release
+  useEffect(() => {
+    if (!messageDrag) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      setMessageDrag((prev) => (prev ? { ...prev, deltaY: e.clientY - prev.startClientY } : prev));
+    };
+    const handleMouseUp = () => {
+      if (messageDropOrder !== null) {
+        handleMoveMessage(messageDrag.id, messageDropOrder);
+      }
+      setMessageDrag(null);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [messageDrag, messageDropOrder, handleMoveMessage]);
+
+  // Convert a pointer position to SVG coordinates
+  const toSvgPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
+  }, []);
+
+  // Start dragging one end of a message to another lifeline
+  const handleMessageEndDragStart = useCallback((id: string, end: MessageEnd, clientX: number, clientY: number) => {
+    setArrowDrag({ kind: 'rewire', messageId: id, end, ...toSvgPoint(clientX, clientY) });
+  }, [toSvgPoint]);
+
+  // Start dragging a new message out of a lifeline's dashed line
+  const handleLifelineLineMouseDown = useCallback((lifelineId: string, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const { x, y } = toSvgPoint(e.clientX, e.clientY);
+    setArrowDrag({ kind: 'create', fromLifelineId: lifelineId, startX: x, startY: y, x, y });
+  }, [toSvgPoint]);
+
+  // Finish an arrow drag: reconnect the dragged end, or add the new message at the row the drag started in
+  const handleArrowDrop = useCallback((drag: ArrowDrag) => {
+    if (drag.kind === 'rewire') {
+      const message = messages.find((m) => m.id === drag.messageId);
+      const endpointId = getEndpointAtX(drag.x, lifelines, drag.end === 'from' ? 'left' : 'right');
+      const currentId = drag.end === 'from' ? message?.fromLifelineId : message?.toLifelineId;
+      if (!message || !endpointId || endpointId === currentId) return;
+      const error = getRewireError(message, drag.end, endpointId);
+      if (error) {
+        showNotification(error, 'error');
+        return;
+      }
+      setMessages((prev) => rewireMessage(prev, message.id, drag.end, endpointId));
+      return;
+    }
+
+    // A short drag is only a click on the lifeline
+    if (Math.hypot(drag.x - drag.startX, drag.y - drag.startY) < MIN_ARROW_DRAG_DISTANCE) return;
+    const toLifelineId = getEndpointAtX(drag.x, lifelines, 'right');
+    if (!toLifelineId || toLifelineId === drag.fromLifelineId) return;
+    if (messageType === 'create' && toLifelineId === DIAGRAM_BOUNDARY_ID) {
+      showNotification('A create message must point at another actor', 'error');
+      return;
+    }
+    const order = messages.filter((m) => getMessageY(m.order, separators) < drag.startY).length;
+    const newMessage: Message = {
+      id: generateId('message'),
+      fromLifelineId: drag.fromLifelineId,
+      toLifelineId,
+      label: DEFAULT_MESSAGE_LABELS[messageType],
+      type: messageType,
+      order,
+    };
+    addMessage(newMessage, order < messages.length ? { order, placement: 'above' } : null);
+  }, [messages, lifelines, separators, messageType, addMessage, showNotification]);
+
+  // Follow the pointer while an arrow is dragged and apply the drop on release
+  useEffect(() => {
+    if (!arrowDrag) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const { x, y } = toSvgPoint(e.clientX, e.clientY);
+      setArrowDrag((prev) => (prev ? { ...prev, x, y } : prev));
+    };
+    const handleMouseUp = () => {
+      handleArrowDrop(arrowDrag);
+      setArrowDrag(null);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [arrowDrag, toSvgPoint, handleArrowDrop]);
+
   // Delete message
   const handleDeleteMessage = useCallback((id: string) => {
+    const deleted = messages.find((m) => m.id === id);
+    if (deleted) {
+      setFragments((prev) => removeOrderFromFragments(prev, deleted.order));
+      setNotes((prev) => removeMessageFromNotes(prev, deleted));
+      setActivations((prev) => removeOrderFromActivations(prev, deleted.order));
+      setLifelines((prev) => removeOrderFromLifelines(prev, deleted.order));
+      setSeparators((prev) => removeOrderFromSeparators(prev, deleted.order));
+      setDurations((prev) => removeOrderFromDurations(prev, deleted.order));
+    }
     setMessages((prev) => {
       const filtered = prev.filter((m) => m.id !== id);
-      // Reorder remaining messages
-      return filtered.map((m, i) => ({ ...m, order: i }));
+      // Reorder remaining messages; replyTo links use ids, so only a reply to the deleted call is unpaired
+      return removeInvalidReplies(filtered.map((m, i) => ({ ...m, order: i })));
     });
-    // Clean up activated blocks when message count changes
-    // All block keys will be recalculated based on new message orders
-    setActivatedBlocks(new Map());
+    // Blocks are keyed by message ids, so only the ones next to the deleted message change
+    setActivatedBlocks((prev) => removeMessageFromBlocks(prev, getActivationBlocks(lifelines, messages), id));
     setSelectedMessageId(null);
-  }, []);
+  }, [lifelines, messages]);
 
   // Compute all possible activation blocks for each lifeline
   // A block exists between any two consecutive messages that touch a lifeline
-  const availableBlocks = useMemo((): ActivationBlock[] => {
-    const blocks: ActivationBlock[] = [];
-    
-    // For each lifeline, find messages that touch it
-    lifelines.forEach((lifeline) => {
-      // Get all messages that touch this lifeline (as source or destination)
-      const touchingMessages = messages
-        .filter((m) => m.fromLifelineId === lifeline.id || m.toLifelineId === lifeline.id)
-        .sort((a, b) => a.order - b.order);
-      
-      // Create a block between each pair of consecutive touching messages
-      for (let i = 0; i < touchingMessages.length - 1; i++) {
-        blocks.push({
-          lifelineId: lifeline.id,
-          startMessageOrder: touchingMessages[i].order,
-          endMessageOrder: touchingMessages[i + 1].order,
-        });
-      }
-    });
-    
-    return blocks;
-  }, [lifelines, messages]);
+  const availableBlocks = useMemo(() => getActivationBlocks(lifelines, messages), [lifelines, messages]);
+
+  // Blocks inferred from calls and returns while auto-activation is on
+  const inferredBlocks = useMemo(
+    () => (autoActivate ? inferActivatedBlocks(lifelines, messages) : new Map<string, ActivationBlockData>()),
+    [autoActivate, lifelines, messages]
+  );
+
+  // Blocks as drawn: with auto-activation on, activatedBlocks holds manual overrides of the inferred ones
+  const displayedBlocks = useMemo(
+    () => (autoActivate ? applyBlockOverrides(inferredBlocks, activatedBlocks) : activatedBlocks),
+    [autoActivate, inferredBlocks, activatedBlocks]
+  );
 
   // Toggle activation for a block
   const handleToggleBlock = useCallback((block: ActivationBlock) => {
     const key = getBlockKey(block);
+    const isInferred = inferredBlocks.has(key);
     setActivatedBlocks((prev) => {
       const newMap = new Map(prev);
       const existing = newMap.get(key);
-      if (existing?.isActive) {
-        // Deactivate the block (remove it)
+      if (existing?.isActive ?? isInferred) {
+        // Deactivate the block: remove a manual one, override an inferred one
+        if (isInferred) {
+          newMap.set(key, { isActive: false, text: existing?.text });
+        } else {
+          newMap.delete(key);
+        }
+      } else if (isInferred && !existing?.text) {
+        // Back to following the inference
         newMap.delete(key);
       } else {
         // Activate the block, preserving any existing text
@@ -265,42 +877,615 @@ export default function SequenceDiagramCanvas() {
       }
       return newMap;
     });
-  }, []);
+  }, [inferredBlocks]);
 
   // Update text for an activation block
   const handleUpdateBlockText = useCallback((key: string, text: string | undefined) => {
     setActivatedBlocks((prev) => {
       const newMap = new Map(prev);
-      const existing = newMap.get(key);
+      // Text on an inferred block is stored as an override
+      const existing = newMap.get(key) ?? displayedBlocks.get(key);
       if (existing) {
         newMap.set(key, { ...existing, text });
       }
       return newMap;
     });
+  }, [displayedBlocks]);
+
+  // Replace the activated blocks with the inferred ones, keeping the text of blocks that stay active
+  const handleApplyAutoActivation = useCallback(() => {
+    const inferred = inferActivatedBlocks(lifelines, messages);
+    if (inferred.size === 0) {
+      showNotification('No call is answered by a return yet', 'error');
+      return;
+    }
+    setActivatedBlocks((prev) => {
+      const newMap = new Map<string, ActivationBlockData>();
+      inferred.forEach((data, key) => newMap.set(key, { ...data, text: prev.get(key)?.text }));
+      return newMap;
+    });
+    setAutoActivate(false);
+    showNotification(`Activated ${inferred.size} blocks from calls and returns`, 'success');
+  }, [lifelines, messages, showNotification]);
+
+  // Every active bar on the diagram: activated blocks plus explicit activations
+  const activeSpans = useMemo((): ActivationSpan[] => {
+    const activeBlocks = availableBlocks.filter((block) => displayedBlocks.get(getBlockKey(block))?.isActive);
+    return [...activeBlocks, ...activations];
+  }, [availableBlocks, displayedBlocks, activations]);
+
+  const activeSpanLevels = useMemo(() => computeNestingLevels(activeSpans), [activeSpans]);
+
+  // Bars to draw, with inactive block outlines first and nested levels on top of their parents
+  const activationBars = useMemo((): ActivationBarItem[] => {
+    const inactive: ActivationBarItem[] = [];
+    const active: ActivationBarItem[] = [];
+    availableBlocks.forEach((block) => {
+      const key = getBlockKey(block);
+      const data = displayedBlocks.get(key);
+      const index = activeSpans.indexOf(block);
+      if (index === -1) {
+        inactive.push({ kind: 'block', key, block, data, level: getStackLevel(activeSpans, block.lifelineId, block.startMessageOrder) });
+      } else {
+        active.push({ kind: 'block', key, block, data, level: activeSpanLevels[index] });
+      }
+    });
+    activations.forEach((activation) => {
+      active.push({ kind: 'activation', key: activation.id, activation, level: activeSpanLevels[activeSpans.indexOf(activation)] });
+    });
+    return [...inactive, ...active.sort((a, b) => a.level - b.level)];
+  }, [availableBlocks, displayedBlocks, activations, activeSpans, activeSpanLevels]);
+
+  // Add an explicit activation to the selected lifeline, or to the target of the selected message
+  const handleAddActivation = useCallback(() => {
+    const message = messages.find((m) => m.id === selectedMessageId);
+    // A lost message has no target lifeline, so its sender is activated instead
+    const lifelineId = message
+      ? message.toLifelineId === DIAGRAM_BOUNDARY_ID ? message.fromLifelineId : message.toLifelineId
+      : selectedLifelineId;
+    if (!lifelineId) {
+      showNotification('Select an actor or a message to add an activation', 'error');
+      return;
+    }
+
+    const touchingOrders = messages
+      .filter((m) => m.fromLifelineId === lifelineId || m.toLifelineId === lifelineId)
+      .map((m) => m.order)
+      .sort((a, b) => a - b);
+    // From the selected message to the next one touching the lifeline, or across all touching messages
+    const start = message ? message.order : touchingOrders[0] ?? 0;
+    const end = message
+      ? touchingOrders.find((o) => o > message.order) ?? message.order
+      : touchingOrders[touchingOrders.length - 1] ?? start;
+
+    const newActivation: Activation = {
+      id: generateId('activation'),
+      lifelineId,
+      startMessageOrder: start,
+      endMessageOrder: end,
+    };
+    setActivations((prev) => [...prev, newActivation]);
+    clearSelection();
+    setSelectedActivationId(newActivation.id);
+  }, [messages, selectedLifelineId, selectedMessageId, showNotification, clearSelection]);
+
+  // Select explicit activation
+  const handleSelectActivation = useCallback((id: string) => {
+    clearSelection();
+    setSelectedActivationId(id);
+  }, [clearSelection]);
+
+  // Update text for an explicit activation
+  const handleUpdateActivationText = useCallback((id: string, text: string | undefined) => {
+    setActivations((prev) => prev.map((a) => (a.id === id ? { ...a, text } : a)));
+  }, []);
+
+  // Move the top or bottom edge of an explicit activation by one message
+  const handleResizeActivation = useCallback((id: string, edge: 'top' | 'bottom', delta: number) => {
+    const maxOrder = Math.max(0, messages.length - 1);
+    setActivations((prev) =>
+      prev.map((a) => {
+        if (a.id !== id) return a;
+        if (edge === 'top') {
+          return { ...a, startMessageOrder: Math.min(Math.max(a.startMessageOrder + delta, 0), a.endMessageOrder) };
+        }
+        return { ...a, endMessageOrder: Math.min(Math.max(a.endMessageOrder + delta, a.startMessageOrder), maxOrder) };
+      })
+    );
+  }, [messages.length]);
+
+  // Delete explicit activation
+  const handleDeleteActivation = useCallback((id: string) => {
+    setActivations((prev) => prev.filter((a) => a.id !== id));
+    setSelectedActivationId(null);
+  }, []);
+
+  // Add a combined fragment. It nests inside the selected fragment, wraps the
+  // selected message, or otherwise covers the whole diagram.
+  const handleAddFragment = useCallback((operator: FragmentOperator) => {
+    const sortedLifelines = [...lifelines].sort((a, b) => a.order - b.order);
+    if (sortedLifelines.length === 0) {
+      showNotification('Add at least one actor before adding a fragment', 'error');
+      return;
+    }
+
+    let startLifelineId = sortedLifelines[0].id;
+    let endLifelineId = sortedLifelines[sortedLifelines.length - 1].id;
+    let startOrder = 0;
+    let endOrder = Math.max(0, messages.length - 1);
+    let parentId: string | undefined;
+
+    const parent = fragments.find((f) => f.id === selectedFragmentId);
+    const message = messages.find((m) => m.id === selectedMessageId);
+    if (parent) {
+      const range = getFragmentOrderRange(parent);
+      startLifelineId = parent.startLifelineId;
+      endLifelineId = parent.endLifelineId;
+      startOrder = range.start;
+      endOrder = range.end;
+      parentId = parent.id;
+    } else if (message) {
+      // Found and lost messages are framed at their only lifeline
+      startLifelineId = message.fromLifelineId === DIAGRAM_BOUNDARY_ID ? message.toLifelineId : message.fromLifelineId;
+      endLifelineId = message.toLifelineId === DIAGRAM_BOUNDARY_ID ? message.fromLifelineId : message.toLifelineId;
+      startOrder = message.order;
+      endOrder = message.order;
+    }
+
+    const newFragment: Fragment = {
+      id: generateId('fragment'),
+      operator,
+      startLifelineId,
+      endLifelineId,
+      operands: [
+        {
+          id: generateId('operand'),
+          guard: operator === 'par' ? '' : 'condition',
+          startMessageOrder: startOrder,
+          endMessageOrder: endOrder,
+        },
+      ],
+      parentId,
+    };
+    setFragments((prev) => [...prev, newFragment]);
+    clearSelection();
+    setSelectedFragmentId(newFragment.id);
+  }, [lifelines, messages, fragments, selectedFragmentId, selectedMessageId, showNotification, clearSelection]);
+
+  // Select fragment
+  const handleSelectFragment = useCallback((id: string) => {
+    clearSelection();
+    setSelectedFragmentId(id);
+  }, [clearSelection]);
+
+  // Update fragment
+  const handleUpdateFragment = useCallback((updated: Fragment) => {
+    setFragments((prev) => prev.map((f) => (f.id === updated.id ? updated : f)));
+  }, []);
+
+  // Delete fragment
+  const handleDeleteFragment = useCallback((id: string) => {
+    setFragments((prev) => removeFragment(prev, id));
+    setSelectedFragmentId(null);
+  }, []);
+
+  // Grow or shrink a fragment by one message row or one lifeline at the given edge
+  const handleResizeFragment = useCallback((id: string, edge: FragmentEdge, delta: number) => {
+    const sortedLifelines = [...lifelines].sort((a, b) => a.order - b.order);
+    const maxOrder = Math.max(0, messages.length - 1);
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+    setFragments((prev) =>
+      prev.map((f) => {
+        if (f.id !== id || f.operands.length === 0) return f;
+
+        if (edge === 'top' || edge === 'bottom') {
+          const operands = [...f.operands];
+          if (edge === 'top') {
+            const first = operands[0];
+            operands[0] = {
+              ...first,
+              startMessageOrder: clamp(first.startMessageOrder + delta, 0, first.endMessageOrder),
+            };
+          } else {
+            const last = operands[operands.length - 1];
+            operands[operands.length - 1] = {
+              ...last,
+              endMessageOrder: clamp(last.endMessageOrder + delta, last.startMessageOrder, maxOrder),
+            };
+          }
+          return { ...f, operands };
+        }
+
+        const range = getFragmentLifelineRange(f, lifelines);
+        if (!range) return f;
+        let { left, right } = range;
+        if (edge === 'left') {
+          left = clamp(left + delta, 0, right);
+        } else {
+          right = clamp(right + delta, left, sortedLifelines.length - 1);
+        }
+        return { ...f, startLifelineId: sortedLifelines[left].id, endLifelineId: sortedLifelines[right].id };
+      })
+    );
+  }, [lifelines, messages.length]);
+
+  // Add an operand by splitting off the last row of the final operand, or by
+  // extending one row further down when the final operand is a single row
+  const handleAddFragmentOperand = useCallback((id: string) => {
+    const maxOrder = Math.max(0, messages.length - 1);
+    setFragments((prev) =>
+      prev.map((f) => {
+        const last = f.operands[f.operands.length - 1];
+        if (f.id !== id || !last) return f;
+        const splits = last.endMessageOrder > last.startMessageOrder;
+        if (!splits && last.endMessageOrder >= maxOrder) return f;
+        const newOrder = splits ? last.endMessageOrder : last.endMessageOrder + 1;
+        const operands = f.operands.map((o) =>
+          o.id === last.id && splits ? { ...o, endMessageOrder: newOrder - 1 } : o
+        );
+        operands.push({
+          id: generateId('operand'),
+          guard: f.operator === 'alt' ? 'else' : '',
+          startMessageOrder: newOrder,
+          endMessageOrder: newOrder,
+        });
+        return { ...f, operands };
+      })
+    );
+  }, [messages.length]);
+
+  // Remove the last operand, giving its rows back to the previous one
+  const handleRemoveFragmentOperand = useCallback((id: string) => {
+    setFragments((prev) =>
+      prev.map((f) => {
+        if (f.id !== id || f.operands.length < 2) return f;
+        const last = f.operands[f.operands.length - 1];
+        const operands = f.operands.slice(0, -1);
+        const previous = operands[operands.length - 1];
+        operands[operands.length - 1] = { ...previous, endMessageOrder: last.endMessageOrder };
+        return { ...f, operands };
+      })
+    );
+  }, []);
+
+  // Lay out fragment frames (outermost first)
+  const fragmentFrames = useMemo(
+    () => layoutFragments(fragments, lifelines, separators),
+    [fragments, lifelines, separators]
+  );
+
+  // Add a duration constraint starting at the selected message. It ends at the
+  // return to that message when there is one, otherwise at the next message.
+  const handleAddDuration = useCallback(() => {
+    const message = messages.find((m) => m.id === selectedMessageId);
+    if (!message) {
+      showNotification('Select the message the duration starts at', 'error');
+      return;
+    }
+    if (message.order >= messages.length - 1) {
+      showNotification('A duration needs a later message to end at', 'error');
+      return;
+    }
+
+    // Prefer the paired return, then the first return going back along the call's path
+    const matchingReturn =
+      findReply(messages, message.id) ??
+      [...messages]
+        .sort((a, b) => a.order - b.order)
+        .find(
+          (m) =>
+            m.order > message.order &&
+            m.type === 'return' &&
+            m.fromLifelineId === message.toLifelineId &&
+            m.toLifelineId === message.fromLifelineId
+        );
+    const newDuration: DurationConstraint = {
+      id: generateId('duration'),
+      startMessageOrder: message.order,
+      endMessageOrder: matchingReturn && message.type !== 'return' ? matchingReturn.order : message.order + 1,
+      label: '< 200ms',
+      side: 'left',
+    };
+    setDurations((prev) => [...prev, newDuration]);
+    clearSelection();
+    setSelectedDurationId(newDuration.id);
+  }, [messages, selectedMessageId, showNotification, clearSelection]);
+
+  // Select duration constraint
+  const handleSelectDuration = useCallback((id: string) => {
+    clearSelection();
+    setSelectedDurationId(id);
+  }, [clearSelection]);
+
+  // Update duration constraint
+  const handleUpdateDuration = useCallback((updated: DurationConstraint) => {
+    setDurations((prev) => prev.map((d) => (d.id === updated.id ? updated : d)));
+  }, []);
+
+  // Delete duration constraint
+  const handleDeleteDuration = useCallback((id: string) => {
+    setDurations((prev) => prev.filter((d) => d.id !== id));
+    setSelectedDurationId(null);
+  }, []);
+
+  // Move one end of a duration constraint by a message, keeping at least one message between the ends
+  const handleResizeDuration = useCallback((id: string, edge: DurationEdge, delta: number) => {
+    const maxOrder = Math.max(0, messages.length - 1);
+    setDurations((prev) =>
+      prev.map((d) => {
+        if (d.id !== id) return d;
+        if (edge === 'top') {
+          return { ...d, startMessageOrder: Math.min(Math.max(d.startMessageOrder + delta, 0), d.endMessageOrder - 1) };
+        }
+        return { ...d, endMessageOrder: Math.min(Math.max(d.endMessageOrder + delta, d.startMessageOrder + 1), maxOrder) };
+      })
+    );
+  }, [messages.length]);
+
+  // Add a note to the right of the selected message or lifeline
+  const handleAddNote = useCallback(() => {
+    const message = messages.find((m) => m.id === selectedMessageId);
+    const lifeline = lifelines.find((l) => l.id === selectedLifelineId);
+    if (!message && !lifeline) {
+      showNotification('Select an actor or a message to attach the note to', 'error');
+      return;
+    }
+
+    const newNote: Note = {
+      id: generateId('note'),
+      text: 'Note',
+      position: 'right',
+      lifelineIds: !message && lifeline ? [lifeline.id] : [],
+      messageOrder: message ? message.order : messages.length,
+      messageId: message?.id,
+    };
+    setNotes((prev) => [...prev, newNote]);
+    clearSelection();
+    setSelectedNoteId(newNote.id);
+  }, [lifelines, messages, selectedLifelineId, selectedMessageId, showNotification, clearSelection]);
+
+  // Select note
+  const handleSelectNote = useCallback((id: string) => {
+    clearSelection();
+    setSelectedNoteId(id);
+  }, [clearSelection]);
+
+  // Update note
+  const handleUpdateNote = useCallback((updated: Note) => {
+    setNotes((prev) => prev.map((n) => (n.id === updated.id ? updated : n)));
+  }, []);
+
+  // Delete note
+  const handleDeleteNote = useCallback((id: string) => {
+    setNotes((prev) => prev.filter((n) => n.id !== id));
+    setSelectedNoteId(null);
+    setSelectedActivationId(null);
+  }, []);
+
+  // Move a detached note up or down by one row
+  const handleMoveNote = useCallback((id: string, delta: number) => {
+    setNotes((prev) =>
+      prev.map((n) =>
+        n.id === id
+          ? { ...n, messageOrder: Math.min(Math.max(n.messageOrder + delta, 0), messages.length) }
+          : n
+      )
+    );
+  }, [messages.length]);
+
+  // Extend an 'over' note to the next lifeline on the right, or drop its rightmost lifeline
+  const handleResizeNoteSpan = useCallback((id: string, delta: number) => {
+    const sortedLifelines = [...lifelines].sort((a, b) => a.order - b.order);
+    setNotes((prev) =>
+      prev.map((n) => {
+        if (n.id !== id) return n;
+        const covered = sortedLifelines.filter((l) => n.lifelineIds.includes(l.id));
+        if (covered.length === 0) return n;
+        const rightmost = covered[covered.length - 1];
+        if (delta > 0) {
+          const next = sortedLifelines[rightmost.order + 1];
+          return next ? { ...n, lifelineIds: [...covered.map((l) => l.id), next.id] } : n;
+        }
+        return covered.length > 1 ? { ...n, lifelineIds: covered.slice(0, -1).map((l) => l.id) } : n;
+      })
+    );
+  }, [lifelines]);
+
+  // Hovering a call or its return highlights both
+  const highlightedMessageIds = useMemo(
+    () => (hoveredMessageId ? getPairedMessageIds(messages, hoveredMessageId) : new Set<string>()),
+    [hoveredMessageId, messages]
+  );
+
+  // Messages that create their target, so their arrow ends at the target's header
+  const creationMessageIds = useMemo(
+    () =>
+      new Set(
+        lifelines
+          .map((l) => getCreationMessage(l, messages)?.id)
+          .filter((id): id is string => id !== undefined)
+      ),
+    [lifelines, messages]
+  );
+
+  // Insert a divider or delay above the selected message, or after the last message
+  const handleAddSeparator = useCallback((kind: SeparatorKind) => {
+    const message = messages.find((m) => m.id === selectedMessageId);
+    const newSeparator: Separator = {
+      id: generateId('separator'),
+      kind,
+      text: kind === 'divider' ? 'Section' : 'Some time later',
+      beforeMessageOrder: message ? message.order : messages.length,
+    };
+    setSeparators((prev) => [...prev, newSeparator]);
+    clearSelection();
+    setSelectedSeparatorId(newSeparator.id);
+  }, [messages, selectedMessageId, clearSelection]);
+
+  // Add a ref over the selected lifeline (or all lifelines), above the selected message or at the end
+  const handleAddRef = useCallback(() => {
+    if (lifelines.length === 0) {
+      showNotification('Add an actor before adding a ref', 'error');
+      return;
+    }
+    const sortedLifelines = [...lifelines].sort((a, b) => a.order - b.order);
+    const selectedLifeline = lifelines.find((l) => l.id === selectedLifelineId);
+    const message = messages.find((m) => m.id === selectedMessageId);
+    const newRef: Separator = {
+      id: generateId('ref'),
+      kind: 'ref',
+      text: 'Interaction',
+      beforeMessageOrder: message ? message.order : messages.length,
+      startLifelineId: selectedLifeline?.id ?? sortedLifelines[0].id,
+      endLifelineId: selectedLifeline?.id ?? sortedLifelines[sortedLifelines.length - 1].id,
+      target: '',
+    };
+    setSeparators((prev) => [...prev, newRef]);
+    clearSelection();
+    setSelectedSeparatorId(newRef.id);
+  }, [lifelines, messages, selectedLifelineId, selectedMessageId, showNotification, clearSelection]);
+
+  // Move a ref's left or right edge by one lifeline
+  const handleResizeRef = useCallback((id: string, edge: RefEdge, delta: number) => {
+    const sortedLifelines = [...lifelines].sort((a, b) => a.order - b.order);
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+    setSeparators((prev) =>
+      prev.map((s) => {
+        if (s.id !== id) return s;
+        const range = getRefLifelineRange(s, lifelines);
+        if (!range) return s;
+        let { left, right } = range;
+        if (edge === 'left') {
+          left = clamp(left + delta, 0, right);
+        } else {
+          right = clamp(right + delta, left, sortedLifelines.length - 1);
+        }
+        return { ...s, startLifelineId: sortedLifelines[left].id, endLifelineId: sortedLifelines[right].id };
+      })
+    );
+  }, [lifelines]);
+
+  // Show or hide the read-only preview of a ref's diagram
+  const handleToggleRefExpanded = useCallback((id: string) => {
+    setExpandedRefIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
   }, []);
 
+  // Select divider or delay
+  const handleSelectSeparator = useCallback((id: string) => {
+    clearSelection();
+    setSelectedSeparatorId(id);
+  }, [clearSelection]);
+
+  // Update divider or delay
+  const handleUpdateSeparator = useCallback((updated: Separator) => {
+    setSeparators((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+  }, []);
+
+  // Delete divider or delay
+  const handleDeleteSeparator = useCallback((id: string) => {
+    setSeparators((prev) => prev.filter((s) => s.id !== id));
+    setSelectedSeparatorId(null);
+  }, []);
+
+  // Move a divider or delay past the previous or next message
+  const handleMoveSeparator = useCallback((id: string, delta: number) => {
+    setSeparators((prev) =>
+      prev.map((s) =>
+        s.id === id
+          ? { ...s, beforeMessageOrder: Math.min(Math.max(s.beforeMessageOrder + delta, 0), messages.length) }
+          : s
+      )
+    );
+  }, [messages.length]);
+
+  // Lay out duration constraints in the gutters
+  const durationFrames = useMemo(
+    () => layoutDurations(durations, lifelines, separators),
+    [durations, lifelines, separators]
+  );
+
+  // Lay out ref frames
+  const refFrames = useMemo(() => layoutRefs(separators, lifelines), [separators, lifelines]);
+
+  const getReferencedDiagram = (separator: Separator): BumlDiagram | undefined =>
+    separator.target ? referencedDiagrams[separator.target] : undefined;
+
+  // Expanded previews hang below their frames and may reach past the last row
+  const svgHeight = refFrames.reduce((height, frame) => {
+    const diagram = getReferencedDiagram(frame.separator);
+    if (!diagram || !expandedRefIds.has(frame.separator.id)) return height;
+    return Math.max(height, frame.y + frame.height + 6 + getReferencePreviewHeight(diagram) + CANVAS_PADDING);
+  }, canvasHeight);
+
+  // Lay out group boxes
+  const groupFrames = useMemo(() => layoutGroups(groups, lifelines, canvasHeight - 30), [groups, lifelines, canvasHeight]);
+
+  // Whether a lifeline order exists and is not in any group
+  const isFreeLifelineOrder = (order: number) => {
+    const lifeline = lifelines.find((l) => l.order === order);
+    return !!lifeline && !groups.some((g) => g.lifelineIds.includes(lifeline.id));
+  };
+
+  // Automatic message numbers (empty when numbering is off)
+  const messageNumbers = useMemo(() => computeMessageNumbers(messages, autonumber), [messages, autonumber]);
+
+  // Lay out notes
+  const noteFrames = useMemo(
+    () => layoutNotes(notes, lifelines, messages, separators),
+    [notes, lifelines, messages, separators]
+  );
+
   // Toggle add message mode
-  const handleToggleAddMessageMode = useCallback((type: 'sync' | 'return') => {
+  const handleToggleAddMessageMode = useCallback((type: MessageType) => {
+    // Picking Return with an unanswered sync call selected adds its reply straight away
+    const call = messages.find((m) => m.id === selectedMessageId);
+    if (type === 'return' && call?.type === 'sync' && !findReply(messages, call.id)) {
+      const reply: Message = {
+        id: generateId('message'),
+        fromLifelineId: call.toLifelineId,
+        toLifelineId: call.fromLifelineId,
+        label: DEFAULT_MESSAGE_LABELS.return,
+        type: 'return',
+        order: call.order + 1,
+        replyTo: call.id,
+      };
+      // The reply goes right below its call, moving later messages down a row
+      addMessage(reply, { order: call.order, placement: 'below' });
+      setIsAddMessageMode(false);
+      setMessageFromLifeline(null);
+      clearSelection();
+      setSelectedMessageId(reply.id);
+      return;
+    }
     if (isAddMessageMode && messageType === type) {
       setIsAddMessageMode(false);
       setMessageFromLifeline(null);
+      setPendingInsert(null);
     } else {
       setIsAddMessageMode(true);
       setMessageType(type);
       setMessageFromLifeline(null);
     }
-    setSelectedLifelineId(null);
-    setSelectedMessageId(null);
-  }, [isAddMessageMode, messageType]);
+    clearSelection();
+  }, [isAddMessageMode, messageType, messages, selectedMessageId, addMessage, clearSelection]);
 
   // Canvas click handler
   const handleCanvasClick = useCallback(() => {
-    setSelectedLifelineId(null);
-    setSelectedMessageId(null);
+    clearSelection();
     if (isAddMessageMode && messageFromLifeline) {
       setMessageFromLifeline(null);
     }
-  }, [isAddMessageMode, messageFromLifeline]);
+  }, [isAddMessageMode, messageFromLifeline, clearSelection]);
 
   // Sanitize diagram name for use as filename
   const getSanitizedFileName = useCallback((name: string): string => {
@@ -311,18 +1496,28 @@ export default function SequenceDiagramCanvas() {
   const handleClearAll = useCallback(() => {
     setLifelines([]);
     setMessages([]);
+    setFragments([]);
+    setNotes([]);
+    setSeparators([]);
+    setGroups([]);
+    setDurations([]);
+    setReferencedDiagrams({});
+    setExpandedRefIds(new Set());
+    setActivations([]);
     setActivatedBlocks(new Map());
+    setAutonumber(DEFAULT_AUTONUMBER);
+    setAutoActivate(false);
     setDiagramName('Untitled Diagram');
-    setSelectedLifelineId(null);
-    setSelectedMessageId(null);
+    clearSelection();
     setIsAddMessageMode(false);
     setMessageFromLifeline(null);
-  }, []);
+    setPendingInsert(null);
+  }, [clearSelection]);
 
   // Save diagram to .buml file
   const handleSave = useCallback(() => {
     const content = serializeToBuml(
-      { lifelines, messages, activations: [] },
+      { lifelines, messages, activations, fragments, notes, separators, groups, durations, autonumber, autoActivate },
       activatedBlocks,
       diagramName
     );
@@ -338,86 +1533,189 @@ export default function SequenceDiagramCanvas() {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  }, [lifelines, messages, activatedBlocks, diagramName, getSanitizedFileName]);
+  }, [lifelines, messages, activations, fragments, notes, separators, groups, durations, autonumber, autoActivate, activatedBlocks, diagramName, getSanitizedFileName]);
 
   // Load diagram from .buml file
   const handleLoad = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
-  // Handle file selection
-  const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const diagram = buildDiagramFromBuml(content);
-        
-        setLifelines(diagram.state.lifelines);
-        setMessages(diagram.state.messages);
-        // Convert activatedBlocksData to Map with type validation
-        const blocksMap = new Map<string, ActivationBlockData>();
-        if (diagram.activatedBlocksData) {
-          for (const [key, data] of Object.entries(diagram.activatedBlocksData)) {
-            if (isActivationBlockData(data)) {
-              blocksMap.set(key, data);
-            }
-          }
-        } else {
-          // Fallback for old format: convert string array to Map
-          for (const key of diagram.activatedBlocks) {
-            blocksMap.set(key, { isActive: true });
-          }
+  // Replace the canvas contents with a built diagram
+  const applyDiagram = useCallback((diagram: BumlDiagram, fileName: string) => {
+    setLifelines(diagram.state.lifelines);
+    setMessages(diagram.state.messages);
+    setFragments(diagram.state.fragments);
+    setNotes(diagram.state.notes);
+    setSeparators(diagram.state.separators);
+    setGroups(diagram.state.groups);
+    setDurations(diagram.state.durations);
+    setActivations(diagram.state.activations);
+    setAutonumber(diagram.state.autonumber);
+    setAutoActivate(diagram.state.autoActivate);
+    setReferencedDiagrams(diagram.references ?? {});
+    setExpandedRefIds(new Set());
+    // Convert activatedBlocksData to Map with type validation
+    const blocksMap = new Map<string, ActivationBlockData>();
+    if (diagram.activatedBlocksData) {
+      for (const [key, data] of Object.entries(diagram.activatedBlocksData)) {
+        if (isActivationBlockData(data)) {
+          blocksMap.set(key, data);
         }
-        setActivatedBlocks(blocksMap);
-        // Restore the diagram name if available, otherwise use the filename without extension
-        const nameFromFile = diagram.name || file.name.replace(/\.buml$/i, '');
-        setDiagramName(nameFromFile);
-        setSelectedLifelineId(null);
-        setSelectedMessageId(null);
-        setIsAddMessageMode(false);
-        setMessageFromLifeline(null);
-        showNotification('Diagram loaded successfully!', 'success');
-      } catch (error) {
-        showNotification('Failed to load diagram: ' + (error instanceof Error ? error.message : 'Invalid file'), 'error');
       }
-    };
-    reader.readAsText(file);
-    
+    } else {
+      // Fallback for old format: convert string array to Map
+      for (const key of diagram.activatedBlocks) {
+        blocksMap.set(key, { isActive: true });
+      }
+    }
+    setActivatedBlocks(blocksMap);
+    // Restore the diagram name if available, otherwise use the filename without extension
+    const nameFromFile = diagram.name || fileName.replace(/\.(buml|puml|plantuml|mmd|mermaid|svg)$/i, '');
+    setDiagramName(nameFromFile);
+    clearSelection();
+    setIsAddMessageMode(false);
+    setMessageFromLifeline(null);
+    setPendingInsert(null);
+  }, [clearSelection]);
+
+  // Handle file selection. Diagrams referenced by the opened one can be selected
+  // together with it; the file none of the others reference is the one opened.
+  // A single .puml or .mmd file is imported from PlantUML or Mermaid instead.
+  const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
     // Reset the input so the same file can be loaded again
     event.target.value = '';
-  }, [showNotification]);
+    if (files.length === 0) return;
 
-  // Export diagram as PDF/image
-  const handleExportPDF = useCallback(async () => {
+    try {
+      const sources: BumlSourceFile[] = await Promise.all(
+        files.map(async (file) => {
+          const path = file.webkitRelativePath || file.name;
+          const content = await file.text();
+          // Exported SVGs carry their .buml source
+          return /\.svg$/i.test(path)
+            ? { path: path.replace(/\.svg$/i, '.buml'), content: readSvgBumlSource(content) }
+            : { path, content };
+        })
+      );
+      const [source] = sources;
+      const isPlantUml = /\.(puml|plantuml)$/i.test(source.path);
+      if (sources.length === 1 && (isPlantUml || /\.(mmd|mermaid)$/i.test(source.path))) {
+        const { diagram, warnings } = isPlantUml
+          ? buildDiagramFromPlantUml(source.content)
+          : buildDiagramFromMermaid(source.content);
+        setParentDiagrams([]);
+        applyDiagram(diagram, files[0].name);
+        if (warnings.length > 0) {
+          showNotification(`Imported with ${warnings.length} line(s) that could not be represented: ${formatImportWarnings(warnings)}`, 'error');
+        } else {
+          showNotification('Diagram imported successfully!', 'success');
+        }
+        return;
+      }
+      const diagram = buildDiagramFromBumlFiles(sources);
+      setParentDiagrams([]);
+      applyDiagram(diagram, files[0].name);
+      showNotification('Diagram loaded successfully!', 'success');
+    } catch (error) {
+      showNotification('Failed to load diagram: ' + (error instanceof Error ? error.message : 'Invalid file'), 'error');
+    }
+  }, [applyDiagram, showNotification]);
+
+  // The current diagram, including unsaved edits, as it would be loaded again
+  const getCurrentDiagram = useCallback((): BumlDiagram => ({
+    state: { lifelines, messages, activations, fragments, notes, separators, groups, durations, autonumber, autoActivate },
+    activatedBlocks: [],
+    activatedBlocksData: Object.fromEntries(activatedBlocks),
+    name: diagramName,
+    references: referencedDiagrams,
+  }), [lifelines, messages, activations, fragments, notes, separators, groups, durations, autonumber, autoActivate, activatedBlocks, diagramName, referencedDiagrams]);
+
+  // Open the diagram a ref points to in place of the current one, which is
+  // kept with its unsaved edits so "Back" can return to it
+  const handleOpenRef = useCallback((id: string) => {
+    const separator = separators.find((s) => s.id === id);
+    const diagram = separator?.target ? referencedDiagrams[separator.target] : undefined;
+    if (!separator?.target || !diagram) return;
+    setParentDiagrams([...parentDiagrams, { diagram: getCurrentDiagram(), target: separator.target }]);
+    applyDiagram(diagram, separator.target);
+    showNotification(`Opened "${separator.target}"`, 'success');
+  }, [separators, referencedDiagrams, parentDiagrams, getCurrentDiagram, applyDiagram, showNotification]);
+
+  // Return to the diagram the current one was opened from. Edits made here are
+  // carried back into its copy of the ref, so previewing or reopening it shows
+  // them; saving before going back also keeps them in the referenced file.
+  const handleBackToParent = useCallback(() => {
+    const parent = parentDiagrams[parentDiagrams.length - 1];
+    if (!parent) return;
+    const references = { ...parent.diagram.references, [parent.target]: getCurrentDiagram() };
+    setParentDiagrams(parentDiagrams.slice(0, -1));
+    applyDiagram({ ...parent.diagram, references }, parent.target);
+    showNotification(`Back to "${parent.diagram.name}"`, 'success');
+  }, [parentDiagrams, getCurrentDiagram, applyDiagram, showNotification]);
+
+  // Export diagram as PDF/image or as text for other diagram tools
+  const handleExport = useCallback(async (format: ExportFormat, options?: ExportOptions) => {
     const sanitizedName = getSanitizedFileName(diagramName);
     
     const result = await ExportFactory.exportDiagram(
-      'pdf',
-      { lifelines, messages, activations: [] },
+      format,
+      { lifelines, messages, activations, fragments, notes, separators, groups, durations, autonumber, autoActivate },
       activatedBlocks,
-      sanitizedName
+      sanitizedName,
+      options
     );
     
     if (!result.success) {
       showNotification('Failed to export diagram: ' + (result.error || 'Unknown error'), 'error');
+    } else if (result.warnings && result.warnings.length > 0) {
+      showNotification(`Exported without ${result.warnings.length} part(s) that could not be represented: ${formatExportWarnings(result.warnings)}`, 'error');
     } else {
       showNotification('Diagram exported successfully!', 'success');
     }
-  }, [lifelines, messages, activatedBlocks, diagramName, getSanitizedFileName, showNotification]);
+  }, [lifelines, messages, activations, fragments, notes, separators, groups, durations, autonumber, autoActivate, activatedBlocks, diagramName, getSanitizedFileName, showNotification]);
 
   // Get add message mode status message
   const getAddMessageModeMessage = () => {
     if (!isAddMessageMode) return '';
-    const typeLabel = messageType === 'sync' ? 'sync request' : 'return';
-    if (!messageFromLifeline) return `Click source lifeline for ${typeLabel}`;
+    const typeLabel = MESSAGE_TYPE_NAMES[messageType];
+    const insertHint = pendingInsert ? `Inserting ${pendingInsert.placement} message ${pendingInsert.order + 1}: ` : '';
+    if (!messageFromLifeline) return `${insertHint}Click source lifeline for ${typeLabel} (or the left edge for a found message)`;
+    if (messageFromLifeline === DIAGRAM_BOUNDARY_ID) return `${insertHint}From the diagram edge - Click destination lifeline`;
     const fromLifeline = lifelines.find((l) => l.id === messageFromLifeline);
-    return `From "${fromLifeline?.name}" - Click destination lifeline`;
+    return `${insertHint}From "${fromLifeline?.name}" - Click destination lifeline (the same one for a self-message, or the right edge for a lost message)`;
   };
 
+  // Line of the preview arrow drawn while dragging: the dragged end follows the pointer
+  const arrowPreview = (() => {
+    if (!arrowDrag) return null;
+    const getEndpointX = (id: string, side: 'left' | 'right') => {
+      const lifeline = lifelines.find((l) => l.id === id);
+      return lifeline ? getLifelineX(lifeline) : getBoundaryX(side, lifelines);
+    };
+    if (arrowDrag.kind === 'create') {
+      const from = lifelines.find((l) => l.id === arrowDrag.fromLifelineId);
+      const distance = Math.hypot(arrowDrag.x - arrowDrag.startX, arrowDrag.y - arrowDrag.startY);
+      if (!from || distance < MIN_ARROW_DRAG_DISTANCE) return null;
+      const x1 = getLifelineX(from);
+      return { x1, y1: arrowDrag.startY, x2: arrowDrag.x, y2: arrowDrag.startY, direction: arrowDrag.x >= x1 ? 1 : -1 };
+    }
+    const message = messages.find((m) => m.id === arrowDrag.messageId);
+    if (!message) return null;
+    const y = getMessageY(message.order, separators);
+    if (arrowDrag.end === 'from') {
+      const x2 = getEndpointX(message.toLifelineId, 'right');
+      return { x1: arrowDrag.x, y1: y, x2, y2: y, direction: x2 >= arrowDrag.x ? 1 : -1 };
+    }
+    const x1 = getEndpointX(message.fromLifelineId, 'left');
+    return { x1, y1: y, x2: arrowDrag.x, y2: y, direction: arrowDrag.x >= x1 ? 1 : -1 };
+  })();
+
+  // Message whose structured payload is shown in the inspector
+  const selectedMessage = messages.find((m) => m.id === selectedMessageId);
+  const getEndpointName = (id: string) =>
+    id === DIAGRAM_BOUNDARY_ID ? 'Diagram edge' : lifelines.find((l) => l.id === id)?.name ?? '?';
+
   return (
     <div className="flex flex-col h-screen bg-gradient-to-br from-slate-100 via-blue-50 to-indigo-100 p-6">
       {/* Notification toast */}
@@ -433,11 +1731,24 @@ export default function SequenceDiagramCanvas() {
         </div>
       )}
       
+      {/* Structured payload of the selected message */}
+      {selectedMessage && (
+        <MessageInspector
+          key={selectedMessage.id}
+          message={selectedMessage}
+          fromName={getEndpointName(selectedMessage.fromLifelineId)}
+          toName={getEndpointName(selectedMessage.toLifelineId)}
+          onUpdate={handleUpdateMessage}
+          onClose={clearSelection}
+        />
+      )}
+
       {/* Hidden file input for loading .buml files */}
       <input
         ref={fileInputRef}
         type="file"
-        accept=".buml"
+        accept=".buml,.svg,.puml,.plantuml,.mmd,.mermaid"
+        multiple
         onChange={handleFileSelect}
         className="hidden"
       />
@@ -445,22 +1756,37 @@ export default function SequenceDiagramCanvas() {
       <SequenceToolbar
         diagramName={diagramName}
         onDiagramNameChange={setDiagramName}
+        parentDiagramName={parentDiagrams[parentDiagrams.length - 1]?.diagram.name}
+        onBackToParent={handleBackToParent}
         onAddLifeline={handleAddLifeline}
         isAddMessageMode={isAddMessageMode}
         messageType={messageType}
         onToggleAddMessageMode={handleToggleAddMessageMode}
         addMessageModeMessage={getAddMessageModeMessage()}
+        autonumber={autonumber}
+        onAutonumberChange={setAutonumber}
+        autoActivate={autoActivate}
+        onAutoActivateChange={setAutoActivate}
+        onApplyAutoActivation={handleApplyAutoActivation}
+        onAddFragment={handleAddFragment}
+        onAddNote={handleAddNote}
+        onAddDuration={handleAddDuration}
+        onAddSeparator={handleAddSeparator}
+        onAddRef={handleAddRef}
+        onAddGroup={handleAddGroup}
+        onAddActivation={handleAddActivation}
+        onToggleDestroy={handleToggleLifelineDestroy}
         onClearAll={handleClearAll}
         onSave={handleSave}
         onLoad={handleLoad}
-        onExportPDF={handleExportPDF}
+        onExport={handleExport}
       />
       
       <div
         className="flex-1 relative bg-white/50 backdrop-blur-sm rounded-2xl shadow-inner overflow-auto border border-white/80"
         onClick={handleCanvasClick}
       >
-        <svg width={canvasWidth} height={canvasHeight} className="min-w-full min-h-full">
+        <svg ref={svgRef} width={canvasWidth} height={svgHeight} className="min-w-full min-h-full">
           {/* Grid background */}
           <defs>
             <pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
@@ -469,32 +1795,155 @@ export default function SequenceDiagramCanvas() {
           </defs>
           <rect width="100%" height="100%" fill="url(#grid)" />
 
+          {/* Group boxes (behind headers and lifelines) */}
+          {groupFrames.map((frame) => (
+            <LifelineGroupBox
+              key={frame.group.id}
+              frame={frame}
+              isSelected={selectedGroupId === frame.group.id}
+              canExtendLeft={isFreeLifelineOrder(frame.left - 1)}
+              canExtendRight={isFreeLifelineOrder(frame.right + 1)}
+              onSelect={handleSelectGroup}
+              onUpdate={handleUpdateGroup}
+              onDelete={handleDeleteGroup}
+              onResize={handleResizeGroup}
+            />
+          ))}
+
           {/* Lifeline dashed lines */}
           {lifelines.map((lifeline) => {
             const x = getLifelineX(lifeline);
-            const startY = LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT;
-            const endY = canvasHeight - 40;
+            const { top, bottom } = getLifelineLineBounds(lifeline, messages, separators, canvasHeight - 40);
             return (
-              <line
-                key={`line-${lifeline.id}`}
-                x1={x}
-                y1={startY}
-                x2={x}
-                y2={endY}
-                stroke="#9CA3AF"
-                strokeWidth={2}
-                strokeDasharray="8,6"
-              />
+              <g key={`line-${lifeline.id}`}>
+                <line x1={x} y1={top} x2={x} y2={bottom} stroke="#9CA3AF" strokeWidth={2} strokeDasharray="8,6" />
+                {/* Wide invisible stroke to drag a new message out of the line */}
+                <line
+                  x1={x}
+                  y1={top}
+                  x2={x}
+                  y2={bottom}
+                  stroke="transparent"
+                  strokeWidth={12}
+                  className="cursor-crosshair"
+                  onMouseDown={(e) => handleLifelineLineMouseDown(lifeline.id, e)}
+                >
+                  <title>Drag to another actor to draw a message</title>
+                </line>
+              </g>
             );
           })}
 
-          {/* Activation blocks (clickable areas between consecutive messages) */}
-          {availableBlocks.map((block) => {
+          {/* Diagram edge for found (left) and lost (right) messages while drawing a message */}
+          {isAddMessageMode && lifelines.length > 0 && messageFromLifeline !== DIAGRAM_BOUNDARY_ID && (() => {
+            const isSource = !messageFromLifeline;
+            const x = getBoundaryX(isSource ? 'left' : 'right', lifelines);
+            return (
+              <g
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleSelectLifeline(DIAGRAM_BOUNDARY_ID);
+                }}
+                className="cursor-pointer"
+              >
+                <title>{isSource ? 'Start a found message at the diagram edge' : 'End a lost message at the diagram edge'}</title>
+                <rect
+                  x={x - 12}
+                  y={LIFELINE_START_Y}
+                  width={24}
+                  height={canvasHeight - LIFELINE_START_Y - 40}
+                  rx={6}
+                  fill="#8B5CF6"
+                  fillOpacity={0.08}
+                  stroke="#8B5CF6"
+                  strokeDasharray="4,4"
+                />
+                <circle cx={x} cy={LIFELINE_START_Y + 16} r={BOUNDARY_DOT_RADIUS} fill="#8B5CF6" />
+              </g>
+            );
+          })()}
+
+          {/* Dividers and delays spanning the full width */}
+          {separators.filter((s) => s.kind !== 'ref').map((separator) => (
+            <SeparatorRow
+              key={separator.id}
+              separator={separator}
+              y={getSeparatorY(separator, separators)}
+              width={canvasWidth}
+              lifelineXs={lifelines.map(getLifelineX)}
+              isSelected={selectedSeparatorId === separator.id}
+              canMoveUp={separator.beforeMessageOrder > 0}
+              canMoveDown={separator.beforeMessageOrder < messages.length}
+              onSelect={handleSelectSeparator}
+              onUpdate={handleUpdateSeparator}
+              onDelete={handleDeleteSeparator}
+              onMove={handleMoveSeparator}
+            />
+          ))}
+
+          {/* Refs to other diagrams, framing the lifelines they cover */}
+          {refFrames.map((frame) => (
+            <InteractionRefFrame
+              key={frame.separator.id}
+              frame={frame}
+              maxLifelineOrder={lifelines.length - 1}
+              isResolved={!!getReferencedDiagram(frame.separator)}
+              isExpanded={expandedRefIds.has(frame.separator.id)}
+              isSelected={selectedSeparatorId === frame.separator.id}
+              canMoveUp={frame.separator.beforeMessageOrder > 0}
+              canMoveDown={frame.separator.beforeMessageOrder < messages.length}
+              onSelect={handleSelectSeparator}
+              onUpdate={handleUpdateSeparator}
+              onDelete={handleDeleteSeparator}
+              onMove={handleMoveSeparator}
+              onResize={handleResizeRef}
+              onToggleExpand={handleToggleRefExpanded}
+              onOpen={handleOpenRef}
+            />
+          ))}
+
+          {/* Combined fragments (drawn behind activations and messages) */}
+          {fragmentFrames.map((frame) => (
+            <CombinedFragment
+              key={frame.fragment.id}
+              frame={frame}
+              maxMessageOrder={Math.max(0, messages.length - 1)}
+              isSelected={selectedFragmentId === frame.fragment.id}
+              onSelect={handleSelectFragment}
+              onUpdate={handleUpdateFragment}
+              onDelete={handleDeleteFragment}
+              onResize={handleResizeFragment}
+              onAddOperand={handleAddFragmentOperand}
+              onRemoveOperand={handleRemoveFragmentOperand}
+            />
+          ))}
+
+          {/* Activation bars: clickable blocks between consecutive messages plus explicit activations */}
+          {activationBars.map((bar) => {
+            if (bar.kind === 'activation') {
+              const { activation } = bar;
+              const lifeline = lifelines.find((l) => l.id === activation.lifelineId);
+              if (!lifeline) return null;
+              return (
+                <ActivationBar
+                  key={bar.key}
+                  activation={activation}
+                  lifeline={lifeline}
+                  isActive
+                  text={activation.text}
+                  level={bar.level}
+                  separators={separators}
+                  isSelected={selectedActivationId === activation.id}
+                  onClick={() => handleSelectActivation(activation.id)}
+                  onTextChange={(text) => handleUpdateActivationText(activation.id, text)}
+                  onResize={(edge, delta) => handleResizeActivation(activation.id, edge, delta)}
+                  onDelete={() => handleDeleteActivation(activation.id)}
+                />
+              );
+            }
+            const { block, key, data } = bar;
             const lifeline = lifelines.find((l) => l.id === block.lifelineId);
             if (!lifeline) return null;
-            const key = getBlockKey(block);
-            const blockData = activatedBlocks.get(key);
-            const isActive = blockData?.isActive ?? false;
             return (
               <ActivationBar
                 key={key}
@@ -505,8 +1954,10 @@ export default function SequenceDiagramCanvas() {
                   endMessageOrder: block.endMessageOrder,
                 }}
                 lifeline={lifeline}
-                isActive={isActive}
-                text={blockData?.text}
+                isActive={data?.isActive ?? false}
+                text={data?.text}
+                level={bar.level}
+                separators={separators}
                 onClick={() => handleToggleBlock(block)}
                 onTextChange={(text) => handleUpdateBlockText(key, text)}
               />
@@ -519,20 +1970,128 @@ export default function SequenceDiagramCanvas() {
               key={message.id}
               message={message}
               lifelines={lifelines}
+              fromLevel={getAttachmentLevel(activeSpans, activeSpanLevels, message.fromLifelineId, message.order)}
+              toLevel={getAttachmentLevel(activeSpans, activeSpanLevels, message.toLifelineId, message.order)}
+              endsAtHeader={creationMessageIds.has(message.id)}
+              number={messageNumbers.get(message.id)}
+              separators={separators}
               isSelected={selectedMessageId === message.id}
+              isHighlighted={highlightedMessageIds.size > 1 && highlightedMessageIds.has(message.id)}
+              isDragging={messageDrag?.id === message.id || (arrowDrag?.kind === 'rewire' && arrowDrag.messageId === message.id)}
               onSelect={handleSelectMessage}
               onUpdate={handleUpdateMessage}
               onDelete={handleDeleteMessage}
+              onHover={setHoveredMessageId}
+              onInsert={handleStartInsertMessage}
+              onDragStart={handleMessageDragStart}
+              onEndDragStart={handleMessageEndDragStart}
             />
           ))}
 
+          {/* Live preview while an arrow end is rewired or a new arrow is dragged out */}
+          {arrowPreview && (
+            <g pointerEvents="none">
+              <line
+                x1={arrowPreview.x1}
+                y1={arrowPreview.y1}
+                x2={arrowPreview.x2}
+                y2={arrowPreview.y2}
+                stroke="#8B5CF6"
+                strokeWidth={2}
+                strokeDasharray="6,4"
+              />
+              <polygon
+                points={`${arrowPreview.x2},${arrowPreview.y2} ${arrowPreview.x2 - arrowPreview.direction * 10},${arrowPreview.y2 - 6} ${arrowPreview.x2 - arrowPreview.direction * 10},${arrowPreview.y2 + 6}`}
+                fill="#8B5CF6"
+              />
+            </g>
+          )}
+
+          {/* Drop indicator while a message is dragged to another row */}
+          {draggedMessage && messageDropOrder !== null && messageDropOrder !== draggedMessage.order && (
+            <g pointerEvents="none">
+              <line
+                x1={LIFELINE_START_X}
+                y1={getMessageY(messageDropOrder, separators)}
+                x2={canvasWidth - 60}
+                y2={getMessageY(messageDropOrder, separators)}
+                stroke="#6366F1"
+                strokeWidth={2}
+                strokeDasharray="6,4"
+              />
+              <text
+                x={LIFELINE_START_X}
+                y={getMessageY(messageDropOrder, separators) - 6}
+                className="text-xs font-semibold select-none"
+                fill="#6366F1"
+              >
+                Move to row {messageDropOrder + 1}
+              </text>
+            </g>
+          )}
+
+          {/* Notes (above messages so they stay readable) */}
+          {noteFrames.map((frame) => {
+            const coveredOrders = lifelines
+              .filter((l) => frame.note.lifelineIds.includes(l.id))
+              .map((l) => l.order);
+            return (
+              <NoteBox
+                key={frame.note.id}
+                frame={frame}
+                isSelected={selectedNoteId === frame.note.id}
+                canMoveUp={frame.note.messageOrder > 0}
+                canMoveDown={frame.note.messageOrder < messages.length}
+                canExtendSpan={coveredOrders.length > 0 && Math.max(...coveredOrders) < lifelines.length - 1}
+                onSelect={handleSelectNote}
+                onUpdate={handleUpdateNote}
+                onDelete={handleDeleteNote}
+                onMove={handleMoveNote}
+                onResizeSpan={handleResizeNoteSpan}
+              />
+            );
+          })}
+
+          {/* Duration constraints in the side gutters */}
+          {durationFrames.map((frame) => (
+            <DurationMark
+              key={frame.duration.id}
+              frame={frame}
+              maxMessageOrder={messages.length - 1}
+              isSelected={selectedDurationId === frame.duration.id}
+              onSelect={handleSelectDuration}
+              onUpdate={handleUpdateDuration}
+              onDelete={handleDeleteDuration}
+              onResize={handleResizeDuration}
+            />
+          ))}
+
+          {/* Destroy markers ending destroyed lifelines */}
+          {lifelines.map((lifeline) => {
+            const y = getDestroyMarkerY(lifeline, separators);
+            if (y === undefined || lifeline.destroyOrder === undefined) return null;
+            return (
+              <DestroyMarker
+                key={`destroy-${lifeline.id}`}
+                lifeline={lifeline}
+                x={getLifelineX(lifeline)}
+                y={y}
+                isSelected={selectedLifelineId === lifeline.id}
+                canMoveUp={lifeline.destroyOrder > 0}
+                canMoveDown={lifeline.destroyOrder < messages.length}
+                onSelect={handleSelectLifeline}
+                onMove={handleMoveDestroyMarker}
+              />
+            );
+          })}
+
           {/* Lifeline headers */}
           {lifelines.map((lifeline) => (
             <LifelineHeader
               key={lifeline.id}
               lifeline={lifeline}
               x={LIFELINE_START_X + lifeline.order * LIFELINE_SPACING}
-              y={LIFELINE_START_Y}
+              y={getLifelineHeaderY(lifeline, messages, separators)}
               isSelected={selectedLifelineId === lifeline.id || messageFromLifeline === lifeline.id}
               canMoveLeft={lifeline.order > 0}
               canMoveRight={lifeline.order < lifelines.length - 1}
@@ -541,8 +2100,65 @@ export default function SequenceDiagramCanvas() {
               onDelete={handleDeleteLifeline}
               onMoveLeft={handleMoveLifelineLeft}
               onMoveRight={handleMoveLifelineRight}
+              isDragging={lifelineDrag?.id === lifeline.id}
+              onDragStart={handleLifelineDragStart}
             />
           ))}
+
+          {/* Drop indicator and outline following the pointer while a lifeline is dragged */}
+          {draggedLifeline && lifelineDrag && (
+            <g pointerEvents="none">
+              <rect
+                x={LIFELINE_START_X + draggedLifeline.order * LIFELINE_SPACING + lifelineDrag.deltaX}
+                y={getLifelineHeaderY(draggedLifeline, messages, separators)}
+                width={LIFELINE_HEADER_WIDTH}
+                height={LIFELINE_HEADER_HEIGHT}
+                rx={8}
+                fill="none"
+                stroke={draggedLifeline.color}
+                strokeWidth={2}
+                strokeDasharray="6,4"
+              />
+              {lifelineDrop && (
+                <>
+                  <line
+                    x1={getLifelineSlotX(lifelineDrop.slot)}
+                    y1={LIFELINE_START_Y - 10}
+                    x2={getLifelineSlotX(lifelineDrop.slot)}
+                    y2={canvasHeight - 40}
+                    stroke="#6366F1"
+                    strokeWidth={2}
+                    strokeDasharray="6,4"
+                  />
+                  <text
+                    x={getLifelineSlotX(lifelineDrop.slot)}
+                    y={LIFELINE_START_Y - 16}
+                    textAnchor="middle"
+                    className="text-xs font-semibold select-none"
+                    fill="#6366F1"
+                  >
+                    Move here
+                  </text>
+                </>
+              )}
+            </g>
+          )}
+
+          {/* Read-only previews of expanded refs, on top of everything else */}
+          {refFrames.map((frame) => {
+            const diagram = getReferencedDiagram(frame.separator);
+            if (!diagram || !expandedRefIds.has(frame.separator.id)) return null;
+            return (
+              <ReferencePreview
+                key={`preview-${frame.separator.id}`}
+                diagram={diagram}
+                title={diagram.name || frame.separator.target || frame.separator.text}
+                x={frame.x}
+                y={frame.y + frame.height + 6}
+                minWidth={frame.width}
+              />
+            );
+          })}
         </svg>
 
         {/* Empty state overlay */}
@@ -558,7 +2174,7 @@ export default function SequenceDiagramCanvas() {
 
       {/* Help text */}
       <div className="mt-4 text-center text-gray-600 text-sm">
-        <span className="font-medium">Tips:</span> Double-click actors to rename • Use &quot;Add Message&quot; buttons to draw arrows • Click between two arrows to toggle activation • Double-click activation text to add labels • Use arrow buttons to reorder actors
+        <span className="font-medium">Tips:</span> Double-click actors to rename • Use &quot;Add Message&quot; buttons to draw arrows • Click between two arrows to toggle activation • Double-click activation text to add labels • Use arrow buttons to reorder actors • Select a fragment before adding another to nest it; double-click its tab to change the operator • Select an actor or message and click &quot;Note&quot; to annotate it
       </div>
     </div>
   );
@@ -1,36 +1,96 @@
 'use client';
 
-import { DEFAULT_COLORS, MessageType } from '@/types/diagram';
+import { useState } from 'react';
+import {
+  DEFAULT_COLORS,
+  MessageType,
+  FragmentOperator,
+  FRAGMENT_OPERATORS,
+  SeparatorKind,
+  LifelineKind,
+  LIFELINE_KINDS,
+  AutonumberSettings,
+  NumberingScheme,
+  NUMBERING_SCHEMES,
+} from '@/types/diagram';
+import { ExportFormat, ExportOptions } from '@/lib/ExportFactory';
+import { PdfPageSize, PdfOrientation, PDF_PAGE_SIZES, PDF_ORIENTATIONS } from '@/lib/PdfDocument';
 
 interface SequenceToolbarProps {
   diagramName: string;
   onDiagramNameChange: (name: string) => void;
-  onAddLifeline: (color: string) => void;
+  parentDiagramName?: string; // Diagram an opened ref leads back to
+  onBackToParent: () => void;
+  onAddLifeline: (color: string, kind: LifelineKind) => void;
   isAddMessageMode: boolean;
   messageType: MessageType;
   onToggleAddMessageMode: (type: MessageType) => void;
   addMessageModeMessage: string;
+  autonumber: AutonumberSettings;
+  onAutonumberChange: (settings: AutonumberSettings) => void;
+  autoActivate: boolean;
+  onAutoActivateChange: (enabled: boolean) => void;
+  onApplyAutoActivation: () => void;
+  onAddFragment: (operator: FragmentOperator) => void;
+  onAddNote: () => void;
+  onAddDuration: () => void;
+  onAddSeparator: (kind: SeparatorKind) => void;
+  onAddRef: () => void;
+  onAddGroup: () => void;
+  onAddActivation: () => void;
+  onToggleDestroy: () => void;
   onClearAll: () => void;
   onSave: () => void;
   onLoad: () => void;
-  onExportPDF: () => void;
+  onExport: (format: ExportFormat, options?: ExportOptions) => void;
 }
 
 export default function SequenceToolbar({
   diagramName,
   onDiagramNameChange,
+  parentDiagramName,
+  onBackToParent,
   onAddLifeline,
   isAddMessageMode,
   messageType,
   onToggleAddMessageMode,
   addMessageModeMessage,
+  autonumber,
+  onAutonumberChange,
+  autoActivate,
+  onAutoActivateChange,
+  onApplyAutoActivation,
+  onAddFragment,
+  onAddNote,
+  onAddDuration,
+  onAddSeparator,
+  onAddRef,
+  onAddGroup,
+  onAddActivation,
+  onToggleDestroy,
   onClearAll,
   onSave,
   onLoad,
-  onExportPDF,
+  onExport,
 }: SequenceToolbarProps) {
+  const [fragmentOperator, setFragmentOperator] = useState<FragmentOperator>('alt');
+  const [lifelineKind, setLifelineKind] = useState<LifelineKind>('participant');
+  const [pageSize, setPageSize] = useState<PdfPageSize>('a4');
+  const [orientation, setOrientation] = useState<PdfOrientation>('portrait');
+
   return (
     <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-xl p-4 mb-4 flex flex-wrap items-center gap-4">
+      {/* Back to the diagram an opened ref came from */}
+      {parentDiagramName !== undefined && (
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+          onClick={onBackToParent}
+          title={`Return to "${parentDiagramName}" with its unsaved changes`}
+        >
+          ← Back
+        </button>
+      )}
+
       {/* Diagram Name Input */}
       <div className="flex items-center gap-2">
         <label htmlFor="diagram-name" className="text-gray-700 font-medium">Name:</label>
@@ -50,13 +110,26 @@ export default function SequenceToolbar({
       {/* Add Actor/Lifeline */}
       <div className="flex items-center gap-2">
         <span className="text-gray-700 font-medium">Add Actor:</span>
+        <select
+          value={lifelineKind}
+          onChange={(e) => setLifelineKind(e.target.value as LifelineKind)}
+          className="px-2 py-1.5 rounded-lg border border-gray-300 text-gray-700 font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Shape of the new actor"
+          aria-label="Actor shape"
+        >
+          {LIFELINE_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {kind}
+            </option>
+          ))}
+        </select>
         <div className="flex gap-2">
           {DEFAULT_COLORS.map((color) => (
             <button
               key={color}
               className="w-8 h-8 rounded-full shadow-md hover:scale-110 transition-transform border-2 border-white hover:border-gray-200"
               style={{ backgroundColor: color }}
-              onClick={() => onAddLifeline(color)}
+              onClick={() => onAddLifeline(color, lifelineKind)}
               title="Add actor with this color"
             />
           ))}
@@ -82,7 +155,23 @@ export default function SequenceToolbar({
           </svg>
           Request
         </button>
-        
+
+        <button
+          className={`px-3 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+            isAddMessageMode && messageType === 'async'
+              ? 'bg-teal-600 text-white hover:bg-teal-700'
+              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+          onClick={() => onToggleAddMessageMode('async')}
+          title="Add asynchronous fire-and-forget message (solid line, open arrowhead)"
+        >
+          <svg className="w-5 h-4" viewBox="0 0 24 16" fill="none">
+            <line x1="2" y1="8" x2="21" y2="8" stroke="currentColor" strokeWidth="2" />
+            <polyline points="16,4 22,8 16,12" fill="none" stroke="currentColor" strokeWidth="2" />
+          </svg>
+          Async
+        </button>
+
         <button
           className={`px-3 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
             isAddMessageMode && messageType === 'return'
@@ -98,6 +187,23 @@ export default function SequenceToolbar({
           </svg>
           Return
         </button>
+
+        <button
+          className={`px-3 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 ${
+            isAddMessageMode && messageType === 'create'
+              ? 'bg-amber-600 text-white hover:bg-amber-700'
+              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+          onClick={() => onToggleAddMessageMode('create')}
+          title="Add a create message; the destination actor starts at this row (dashed arrow to its header)"
+        >
+          <svg className="w-5 h-4" viewBox="0 0 24 16" fill="none">
+            <line x1="2" y1="8" x2="15" y2="8" stroke="currentColor" strokeWidth="2" strokeDasharray="4,2" />
+            <polyline points="11,4 15,8 11,12" fill="none" stroke="currentColor" strokeWidth="2" />
+            <rect x="17" y="3" width="6" height="10" rx="1" fill="currentColor" />
+          </svg>
+          Create
+        </button>
       </div>
       
       {isAddMessageMode && (
@@ -106,6 +212,220 @@ export default function SequenceToolbar({
         </span>
       )}
       
+      <div className="h-8 w-px bg-gray-300" />
+
+      {/* Autonumbering */}
+      <div className="flex items-center gap-2">
+        <button
+          className={`px-3 py-2 rounded-lg font-medium transition-colors ${
+            autonumber.enabled
+              ? 'bg-blue-600 text-white hover:bg-blue-700'
+              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+          onClick={() => onAutonumberChange({ ...autonumber, enabled: !autonumber.enabled })}
+          title="Toggle automatic message numbering"
+        >
+          1.2.
+        </button>
+        {autonumber.enabled && (
+          <>
+            <select
+              value={autonumber.scheme}
+              onChange={(e) => onAutonumberChange({ ...autonumber, scheme: e.target.value as NumberingScheme })}
+              className="px-2 py-1.5 rounded-lg border border-gray-300 text-gray-700 font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Flat numbering (1, 2, 3) or hierarchical numbering by call nesting (1, 1.1, 2)"
+              aria-label="Numbering scheme"
+            >
+              {NUMBERING_SCHEMES.map((scheme) => (
+                <option key={scheme} value={scheme}>
+                  {scheme}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={autonumber.start}
+              onChange={(e) => {
+                const start = parseInt(e.target.value, 10);
+                if (!Number.isNaN(start)) {
+                  onAutonumberChange({ ...autonumber, start });
+                }
+              }}
+              className="px-2 py-1.5 rounded-lg border border-gray-300 text-gray-700 font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 w-16"
+              title="First number"
+              aria-label="First number"
+            />
+            <input
+              type="text"
+              value={autonumber.format}
+              onChange={(e) => onAutonumberChange({ ...autonumber, format: e.target.value })}
+              className="px-2 py-1.5 rounded-lg border border-gray-300 text-gray-700 font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 w-20"
+              placeholder="{n}."
+              title='Number format; "{n}" is replaced by the number'
+              aria-label="Number format"
+            />
+          </>
+        )}
+      </div>
+
+      <div className="h-8 w-px bg-gray-300" />
+
+      {/* Add Combined Fragment */}
+      <div className="flex items-center gap-2">
+        <label htmlFor="fragment-operator" className="text-gray-700 font-medium">Fragment:</label>
+        <select
+          id="fragment-operator"
+          value={fragmentOperator}
+          onChange={(e) => setFragmentOperator(e.target.value as FragmentOperator)}
+          className="px-2 py-1.5 rounded-lg border border-gray-300 text-gray-700 font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Interaction operator for the new fragment"
+        >
+          {FRAGMENT_OPERATORS.map((operator) => (
+            <option key={operator} value={operator}>
+              {operator}
+            </option>
+          ))}
+        </select>
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors flex items-center gap-2"
+          onClick={() => onAddFragment(fragmentOperator)}
+          title="Frame the selected message, nest inside the selected fragment, or frame the whole diagram"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="4" width="18" height="16" rx="1" />
+            <polyline points="3,10 9,10 11,8 11,4" />
+          </svg>
+          Add
+        </button>
+      </div>
+
+      {/* Add Activation */}
+      <button
+        className="px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors flex items-center gap-2"
+        onClick={onAddActivation}
+        title="Add an activation to the selected actor (or the target of the selected message); overlapping activations stack"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="7" y="3" width="6" height="18" rx="1" />
+          <rect x="11" y="8" width="6" height="8" rx="1" fill="currentColor" />
+        </svg>
+        Activation
+      </button>
+
+      {/* Auto-activation: keep blocks inferred from calls and returns, or apply the inference once */}
+      <div className="flex items-center gap-1">
+        <button
+          className={`px-3 py-2 rounded-lg font-medium transition-colors ${
+            autoActivate
+              ? 'bg-blue-600 text-white hover:bg-blue-700'
+              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+          }`}
+          onClick={() => onAutoActivateChange(!autoActivate)}
+          title="Keep activation blocks inferred from calls and returns as messages change; clicked blocks override the inference"
+        >
+          Auto
+        </button>
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          onClick={onApplyAutoActivation}
+          title="Replace the activated blocks with the ones inferred from calls and returns, once"
+        >
+          Infer
+        </button>
+      </div>
+
+      {/* Destroy lifeline */}
+      <button
+        className="px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors flex items-center gap-2"
+        onClick={onToggleDestroy}
+        title="End the selected actor's lifeline with a destroy marker, or remove its marker"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="12" y1="2" x2="12" y2="12" strokeDasharray="3,2" />
+          <path d="M7 13l10 8M17 13L7 21" strokeWidth="2.5" />
+        </svg>
+        Destroy
+      </button>
+
+      {/* Add Note */}
+      <button
+        className="px-3 py-2 rounded-lg font-medium bg-yellow-100 text-yellow-800 hover:bg-yellow-200 transition-colors flex items-center gap-2"
+        onClick={onAddNote}
+        title="Add a note to the selected actor or message"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M4 3h11l5 5v13H4z" />
+          <polyline points="15,3 15,8 20,8" />
+        </svg>
+        Note
+      </button>
+
+      {/* Add Duration Constraint */}
+      <button
+        className="px-3 py-2 rounded-lg font-medium bg-amber-100 text-amber-800 hover:bg-amber-200 transition-colors flex items-center gap-2"
+        onClick={onAddDuration}
+        title="Add a duration constraint from the selected message to its return (or the next message)"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="12" y1="3" x2="12" y2="21" />
+          <line x1="8" y1="3" x2="16" y2="3" />
+          <line x1="8" y1="21" x2="16" y2="21" />
+        </svg>
+        Duration
+      </button>
+
+      {/* Add Group */}
+      <button
+        className="px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors flex items-center gap-2"
+        onClick={onAddGroup}
+        title="Put the selected actor in a new group box; use the box's arrow handles to add neighbouring actors"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="2" y="3" width="20" height="18" rx="2" strokeDasharray="3,2" />
+          <rect x="6" y="8" width="4" height="4" rx="1" />
+          <rect x="14" y="8" width="4" height="4" rx="1" />
+        </svg>
+        Group
+      </button>
+
+      {/* Add Divider / Delay */}
+      <div className="flex items-center gap-2">
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors flex items-center gap-2"
+          onClick={() => onAddSeparator('divider')}
+          title="Add a section divider above the selected message (or at the end)"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <line x1="2" y1="10" x2="22" y2="10" />
+            <line x1="2" y1="14" x2="22" y2="14" />
+          </svg>
+          Divider
+        </button>
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors flex items-center gap-2"
+          onClick={() => onAddSeparator('delay')}
+          title="Add a delay (time gap) above the selected message (or at the end)"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor">
+            <circle cx="5" cy="12" r="2" />
+            <circle cx="12" cy="12" r="2" />
+            <circle cx="19" cy="12" r="2" />
+          </svg>
+          Delay
+        </button>
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors flex items-center gap-2"
+          onClick={onAddRef}
+          title="Add a ref to another diagram above the selected message (or at the end), over the selected actor or all actors"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="2" y="5" width="20" height="14" rx="1" />
+            <polyline points="2,10 8,10 10,8 10,5" />
+          </svg>
+          Ref
+        </button>
+      </div>
+
       <div className="h-8 w-px bg-gray-300" />
       
       {/* Clear All */}
@@ -136,7 +456,7 @@ export default function SequenceToolbar({
         <button
           className="px-3 py-2 rounded-lg font-medium bg-blue-100 text-blue-700 hover:bg-blue-200 transition-colors flex items-center gap-2"
           onClick={onLoad}
-          title="Load diagram from .buml file"
+          title="Load diagram from a .buml file or an exported SVG, or import a PlantUML (.puml) or Mermaid (.mmd) file"
         >
           <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <path d="M3 15v4c0 1.1.9 2 2 2h14a2 2 0 002-2v-4M17 8l-5-5-5 5M12 3v12" />
@@ -148,20 +468,98 @@ export default function SequenceToolbar({
       <div className="h-8 w-px bg-gray-300" />
 
       {/* Export */}
-      <button
-        className="px-3 py-2 rounded-lg font-medium bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors flex items-center gap-2"
-        onClick={onExportPDF}
-        title="Export diagram as image"
-      >
-        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-          <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z" />
-          <polyline points="14,2 14,8 20,8" />
-          <line x1="16" y1="13" x2="8" y2="13" />
-          <line x1="16" y1="17" x2="8" y2="17" />
-          <polyline points="10,9 9,9 8,9" />
-        </svg>
-        Export
-      </button>
+      <div className="flex items-center gap-2">
+        <select
+          value={pageSize}
+          onChange={(e) => setPageSize(e.target.value as PdfPageSize)}
+          className="px-2 py-1.5 rounded-lg border border-gray-300 text-gray-700 font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Page size of the PDF"
+          aria-label="PDF page size"
+        >
+          {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map((size) => (
+            <option key={size} value={size}>
+              {PDF_PAGE_SIZES[size].label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={orientation}
+          onChange={(e) => setOrientation(e.target.value as PdfOrientation)}
+          className="px-2 py-1.5 rounded-lg border border-gray-300 text-gray-700 font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Page orientation of the PDF"
+          aria-label="PDF orientation"
+        >
+          {PDF_ORIENTATIONS.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors flex items-center gap-2"
+          onClick={() => onExport('pdf', { pageSize, orientation })}
+          title="Export diagram as a PDF, split across pages between message rows"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8z" />
+            <polyline points="14,2 14,8 20,8" />
+            <line x1="16" y1="13" x2="8" y2="13" />
+            <line x1="16" y1="17" x2="8" y2="17" />
+            <polyline points="10,9 9,9 8,9" />
+          </svg>
+          PDF
+        </button>
+
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors flex items-center gap-2"
+          onClick={() => onExport('png')}
+          title="Export diagram as a PNG image"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="3" width="18" height="18" rx="2" />
+            <circle cx="8.5" cy="8.5" r="1.5" />
+            <polyline points="21,15 16,10 5,21" />
+          </svg>
+          PNG
+        </button>
+
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors flex items-center gap-2"
+          onClick={() => onExport('svg')}
+          title="Export diagram as a vector SVG image that can be loaded again"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M12 19l7-7 3 3-7 7-3-3z" />
+            <path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z" />
+            <circle cx="11" cy="11" r="2" />
+          </svg>
+          SVG
+        </button>
+
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors flex items-center gap-2"
+          onClick={() => onExport('plantuml')}
+          title="Export diagram as PlantUML text (.puml)"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="8,6 3,12 8,18" />
+            <polyline points="16,6 21,12 16,18" />
+          </svg>
+          PlantUML
+        </button>
+
+        <button
+          className="px-3 py-2 rounded-lg font-medium bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors flex items-center gap-2"
+          onClick={() => onExport('mermaid')}
+          title="Export diagram as a Mermaid sequenceDiagram (.mmd)"
+        >
+          <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <polyline points="8,6 3,12 8,18" />
+            <polyline points="16,6 21,12 16,18" />
+          </svg>
+          Mermaid
+        </button>
+      </div>
     </div>
   );
 }
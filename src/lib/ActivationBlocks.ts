@@ -0,0 +1,153 @@
+/**
+ * ActivationBlocks - The toggleable blocks between consecutive messages of a lifeline.
+ *
+ * Shared by the SVG canvas, the exporters and the .buml parser. A block is
+ * identified by its lifeline and the ids of the messages it runs between,
+ * "lifelineId|startMessageId|endMessageId", so activating it (and its text)
+ * survives inserting, deleting and reordering other messages. Files before
+ * 1.15 keyed blocks by message order, "lifelineId-startOrder-endOrder".
+ */
+
+import { Lifeline, Message, ActivationBlockData } from '@/types/diagram';
+
+const KEY_SEPARATOR = '|';
+const LEGACY_KEY_PATTERN = /^(.*)-(\d+)-(\d+)$/;
+
+// A block between two consecutive messages that touch a lifeline
+export interface ActivationBlock {
+  lifelineId: string;
+  startMessageId: string;
+  endMessageId: string;
+  startMessageOrder: number;
+  endMessageOrder: number;
+}
+
+type BlockIdentity = Pick<ActivationBlock, 'lifelineId' | 'startMessageId' | 'endMessageId'>;
+
+/**
+ * Returns the key a block's data is stored under
+ */
+export function getBlockKey(block: BlockIdentity): string {
+  return [block.lifelineId, block.startMessageId, block.endMessageId].join(KEY_SEPARATOR);
+}
+
+/**
+ * Splits a block key into its lifeline and message ids, or returns undefined for other keys
+ */
+export function parseBlockKey(key: string): BlockIdentity | undefined {
+  const parts = key.split(KEY_SEPARATOR);
+  if (parts.length !== 3) return undefined;
+  const [lifelineId, startMessageId, endMessageId] = parts;
+  return { lifelineId, startMessageId, endMessageId };
+}
+
+/**
+ * Converts a pre-1.15 order-based key to an id-based one, or returns undefined when its messages are missing
+ */
+export function migrateLegacyBlockKey(key: string, messages: Message[]): string | undefined {
+  const match = key.match(LEGACY_KEY_PATTERN);
+  if (!match) return undefined;
+  const start = messages.find((m) => m.order === Number(match[2]));
+  const end = messages.find((m) => m.order === Number(match[3]));
+  if (!start || !end) return undefined;
+  return getBlockKey({ lifelineId: match[1], startMessageId: start.id, endMessageId: end.id });
+}
+
+/**
+ * Returns every block: one between each pair of consecutive messages touching a lifeline
+ */
+export function getActivationBlocks(lifelines: Lifeline[], messages: Message[]): ActivationBlock[] {
+  const blocks: ActivationBlock[] = [];
+  const sorted = [...messages].sort((a, b) => a.order - b.order);
+
+  lifelines.forEach((lifeline) => {
+    // A self-message touches the lifeline at both ends but only occupies one order
+    const touching = sorted.filter((m) => m.fromLifelineId === lifeline.id || m.toLifelineId === lifeline.id);
+    for (let i = 0; i < touching.length - 1; i++) {
+      blocks.push({
+        lifelineId: lifeline.id,
+        startMessageId: touching[i].id,
+        endMessageId: touching[i + 1].id,
+        startMessageOrder: touching[i].order,
+        endMessageOrder: touching[i + 1].order,
+      });
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Drops the data of blocks whose lifeline or messages no longer exist
+ */
+export function removeStaleBlocks(
+  activatedBlocks: Map<string, ActivationBlockData>,
+  lifelines: Lifeline[],
+  messages: Message[]
+): Map<string, ActivationBlockData> {
+  const lifelineIds = new Set(lifelines.map((l) => l.id));
+  const messageIds = new Set(messages.map((m) => m.id));
+  const result = new Map<string, ActivationBlockData>();
+  activatedBlocks.forEach((data, key) => {
+    const block = parseBlockKey(key);
+    if (
+      block &&
+      lifelineIds.has(block.lifelineId) &&
+      messageIds.has(block.startMessageId) &&
+      messageIds.has(block.endMessageId)
+    ) {
+      result.set(key, data);
+    }
+  });
+  return result;
+}
+
+/**
+ * Drops the data of blocks whose messages are no longer consecutive on their
+ * lifeline, e.g. after one of them was moved to another row
+ */
+export function removeUnspannedBlocks(
+  activatedBlocks: Map<string, ActivationBlockData>,
+  blocks: ActivationBlock[]
+): Map<string, ActivationBlockData> {
+  const blockKeys = new Set(blocks.map(getBlockKey));
+  const result = new Map<string, ActivationBlockData>();
+  activatedBlocks.forEach((data, key) => {
+    if (blockKeys.has(key)) {
+      result.set(key, data);
+    }
+  });
+  return result;
+}
+
+/**
+ * Drops the blocks that start or end at a deleted message. Where the message
+ * split an active stretch of a lifeline, the block joining its neighbours stays active.
+ */
+export function removeMessageFromBlocks(
+  activatedBlocks: Map<string, ActivationBlockData>,
+  blocks: ActivationBlock[],
+  messageId: string
+): Map<string, ActivationBlockData> {
+  const result = new Map<string, ActivationBlockData>();
+  activatedBlocks.forEach((data, key) => {
+    const block = parseBlockKey(key);
+    if (block?.startMessageId !== messageId && block?.endMessageId !== messageId) {
+      result.set(key, data);
+    }
+  });
+
+  blocks
+    .filter((block) => block.endMessageId === messageId)
+    .forEach((before) => {
+      const after = blocks.find((b) => b.lifelineId === before.lifelineId && b.startMessageId === messageId);
+      const beforeData = activatedBlocks.get(getBlockKey(before));
+      const afterData = after ? activatedBlocks.get(getBlockKey(after)) : undefined;
+      if (after && beforeData?.isActive && afterData?.isActive) {
+        const joined = { lifelineId: before.lifelineId, startMessageId: before.startMessageId, endMessageId: after.endMessageId };
+        result.set(getBlockKey(joined), { isActive: true, text: beforeData.text ?? afterData.text });
+      }
+    });
+
+  return result;
+}
@@ -0,0 +1,95 @@
+/**
+ * ActivationInference - Derives activation blocks from the call/return structure.
+ *
+ * Shared by the SVG canvas and the exporters. A sync call activates its
+ * callee from the call until the return answering it, and keeps the caller
+ * active while it waits. A return answers the call named by its replyTo, or
+ * else the innermost open call going the other way; calls that are never
+ * answered stay inactive. The result is mapped onto the toggleable blocks
+ * between consecutive messages of each lifeline.
+ */
+
+import { Lifeline, Message, ActivationBlockData, DIAGRAM_BOUNDARY_ID, SequenceDiagramState } from '@/types/diagram';
+import { ActivationSpan } from '@/lib/ActivationLayout';
+import { getActivationBlocks, getBlockKey } from '@/lib/ActivationBlocks';
+
+/**
+ * Returns the span from each answered sync call to its return, on both the callee and the caller
+ */
+export function inferActivationSpans(messages: Message[]): ActivationSpan[] {
+  const spans: ActivationSpan[] = [];
+  const pairedCallIds = new Set(messages.map((m) => m.replyTo).filter((id): id is string => id !== undefined));
+  const openCalls: Message[] = []; // Unanswered sync calls, innermost last
+
+  for (const message of [...messages].sort((a, b) => a.order - b.order)) {
+    if (message.type === 'sync' && message.fromLifelineId !== message.toLifelineId) {
+      openCalls.push(message);
+      continue;
+    }
+    if (message.type !== 'return') continue;
+
+    let index = -1;
+    for (let i = openCalls.length - 1; i >= 0 && index === -1; i--) {
+      const call = openCalls[i];
+      const answers = message.replyTo
+        ? call.id === message.replyTo
+        : !pairedCallIds.has(call.id) &&
+          call.toLifelineId === message.fromLifelineId &&
+          call.fromLifelineId === message.toLifelineId;
+      if (answers) index = i;
+    }
+    if (index === -1) continue;
+
+    const [call] = openCalls.splice(index, 1);
+    for (const lifelineId of [call.toLifelineId, call.fromLifelineId]) {
+      if (lifelineId !== DIAGRAM_BOUNDARY_ID) {
+        spans.push({ lifelineId, startMessageOrder: call.order, endMessageOrder: message.order });
+      }
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Returns the data of the blocks covered by inferred spans, keyed like stored blocks
+ */
+export function inferActivatedBlocks(lifelines: Lifeline[], messages: Message[]): Map<string, ActivationBlockData> {
+  const spans = inferActivationSpans(messages);
+  const blocks = new Map<string, ActivationBlockData>();
+  getActivationBlocks(lifelines, messages)
+    .filter((block) =>
+      spans.some(
+        (s) =>
+          s.lifelineId === block.lifelineId &&
+          s.startMessageOrder <= block.startMessageOrder &&
+          block.endMessageOrder <= s.endMessageOrder
+      )
+    )
+    .forEach((block) => blocks.set(getBlockKey(block), { isActive: true }));
+  return blocks;
+}
+
+/**
+ * Lays manual overrides over inferred blocks: an override turns its block on
+ * or off and carries its text; blocks without one follow the inference
+ */
+export function applyBlockOverrides(
+  inferred: Map<string, ActivationBlockData>,
+  overrides: Map<string, ActivationBlockData>
+): Map<string, ActivationBlockData> {
+  const resolved = new Map(inferred);
+  overrides.forEach((data, key) => resolved.set(key, data));
+  return resolved;
+}
+
+/**
+ * Returns the blocks to draw; with auto-activation on, the stored blocks are overrides of the inferred ones
+ */
+export function resolveActivatedBlocks(
+  state: SequenceDiagramState,
+  activatedBlocks: Map<string, ActivationBlockData>
+): Map<string, ActivationBlockData> {
+  if (!state.autoActivate) return activatedBlocks;
+  return applyBlockOverrides(inferActivatedBlocks(state.lifelines, state.messages), activatedBlocks);
+}
@@ -0,0 +1,97 @@
+/**
+ * ActivationLayout - Computes nesting levels for stacked activation bars.
+ *
+ * Activations on the same lifeline may overlap (e.g. a lifeline handling a
+ * nested callback while it is active for a whole request). Each overlapping
+ * activation is drawn one level further right, and messages attach to the
+ * outer edge of the innermost bar active at their row.
+ */
+
+import {
+  Lifeline,
+  LIFELINE_HEADER_WIDTH,
+  LIFELINE_SPACING,
+  LIFELINE_START_X,
+  ACTIVATION_WIDTH,
+  ACTIVATION_NEST_OFFSET,
+} from '@/types/diagram';
+
+// Anything occupying a range of message orders on a lifeline
+export interface ActivationSpan {
+  lifelineId: string;
+  startMessageOrder: number;
+  endMessageOrder: number;
+}
+
+/**
+ * Computes the nesting level of each span (returned in input order).
+ * Spans are stacked in start order, longest first; a span's level is the
+ * number of earlier spans on the same lifeline still open when it starts.
+ */
+export function computeNestingLevels(spans: ActivationSpan[]): number[] {
+  const indices = spans.map((_, i) => i);
+  indices.sort((a, b) => {
+    const spanA = spans[a];
+    const spanB = spans[b];
+    return (
+      spanA.startMessageOrder - spanB.startMessageOrder ||
+      spanB.endMessageOrder - spanA.endMessageOrder ||
+      a - b
+    );
+  });
+
+  const levels = new Array<number>(spans.length).fill(0);
+  indices.forEach((index, position) => {
+    const span = spans[index];
+    levels[index] = indices
+      .slice(0, position)
+      .filter((other) => {
+        const earlier = spans[other];
+        return earlier.lifelineId === span.lifelineId && earlier.endMessageOrder > span.startMessageOrder;
+      }).length;
+  });
+  return levels;
+}
+
+/**
+ * Returns the level of the innermost span active on a lifeline at a message order (0 when none)
+ */
+export function getAttachmentLevel(
+  spans: ActivationSpan[],
+  levels: number[],
+  lifelineId: string,
+  order: number
+): number {
+  let level = 0;
+  spans.forEach((span, i) => {
+    if (span.lifelineId === lifelineId && span.startMessageOrder <= order && span.endMessageOrder >= order) {
+      level = Math.max(level, levels[i]);
+    }
+  });
+  return level;
+}
+
+/**
+ * Returns the level a new span starting at the given order would be stacked at
+ */
+export function getStackLevel(spans: ActivationSpan[], lifelineId: string, startOrder: number): number {
+  return spans.filter(
+    (span) =>
+      span.lifelineId === lifelineId &&
+      span.startMessageOrder <= startOrder &&
+      span.endMessageOrder > startOrder
+  ).length;
+}
+
+/**
+ * Returns the left x of an activation bar at the given nesting level
+ */
+export function getActivationBarX(lifeline: Lifeline, level: number): number {
+  return (
+    LIFELINE_START_X +
+    lifeline.order * LIFELINE_SPACING +
+    LIFELINE_HEADER_WIDTH / 2 -
+    ACTIVATION_WIDTH / 2 +
+    level * ACTIVATION_NEST_OFFSET
+  );
+}
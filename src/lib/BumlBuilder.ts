@@ -11,7 +11,30 @@ import {
   Message,
   Activation,
   ActivationBlockData,
+  Fragment,
+  Note,
+  Separator,
+  SEPARATOR_KINDS,
+  LifelineGroup,
+  DurationConstraint,
+  DURATION_SIDES,
+  AutonumberSettings,
+  DEFAULT_AUTONUMBER,
+  NUMBERING_SCHEMES,
+  LIFELINE_KINDS,
+  MESSAGE_TYPES,
+  DIAGRAM_BOUNDARY_ID,
+  FRAGMENT_OPERATORS,
+  NOTE_POSITIONS,
+  MESSAGE_PROTOCOLS,
+  HTTP_METHODS,
 } from '@/types/diagram';
+import { isValidStatus } from '@/lib/MessagePayload';
+import { isValidReply } from '@/lib/MessagePairing';
+import { parseBlockKey, migrateLegacyBlockKey } from '@/lib/ActivationBlocks';
+import { ImportedDiagram, ImportWarning } from '@/lib/TextFormats';
+import { parsePlantUml } from '@/lib/PlantUml';
+import { parseMermaid } from '@/lib/Mermaid';
 
 // Interface for the diagram builder
 interface IDiagramBuilder {
@@ -19,6 +42,13 @@ interface IDiagramBuilder {
   addLifeline(lifeline: Lifeline): IDiagramBuilder;
   addMessage(message: Message): IDiagramBuilder;
   addActivation(activation: Activation): IDiagramBuilder;
+  addFragment(fragment: Fragment): IDiagramBuilder;
+  addNote(note: Note): IDiagramBuilder;
+  addSeparator(separator: Separator): IDiagramBuilder;
+  addGroup(group: LifelineGroup): IDiagramBuilder;
+  addDuration(duration: DurationConstraint): IDiagramBuilder;
+  setAutonumber(settings: AutonumberSettings): IDiagramBuilder;
+  setAutoActivate(enabled: boolean): IDiagramBuilder;
   setActivatedBlocks(blocks: string[]): IDiagramBuilder;
   setActivatedBlocksData(blocksData: Record<string, ActivationBlockData>): IDiagramBuilder;
   build(): BumlDiagram;
@@ -30,10 +60,17 @@ export interface BumlDiagram {
   activatedBlocks: string[];
   activatedBlocksData?: Record<string, ActivationBlockData>;
   name?: string;
+  references?: Record<string, BumlDiagram>; // Loaded diagrams keyed by the ref target that names them
+}
+
+// A .buml file available for resolving ref targets
+export interface BumlSourceFile {
+  path: string; // File name, or path relative to the selected folder
+  content: string;
 }
 
 // File format version for future compatibility
-export const BUML_VERSION = '1.1';
+export const BUML_VERSION = '1.15';
 
 // Documentation for coding agents
 export interface BumlDocumentation {
@@ -42,6 +79,13 @@ export interface BumlDocumentation {
     lifelines: string;
     messages: string;
     activations: string;
+    fragments: string;
+    notes: string;
+    separators: string;
+    groups: string;
+    durations: string;
+    autonumber: string;
+    autoActivate: string;
     activatedBlocks: string;
     activatedBlocksData?: string;
   };
@@ -56,6 +100,13 @@ export interface BumlFileFormat {
     lifelines: Lifeline[];
     messages: Message[];
     activations: Activation[];
+    fragments?: Fragment[]; // Added in 1.2
+    notes?: Note[]; // Added in 1.3
+    autonumber?: AutonumberSettings; // Added in 1.7
+    separators?: Separator[]; // Added in 1.8
+    groups?: LifelineGroup[]; // Added in 1.9
+    durations?: DurationConstraint[]; // Added in 1.12
+    autoActivate?: boolean; // Added in 1.14
     activatedBlocks: string[];
     activatedBlocksData?: Record<string, ActivationBlockData>;
   };
@@ -74,6 +125,13 @@ export class BumlBuilder implements IDiagramBuilder {
   private lifelines: Lifeline[] = [];
   private messages: Message[] = [];
   private activations: Activation[] = [];
+  private fragments: Fragment[] = [];
+  private notes: Note[] = [];
+  private separators: Separator[] = [];
+  private groups: LifelineGroup[] = [];
+  private durations: DurationConstraint[] = [];
+  private autonumber: AutonumberSettings = { ...DEFAULT_AUTONUMBER };
+  private autoActivate = false;
   private activatedBlocks: string[] = [];
   private activatedBlocksData: Record<string, ActivationBlockData> = {};
 
@@ -88,6 +146,13 @@ export class BumlBuilder implements IDiagramBuilder {
     this.lifelines = [];
     this.messages = [];
     this.activations = [];
+    this.fragments = [];
+    this.notes = [];
+    this.separators = [];
+    this.groups = [];
+    this.durations = [];
+    this.autonumber = { ...DEFAULT_AUTONUMBER };
+    this.autoActivate = false;
     this.activatedBlocks = [];
     this.activatedBlocksData = {};
   }
@@ -116,6 +181,62 @@ export class BumlBuilder implements IDiagramBuilder {
     return this;
   }
 
+  /**
+   * Adds a combined fragment to the diagram
+   */
+  addFragment(fragment: Fragment): IDiagramBuilder {
+    this.fragments.push(fragment);
+    return this;
+  }
+
+  /**
+   * Adds a note to the diagram
+   */
+  addNote(note: Note): IDiagramBuilder {
+    this.notes.push(note);
+    return this;
+  }
+
+  /**
+   * Adds a divider or delay row to the diagram
+   */
+  addSeparator(separator: Separator): IDiagramBuilder {
+    this.separators.push(separator);
+    return this;
+  }
+
+  /**
+   * Adds a box grouping adjacent lifelines
+   */
+  addGroup(group: LifelineGroup): IDiagramBuilder {
+    this.groups.push(group);
+    return this;
+  }
+
+  /**
+   * Adds a duration constraint between two messages
+   */
+  addDuration(duration: DurationConstraint): IDiagramBuilder {
+    this.durations.push(duration);
+    return this;
+  }
+
+  /**
+   * Sets the diagram-level autonumbering settings
+   */
+  setAutonumber(settings: AutonumberSettings): IDiagramBuilder {
+    this.autonumber = { ...settings };
+    return this;
+  }
+
+  /**
+   * Sets whether activation blocks are inferred from calls and returns
+   */
+  setAutoActivate(enabled: boolean): IDiagramBuilder {
+    this.autoActivate = enabled;
+    return this;
+  }
+
   /**
    * Sets the activated blocks (legacy format - array of keys)
    */
@@ -141,6 +262,13 @@ export class BumlBuilder implements IDiagramBuilder {
         lifelines: [...this.lifelines],
         messages: [...this.messages],
         activations: [...this.activations],
+        fragments: [...this.fragments],
+        notes: [...this.notes],
+        separators: [...this.separators],
+        groups: [...this.groups],
+        durations: [...this.durations],
+        autonumber: { ...this.autonumber },
+        autoActivate: this.autoActivate,
       },
       activatedBlocks: [...this.activatedBlocks],
       activatedBlocksData: { ...this.activatedBlocksData },
@@ -150,18 +278,23 @@ export class BumlBuilder implements IDiagramBuilder {
 }
 
 /**
- * Converts a Map of activation blocks to serializable arrays/object
+ * Converts a Map of activation blocks to serializable arrays/object. Inactive
+ * entries only matter with auto-activation on, where they turn inferred
+ * blocks off, so they are dropped otherwise.
  */
 function convertActivatedBlocksMapToSerializable(
-  activatedBlocks: Map<string, ActivationBlockData>
+  activatedBlocks: Map<string, ActivationBlockData>,
+  autoActivate: boolean
 ): { blockKeys: string[]; blockData: Record<string, ActivationBlockData> } {
   const blockKeys: string[] = [];
   const blockData: Record<string, ActivationBlockData> = {};
   activatedBlocks.forEach((data, key) => {
     if (data.isActive) {
       blockKeys.push(key);
-      blockData[key] = data;
+    } else if (!autoActivate) {
+      return;
     }
+    blockData[key] = data;
   });
   return { blockKeys, blockData };
 }
@@ -197,6 +330,37 @@ export class BumlDirector {
       this.builder.addActivation(activation);
     }
 
+    // Add all combined fragments
+    for (const fragment of fileContent.diagram.fragments ?? []) {
+      this.builder.addFragment(fragment);
+    }
+
+    // Add all notes
+    for (const note of fileContent.diagram.notes ?? []) {
+      this.builder.addNote(note);
+    }
+
+    // Add all dividers and delays
+    for (const separator of fileContent.diagram.separators ?? []) {
+      this.builder.addSeparator(separator);
+    }
+
+    // Add all lifeline groups
+    for (const group of fileContent.diagram.groups ?? []) {
+      this.builder.addGroup(group);
+    }
+
+    // Add all duration constraints
+    for (const duration of fileContent.diagram.durations ?? []) {
+      this.builder.addDuration(duration);
+    }
+
+    // Set autonumbering
+    this.builder.setAutonumber(fileContent.diagram.autonumber ?? DEFAULT_AUTONUMBER);
+
+    // Set auto-activation
+    this.builder.setAutoActivate(fileContent.diagram.autoActivate ?? false);
+
     // Set activated blocks (legacy format)
     this.builder.setActivatedBlocks(fileContent.diagram.activatedBlocks);
 
@@ -208,6 +372,38 @@ export class BumlDirector {
     return this.builder.build();
   }
 
+  /**
+   * Constructs a diagram from one imported from PlantUML or Mermaid text
+   */
+  constructFromImport(document: ImportedDiagram): BumlDiagram {
+    this.builder.reset();
+
+    // Add all lifelines
+    for (const lifeline of document.lifelines) {
+      this.builder.addLifeline(lifeline);
+    }
+
+    // Add all messages
+    for (const message of document.messages) {
+      this.builder.addMessage(message);
+    }
+
+    // activate/deactivate pairs become explicit activations
+    for (const activation of document.activations) {
+      this.builder.addActivation(activation);
+    }
+
+    // Add all notes
+    for (const note of document.notes) {
+      this.builder.addNote(note);
+    }
+
+    // Set autonumbering
+    this.builder.setAutonumber(document.autonumber);
+
+    return this.builder.build();
+  }
+
   /**
    * Constructs a diagram from current state (for serialization)
    */
@@ -232,8 +428,39 @@ export class BumlDirector {
       this.builder.addActivation(activation);
     }
 
+    // Add all combined fragments
+    for (const fragment of state.fragments) {
+      this.builder.addFragment(fragment);
+    }
+
+    // Add all notes
+    for (const note of state.notes) {
+      this.builder.addNote(note);
+    }
+
+    // Add all dividers and delays
+    for (const separator of state.separators) {
+      this.builder.addSeparator(separator);
+    }
+
+    // Add all lifeline groups
+    for (const group of state.groups) {
+      this.builder.addGroup(group);
+    }
+
+    // Add all duration constraints
+    for (const duration of state.durations) {
+      this.builder.addDuration(duration);
+    }
+
+    // Set autonumbering
+    this.builder.setAutonumber(state.autonumber);
+
+    // Set auto-activation
+    this.builder.setAutoActivate(state.autoActivate);
+
     // Set activated blocks (convert Map to arrays/object)
-    const { blockKeys, blockData } = convertActivatedBlocksMapToSerializable(activatedBlocks);
+    const { blockKeys, blockData } = convertActivatedBlocksMapToSerializable(activatedBlocks, state.autoActivate);
     this.builder.setActivatedBlocks(blockKeys);
     this.builder.setActivatedBlocksData(blockData);
 
@@ -252,7 +479,7 @@ export function serializeToBuml(
   const now = new Date().toISOString();
   
   // Convert Map to arrays/object for serialization using utility function
-  const { blockKeys, blockData } = convertActivatedBlocksMapToSerializable(activatedBlocks);
+  const { blockKeys, blockData } = convertActivatedBlocksMapToSerializable(activatedBlocks, state.autoActivate);
 
   const fileFormat: BumlFileFormat = {
     version: BUML_VERSION,
@@ -265,20 +492,73 @@ export function serializeToBuml(
         lifelines:
           'Array of actors/components in the diagram. Each lifeline has: ' +
           'id (unique identifier), name (display label), color (hex color for visual styling), ' +
-          'and order (horizontal position from left to right, 0-indexed).',
+          'order (horizontal position from left to right, 0-indexed), ' +
+          'kind (header shape: "participant", "actor", "database", "queue", "boundary", "control" or "entity"; ' +
+          'defaults to "participant" when missing), and an optional destroyOrder (the row at which the ' +
+          'lifeline ends with an X destroy marker).',
         messages:
           'Array of arrows/communications between lifelines. Each message has: ' +
           'id (unique identifier), fromLifelineId (source actor), toLifelineId (destination actor), ' +
+          `either of which may be "${DIAGRAM_BOUNDARY_ID}" for a found message entering from the left diagram ` +
+          'edge or a lost message leaving through the right one (drawn with a filled dot at the edge), ' +
           'label (method/action name), description (optional details), ' +
-          'type ("sync" for solid arrow requests, "return" for dashed arrow responses), ' +
-          'and order (vertical position representing time sequence, 0-indexed).',
+          'type ("sync" for solid arrow requests, "async" for fire-and-forget messages drawn as a ' +
+          'solid line with an open arrowhead, "return" for dashed arrow responses, "create" for a dashed ' +
+          'arrow ending at the destination\'s header, which is then drawn at that message\'s row), ' +
+          'order (vertical position representing time sequence, 0-indexed), and an optional payload with ' +
+          'the structured details of the call, all fields optional: protocol ("http", "websocket", "grpc" or ' +
+          '"event"), method (HTTP verb), path (URL path, gRPC "Service/Method" or event topic), params ' +
+          '(request params or body schema), status (response status code) and returns (return value or ' +
+          'response schema). The payload is drawn in compact form above the label, e.g. "POST /api/chat { prompt }". ' +
+          'An optional guard holds a condition drawn in brackets before the label, e.g. "[user is logged in] login()". ' +
+          'A return message may set replyTo to the id of the earlier sync call it answers; it must then ' +
+          'go from the call\'s destination back to its source.',
         activations:
-          'Array of activation periods on lifelines (currently managed separately via activatedBlocks).',
+          'Array of explicit activation bars that can span any range of messages. Each activation has: ' +
+          'id, lifelineId, startMessageOrder and endMessageOrder (inclusive), and optional text. ' +
+          'They are drawn in addition to activatedBlocks; overlapping bars on the same lifeline ' +
+          'stack with a horizontal offset per nesting level, and messages attach to the innermost bar.',
+        fragments:
+          'Array of UML combined fragments framing parts of the interaction. Each fragment has: ' +
+          'id, operator ("alt", "opt", "loop", "par", "break" or "critical"), ' +
+          'startLifelineId and endLifelineId (the lifelines at its left and right edges), ' +
+          'operands (contiguous compartments, each with id, guard text, and inclusive ' +
+          'startMessageOrder/endMessageOrder), and an optional parentId when nested inside another fragment.',
+        notes:
+          'Array of folded-corner annotations. Each note has: id, text, ' +
+          'position ("left", "right" or "over" its lifelines), lifelineIds (one or more lifelines; ' +
+          '"over" notes span from the leftmost to the rightmost), messageOrder (the row it sits at), ' +
+          'and an optional messageId. When messageId is set the note follows that message\'s row and endpoints.',
+        separators:
+          'Array of full-width rows between messages. Each separator has: id, kind ("divider" for a ' +
+          'section heading drawn as a double line, "delay" for a time gap where lifelines continue dotted), ' +
+          'text, and beforeMessageOrder (it sits above the message with that order; the message count places ' +
+          'it after the last message). Each separator takes up a row of its own and pushes later messages down. ' +
+          'Kind "ref" is an interaction reference: a frame over the lifelines from startLifelineId to endLifelineId ' +
+          'that stands in for the diagram in the .buml file named by target (a file name or relative path).',
+        groups:
+          'Array of translucent boxes drawn behind lifelines. Each group has: id, title, color, and ' +
+          'lifelineIds (members, which must be adjacent in lifeline order; a lifeline belongs to at most one group).',
+        durations:
+          'Array of timing constraints drawn as vertical dimension lines in the side gutters. Each has: id, ' +
+          'startMessageOrder and endMessageOrder (the two message rows it spans, start before end), label ' +
+          '(e.g. "< 200ms"), and side ("left" or "right" gutter).',
+        autonumber:
+          'Diagram-level message numbering: enabled, scheme ("flat" numbers messages 1, 2, 3 by order; ' +
+          '"hierarchical" follows call nesting, e.g. 1, 1.1, 1.2, 2), start (first top-level number), and ' +
+          'format (prefix template where "{n}" is replaced by the number). Numbers are computed from message ' +
+          'order when drawing and are not part of the labels.',
+        autoActivate:
+          'When true, activation blocks are inferred from the call/return structure: a sync call activates ' +
+          'its callee, and keeps its caller active, until the return answering it. activatedBlocksData then ' +
+          'holds manual overrides laid on top, where isActive false turns an inferred block off.',
         activatedBlocks:
           'Array of strings representing active processing periods on lifelines. ' +
-          'Format: "lifelineId-startMessageOrder-endMessageOrder". ' +
-          'Example: "user-0-2" means the user lifeline is active from message 0 to message 2. ' +
-          'These show when a lifeline is actively processing between two consecutive messages.',
+          'Format: "lifelineId|startMessageId|endMessageId". ' +
+          'Example: "user|msg-1|msg-2" means the user lifeline is active from message msg-1 to message msg-2. ' +
+          'These show when a lifeline is actively processing between two consecutive messages. ' +
+          'Files before 1.15 used message orders ("lifelineId-startMessageOrder-endMessageOrder"); ' +
+          'such keys are converted when loading.',
         activatedBlocksData:
           'Object mapping block keys to their data including isActive status and optional text label. ' +
           'The text property allows adding descriptive text to display on active blocks.',
@@ -294,6 +574,13 @@ export function serializeToBuml(
       lifelines: state.lifelines,
       messages: state.messages,
       activations: state.activations,
+      fragments: state.fragments,
+      notes: state.notes,
+      separators: state.separators,
+      groups: state.groups,
+      durations: state.durations,
+      autonumber: state.autonumber,
+      autoActivate: state.autoActivate,
       activatedBlocks: blockKeys,
       activatedBlocksData: blockData,
     },
@@ -332,14 +619,229 @@ export function parseBumlFile(content: string): BumlFileFormat {
     throw new Error('Invalid .buml file: lifelines must be an array');
   }
 
+  // Lifeline kinds were added in 1.4; older files only have plain participants
+  for (const lifeline of parsed.diagram.lifelines) {
+    if (lifeline && lifeline.kind === undefined) {
+      lifeline.kind = 'participant';
+    } else if (!LIFELINE_KINDS.includes(lifeline?.kind)) {
+      throw new Error(`Invalid .buml file: unknown lifeline kind "${lifeline?.kind}"`);
+    }
+    if (
+      lifeline.destroyOrder !== undefined &&
+      (!Number.isInteger(lifeline.destroyOrder) || lifeline.destroyOrder < 0)
+    ) {
+      throw new Error('Invalid .buml file: lifeline destroyOrder must be a non-negative integer');
+    }
+  }
+
   if (!Array.isArray(parsed.diagram.messages)) {
     throw new Error('Invalid .buml file: messages must be an array');
   }
 
+  // Message endpoints are lifelines, or the diagram edge for found and lost messages
+  const lifelineIds = new Set(parsed.diagram.lifelines.map((l: Lifeline) => l?.id));
+  const isEndpoint = (id: unknown) => id === DIAGRAM_BOUNDARY_ID || lifelineIds.has(id);
+
+  for (const message of parsed.diagram.messages) {
+    if (!MESSAGE_TYPES.includes(message?.type)) {
+      throw new Error(`Invalid .buml file: unknown message type "${message?.type}"`);
+    }
+    if (!isEndpoint(message.fromLifelineId) || !isEndpoint(message.toLifelineId)) {
+      throw new Error('Invalid .buml file: messages must connect existing lifelines or the diagram boundary');
+    }
+    if (message.fromLifelineId === DIAGRAM_BOUNDARY_ID && message.toLifelineId === DIAGRAM_BOUNDARY_ID) {
+      throw new Error('Invalid .buml file: a message cannot both start and end at the diagram boundary');
+    }
+    if (message.guard !== undefined && typeof message.guard !== 'string') {
+      throw new Error('Invalid .buml file: message guard must be a string');
+    }
+    // Payloads were added in 1.11 and are optional
+    if (message.payload !== undefined) {
+      const payload = message.payload;
+      if (typeof payload !== 'object' || payload === null) {
+        throw new Error('Invalid .buml file: message payload must be an object');
+      }
+      if (payload.protocol !== undefined && !MESSAGE_PROTOCOLS.includes(payload.protocol)) {
+        throw new Error(`Invalid .buml file: unknown message protocol "${payload.protocol}"`);
+      }
+      if (payload.method !== undefined && !HTTP_METHODS.includes(payload.method)) {
+        throw new Error(`Invalid .buml file: unknown HTTP method "${payload.method}"`);
+      }
+      if (payload.status !== undefined && (typeof payload.status !== 'number' || !isValidStatus(payload.status))) {
+        throw new Error('Invalid .buml file: message status must be an HTTP status code between 100 and 599');
+      }
+      for (const field of ['path', 'params', 'returns']) {
+        if (payload[field] !== undefined && typeof payload[field] !== 'string') {
+          throw new Error(`Invalid .buml file: message payload ${field} must be a string`);
+        }
+      }
+    }
+  }
+
+  // Reply links were added in 1.13 and are optional
+  const messagesById = new Map(parsed.diagram.messages.map((m: Message) => [m.id, m]));
+  const answeredCallIds = new Set<string>();
+  for (const message of parsed.diagram.messages) {
+    if (message.replyTo === undefined) continue;
+    const call = messagesById.get(message.replyTo) as Message | undefined;
+    if (!call || !isValidReply(message, call)) {
+      throw new Error(
+        'Invalid .buml file: replyTo must name an earlier sync call, answered by a return going back along its path'
+      );
+    }
+    if (answeredCallIds.has(call.id)) {
+      throw new Error('Invalid .buml file: a sync call can only have one return replying to it');
+    }
+    answeredCallIds.add(call.id);
+  }
+
   if (!Array.isArray(parsed.diagram.activations)) {
     parsed.diagram.activations = [];
   }
 
+  for (const activation of parsed.diagram.activations) {
+    if (
+      typeof activation?.lifelineId !== 'string' ||
+      typeof activation.startMessageOrder !== 'number' ||
+      typeof activation.endMessageOrder !== 'number'
+    ) {
+      throw new Error('Invalid .buml file: activations need a lifelineId and numeric message orders');
+    }
+    if (!lifelineIds.has(activation.lifelineId)) {
+      throw new Error('Invalid .buml file: activations must be on existing lifelines');
+    }
+  }
+
+  // Fragments were added in 1.2; older files have none
+  if (!Array.isArray(parsed.diagram.fragments)) {
+    parsed.diagram.fragments = [];
+  }
+
+  for (const fragment of parsed.diagram.fragments) {
+    if (!FRAGMENT_OPERATORS.includes(fragment?.operator)) {
+      throw new Error(`Invalid .buml file: unknown fragment operator "${fragment?.operator}"`);
+    }
+    if (!Array.isArray(fragment.operands) || fragment.operands.length === 0) {
+      throw new Error('Invalid .buml file: fragments must have at least one operand');
+    }
+    if (!lifelineIds.has(fragment.startLifelineId) || !lifelineIds.has(fragment.endLifelineId)) {
+      throw new Error('Invalid .buml file: fragments must span existing lifelines');
+    }
+  }
+
+  // Notes were added in 1.3; older files have none
+  if (!Array.isArray(parsed.diagram.notes)) {
+    parsed.diagram.notes = [];
+  }
+
+  for (const note of parsed.diagram.notes) {
+    if (!NOTE_POSITIONS.includes(note?.position)) {
+      throw new Error(`Invalid .buml file: unknown note position "${note?.position}"`);
+    }
+    if (!Array.isArray(note.lifelineIds)) {
+      note.lifelineIds = [];
+    }
+    if (!note.lifelineIds.every((id: unknown) => lifelineIds.has(id))) {
+      throw new Error('Invalid .buml file: notes must be attached to existing lifelines');
+    }
+  }
+
+  // Dividers and delays were added in 1.8; older files have none
+  if (!Array.isArray(parsed.diagram.separators)) {
+    parsed.diagram.separators = [];
+  }
+
+  for (const separator of parsed.diagram.separators) {
+    if (!SEPARATOR_KINDS.includes(separator?.kind)) {
+      throw new Error(`Invalid .buml file: unknown separator kind "${separator?.kind}"`);
+    }
+    if (!Number.isInteger(separator.beforeMessageOrder) || separator.beforeMessageOrder < 0) {
+      throw new Error('Invalid .buml file: separator beforeMessageOrder must be a non-negative integer');
+    }
+    if (typeof separator.text !== 'string') {
+      separator.text = '';
+    }
+    if (separator.kind === 'ref') {
+      if (!lifelineIds.has(separator.startLifelineId) || !lifelineIds.has(separator.endLifelineId)) {
+        throw new Error('Invalid .buml file: refs must span existing lifelines');
+      }
+      if (typeof separator.target !== 'string') {
+        separator.target = '';
+      }
+    }
+  }
+
+  // Lifeline groups were added in 1.9; older files have none
+  if (!Array.isArray(parsed.diagram.groups)) {
+    parsed.diagram.groups = [];
+  }
+
+  const lifelineOrders = new Map<string, number>(
+    parsed.diagram.lifelines.map((l: Lifeline) => [l.id, l.order] as [string, number])
+  );
+  const groupedLifelineIds = new Set<string>();
+  for (const group of parsed.diagram.groups) {
+    if (typeof group?.title !== 'string' || typeof group.color !== 'string' || !Array.isArray(group.lifelineIds)) {
+      throw new Error('Invalid .buml file: groups need a title, a color and a lifelineIds array');
+    }
+    group.lifelineIds = group.lifelineIds.filter((id: unknown) => lifelineIds.has(id));
+
+    const orders = group.lifelineIds.map((id: string) => lifelineOrders.get(id) as number);
+    if (orders.length > 0 && Math.max(...orders) - Math.min(...orders) !== new Set(orders).size - 1) {
+      throw new Error(`Invalid .buml file: group "${group.title}" must contain adjacent lifelines`);
+    }
+    for (const id of group.lifelineIds) {
+      if (groupedLifelineIds.has(id)) {
+        throw new Error('Invalid .buml file: a lifeline cannot belong to more than one group');
+      }
+      groupedLifelineIds.add(id);
+    }
+  }
+
+  // Duration constraints were added in 1.12; older files have none
+  if (!Array.isArray(parsed.diagram.durations)) {
+    parsed.diagram.durations = [];
+  }
+
+  for (const duration of parsed.diagram.durations) {
+    if (
+      !Number.isInteger(duration?.startMessageOrder) ||
+      !Number.isInteger(duration.endMessageOrder) ||
+      duration.startMessageOrder < 0 ||
+      duration.endMessageOrder <= duration.startMessageOrder
+    ) {
+      throw new Error('Invalid .buml file: durations need integer message orders with the start before the end');
+    }
+    if (!DURATION_SIDES.includes(duration.side)) {
+      throw new Error(`Invalid .buml file: unknown duration side "${duration.side}"`);
+    }
+    if (typeof duration.label !== 'string') {
+      duration.label = '';
+    }
+  }
+
+  // Autonumbering was added in 1.7; older files are unnumbered
+  if (parsed.diagram.autonumber === undefined) {
+    parsed.diagram.autonumber = { ...DEFAULT_AUTONUMBER };
+  } else {
+    const autonumber = parsed.diagram.autonumber;
+    if (
+      typeof autonumber?.enabled !== 'boolean' ||
+      !NUMBERING_SCHEMES.includes(autonumber.scheme) ||
+      !Number.isInteger(autonumber.start) ||
+      typeof autonumber.format !== 'string'
+    ) {
+      throw new Error('Invalid .buml file: autonumber needs enabled, a known scheme, an integer start and a format');
+    }
+  }
+
+  // Auto-activation was added in 1.14; older files use manual blocks only
+  if (parsed.diagram.autoActivate === undefined) {
+    parsed.diagram.autoActivate = false;
+  } else if (typeof parsed.diagram.autoActivate !== 'boolean') {
+    throw new Error('Invalid .buml file: autoActivate must be a boolean');
+  }
+
   if (!Array.isArray(parsed.diagram.activatedBlocks)) {
     parsed.diagram.activatedBlocks = [];
   }
@@ -349,6 +851,36 @@ export function parseBumlFile(content: string): BumlFileFormat {
     parsed.diagram.activatedBlocksData = {};
   }
 
+  // Block keys used message orders before 1.15; convert them to message ids and
+  // drop keys whose messages are missing. Current keys must name an existing
+  // lifeline and messages.
+  const messageIds = new Set(parsed.diagram.messages.map((m: Message) => m.id));
+  const toBlockKey = (key: unknown): string | undefined => {
+    if (typeof key !== 'string') return undefined;
+    const blockKey = parseBlockKey(key) ? key : migrateLegacyBlockKey(key, parsed.diagram.messages);
+    const block = blockKey ? parseBlockKey(blockKey) : undefined;
+    if (
+      block &&
+      (!lifelineIds.has(block.lifelineId) ||
+        !messageIds.has(block.startMessageId) ||
+        !messageIds.has(block.endMessageId))
+    ) {
+      throw new Error(`Invalid .buml file: activation block "${key}" refers to an unknown lifeline or message`);
+    }
+    return blockKey;
+  };
+  parsed.diagram.activatedBlocks = parsed.diagram.activatedBlocks
+    .map(toBlockKey)
+    .filter((key: string | undefined): key is string => key !== undefined);
+  const blocksData: Record<string, ActivationBlockData> = {};
+  for (const [key, data] of Object.entries(parsed.diagram.activatedBlocksData)) {
+    const blockKey = toBlockKey(key);
+    if (blockKey) {
+      blocksData[blockKey] = data as ActivationBlockData;
+    }
+  }
+  parsed.diagram.activatedBlocksData = blocksData;
+
   // Validate metadata
   if (!parsed.metadata) {
     parsed.metadata = {
@@ -361,17 +893,120 @@ export function parseBumlFile(content: string): BumlFileFormat {
 }
 
 /**
- * Creates a diagram state from parsed .buml content using the Builder pattern
+ * Returns the key a ref target or file path is matched by: its file name
+ * without the .buml extension, ignoring case
+ */
+function getReferenceKey(pathOrTarget: string): string {
+  const fileName = pathOrTarget.trim().replace(/\\/g, '/').split('/').pop() ?? '';
+  return fileName.replace(/\.buml$/i, '').toLowerCase();
+}
+
+/**
+ * Finds the source file a ref target points to, preferring an exact path match
+ */
+function findReferencedFile(target: string, sources: BumlSourceFile[]): BumlSourceFile | undefined {
+  const normalize = (path: string) => path.trim().replace(/\\/g, '/').replace(/^\.\//, '').toLowerCase();
+  return (
+    sources.find((source) => normalize(source.path) === normalize(target)) ??
+    sources.find((source) => getReferenceKey(source.path) === getReferenceKey(target))
+  );
+}
+
+/**
+ * Returns the distinct, non-empty ref targets of a diagram
+ */
+function getReferenceTargets(separators: Separator[]): string[] {
+  const targets = separators.filter((s) => s.kind === 'ref' && s.target?.trim()).map((s) => s.target as string);
+  return [...new Set(targets)];
+}
+
+/**
+ * Builds a diagram and, recursively, every diagram its refs point to.
+ * The chain holds the files being built above this one so that a ref
+ * back into it is reported instead of recursing forever.
  */
-export function buildDiagramFromBuml(content: string): BumlDiagram {
+function buildWithReferences(content: string, sources: BumlSourceFile[], chain: string[]): BumlDiagram {
   const fileContent = parseBumlFile(content);
   const builder = new BumlBuilder();
   const director = new BumlDirector(builder);
   const diagram = director.constructFromFile(fileContent);
-  
+
+  const references: Record<string, BumlDiagram> = {};
+  for (const target of getReferenceTargets(diagram.state.separators)) {
+    const key = getReferenceKey(target);
+    if (chain.some((path) => getReferenceKey(path) === key)) {
+      throw new Error(`Circular diagram reference: ${[...chain, target].join(' → ')}`);
+    }
+    // Targets that were not provided stay unresolved and are shown as such
+    const source = findReferencedFile(target, sources);
+    if (source) {
+      references[target] = buildWithReferences(source.content, sources, [...chain, target]);
+    }
+  }
+
   // Include the name from metadata if available
   return {
     ...diagram,
     name: fileContent.metadata?.name,
+    references,
   };
 }
+
+/**
+ * Creates a diagram state from parsed .buml content using the Builder pattern.
+ * Refs are resolved against the given source files, loading nested references
+ * too; circular references throw.
+ */
+export function buildDiagramFromBuml(content: string, sources: BumlSourceFile[] = [], path?: string): BumlDiagram {
+  return buildWithReferences(content, sources, path ? [path] : []);
+}
+
+/**
+ * Creates a diagram from several .buml files: the diagram that none of the
+ * others reference is opened, and the rest resolve its refs
+ */
+export function buildDiagramFromBumlFiles(files: BumlSourceFile[]): BumlDiagram {
+  if (files.length === 0) {
+    throw new Error('No .buml file selected');
+  }
+  const referencedKeys = new Set(
+    files.flatMap((file) => {
+      const separators = parseBumlFile(file.content).diagram.separators ?? [];
+      return getReferenceTargets(separators)
+        .filter((target) => getReferenceKey(target) !== getReferenceKey(file.path))
+        .map(getReferenceKey);
+    })
+  );
+  const root = files.find((file) => !referencedKeys.has(getReferenceKey(file.path))) ?? files[0];
+  const diagram = buildDiagramFromBuml(root.content, files, root.path);
+  // Fall back to the file name when the diagram has no name of its own
+  return { ...diagram, name: diagram.name || root.path.replace(/\\/g, '/').split('/').pop()?.replace(/\.buml$/i, '') };
+}
+
+/**
+ * Creates a diagram from imported content using the Builder pattern, passing on its warnings
+ */
+function buildImportedDiagram(document: ImportedDiagram, format: string): { diagram: BumlDiagram; warnings: ImportWarning[] } {
+  if (document.lifelines.length === 0) {
+    throw new Error(`No participants or messages found in the ${format} file`);
+  }
+  const director = new BumlDirector(new BumlBuilder());
+  const diagram = director.constructFromImport(document);
+  return { diagram: { ...diagram, name: document.title, references: {} }, warnings: document.warnings };
+}
+
+/**
+ * Creates a diagram from PlantUML text, along with the lines that were
+ * skipped because they are outside the supported subset
+ */
+export function buildDiagramFromPlantUml(content: string): { diagram: BumlDiagram; warnings: ImportWarning[] } {
+  return buildImportedDiagram(parsePlantUml(content), 'PlantUML');
+}
+
+/**
+ * Creates a diagram from a Mermaid sequenceDiagram, along with the lines
+ * that were skipped or approximated
+ */
+export function buildDiagramFromMermaid(content: string): { diagram: BumlDiagram; warnings: ImportWarning[] } {
+  return buildImportedDiagram(parseMermaid(content), 'Mermaid');
+}
@@ -0,0 +1,79 @@
+/**
+ * DurationLayout - Computes where duration constraints are drawn.
+ *
+ * Shared by the SVG canvas and the exporters. A duration constraint is a
+ * vertical dimension line in the left or right gutter running from one
+ * message row to another. Constraints on the same side whose rows overlap
+ * are moved outwards into lanes of their own so their lines stay apart.
+ */
+
+import {
+  DurationConstraint,
+  Lifeline,
+  Separator,
+  LIFELINE_HEADER_WIDTH,
+  LIFELINE_SPACING,
+  LIFELINE_START_X,
+  DURATION_GUTTER_GAP,
+  DURATION_LANE_SPACING,
+} from '@/types/diagram';
+import { getMessageY } from '@/lib/RowLayout';
+
+// Resolved geometry of a single duration constraint
+export interface DurationFrame {
+  duration: DurationConstraint;
+  lane: number; // 0 = closest to the lifelines
+  x: number; // x of the dimension line
+  guideX: number; // x of the nearest lifeline, where the dotted guides from the ticks end
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Assigns each constraint on one side the innermost lane that is free for its rows
+ */
+function assignLanes(durations: DurationConstraint[]): Map<string, number> {
+  const lanes = new Map<string, number>();
+  const laneEnds: number[] = []; // Last end order per lane
+  const sorted = [...durations].sort((a, b) => a.startMessageOrder - b.startMessageOrder);
+  for (const duration of sorted) {
+    let lane = laneEnds.findIndex((end) => end <= duration.startMessageOrder);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = duration.endMessageOrder;
+    lanes.set(duration.id, lane);
+  }
+  return lanes;
+}
+
+/**
+ * Computes frames for all duration constraints
+ */
+export function layoutDurations(
+  durations: DurationConstraint[],
+  lifelines: Lifeline[],
+  separators: Separator[]
+): DurationFrame[] {
+  const lastOrder = Math.max(0, lifelines.length - 1);
+  const leftEdge = LIFELINE_START_X;
+  const rightEdge = LIFELINE_START_X + lastOrder * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH;
+  const lanes = new Map([
+    ...assignLanes(durations.filter((d) => d.side === 'left')),
+    ...assignLanes(durations.filter((d) => d.side === 'right')),
+  ]);
+
+  return durations.map((duration) => {
+    const lane = lanes.get(duration.id) ?? 0;
+    const offset = DURATION_GUTTER_GAP + lane * DURATION_LANE_SPACING;
+    const isLeft = duration.side === 'left';
+    return {
+      duration,
+      lane,
+      x: isLeft ? leftEdge - offset : rightEdge + offset,
+      guideX: isLeft ? leftEdge + LIFELINE_HEADER_WIDTH / 2 : rightEdge - LIFELINE_HEADER_WIDTH / 2,
+      top: getMessageY(duration.startMessageOrder, separators),
+      bottom: getMessageY(duration.endMessageOrder, separators),
+    };
+  });
+}
@@ -6,7 +6,9 @@
 import {
   SequenceDiagramState,
   Lifeline,
+  Separator,
   ActivationBlockData,
+  GROUP_TITLE_HEIGHT,
   LIFELINE_HEADER_WIDTH,
   LIFELINE_HEADER_HEIGHT,
   LIFELINE_SPACING,
@@ -14,15 +16,57 @@ import {
   LIFELINE_START_Y,
   MESSAGE_SPACING,
   ACTIVATION_WIDTH,
+  ACTIVATION_NEST_OFFSET,
+  SELF_MESSAGE_LOOP_WIDTH,
+  SELF_MESSAGE_LOOP_HEIGHT,
+  FRAGMENT_TAB_HEIGHT,
+  NOTE_FOLD_SIZE,
+  NOTE_LINE_HEIGHT,
+  DESTROY_MARKER_SIZE,
+  DURATION_TICK_WIDTH,
+  DIAGRAM_BOUNDARY_ID,
+  BOUNDARY_DOT_RADIUS,
 } from '@/types/diagram';
+import { FragmentFrame, layoutFragments } from '@/lib/FragmentLayout';
+import { NoteFrame, layoutNotes } from '@/lib/NoteLayout';
+import { GroupFrame, layoutGroups } from '@/lib/GroupLayout';
+import { RefFrame, layoutRefs } from '@/lib/RefLayout';
+import { ActivationSpan, computeNestingLevels, getAttachmentLevel, getActivationBarX } from '@/lib/ActivationLayout';
+import { resolveActivatedBlocks } from '@/lib/ActivationInference';
+import { getActivationBlocks, getBlockKey } from '@/lib/ActivationBlocks';
+import { getLifelineShape, LIFELINE_GLYPH_STROKE_WIDTH } from '@/lib/LifelineShapes';
+import { computeMessageNumbers } from '@/lib/MessageNumbering';
+import { formatPayloadSummary } from '@/lib/MessagePayload';
+import { formatMessageLabel } from '@/lib/MessageLabel';
+import { DurationFrame, layoutDurations } from '@/lib/DurationLayout';
+import { getMessageY, getSeparatorY, getRowCount, getRowTop } from '@/lib/RowLayout';
+import {
+  getCreationMessage,
+  getLifelineHeaderY,
+  getLifelineLineBounds,
+  getDestroyMarkerY,
+  getBoundaryX,
+} from '@/lib/LifelineLayout';
+import { toPlantUml } from '@/lib/PlantUml';
+import { toMermaid } from '@/lib/Mermaid';
+import { DrawingContext, SvgDocument, createCanvasDrawingContext, loadEmbeddedFonts } from '@/lib/SvgDocument';
+import { PdfDocument, PdfDrawing, PdfPageSize, PdfOrientation, PDF_PAGE_SIZES } from '@/lib/PdfDocument';
+import { serializeToBuml } from '@/lib/BumlBuilder';
 
 // Export format types
-export type ExportFormat = 'pdf';
+export type ExportFormat = 'png' | 'pdf' | 'svg' | 'plantuml' | 'mermaid';
+
+// Page settings of the PDF export
+export interface ExportOptions {
+  pageSize?: PdfPageSize;
+  orientation?: PdfOrientation;
+}
 
 // Result of an export operation
 export interface ExportResult {
   success: boolean;
   error?: string;
+  warnings?: string[]; // Parts of the diagram the format could not represent
 }
 
 // Abstract exporter interface
@@ -34,6 +78,20 @@ interface IExporter {
   ): Promise<ExportResult>;
 }
 
+/**
+ * Downloads a blob as a file through a temporary link
+ */
+function downloadFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Helper functions for calculating diagram positions
  */
@@ -41,286 +99,745 @@ function getLifelineX(lifeline: Lifeline): number {
   return LIFELINE_START_X + lifeline.order * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH / 2;
 }
 
-function getMessageY(order: number): number {
-  return LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT + 30 + order * MESSAGE_SPACING;
+/**
+ * Splits a diagram of the given height into page slices, breaking at the
+ * last row boundary that fits; a row taller than a page is cut where the page ends
+ */
+function getPageSlices(
+  breaks: number[],
+  height: number,
+  firstPageHeight: number,
+  pageHeight: number
+): { top: number; bottom: number }[] {
+  const slices: { top: number; bottom: number }[] = [];
+  let top = 0;
+  while (top < height) {
+    const available = Math.max(MESSAGE_SPACING, slices.length === 0 ? firstPageHeight : pageHeight);
+    if (top + available >= height) {
+      slices.push({ top, bottom: height });
+      break;
+    }
+    const fitting = breaks.filter((y) => y > top && y <= top + available);
+    const bottom = fitting.length > 0 ? fitting[fitting.length - 1] : top + available;
+    slices.push({ top, bottom });
+    top = bottom;
+  }
+  return slices;
 }
 
+
 // Text label layout constants for export
 const TEXT_BOX_WIDTH = 80;
 const TEXT_BOX_HEIGHT = 20;
 const TEXT_BOX_OFFSET_X = 20;
 const TEXT_PADDING = 8;
+const FRAGMENT_TAB_MIN_WIDTH = 44;
+const FRAGMENT_TAB_CHAR_WIDTH = 8;
+const FRAGMENT_TAB_NOTCH = 6;
+const SEPARATOR_LABEL_MIN_WIDTH = 80;
+const SEPARATOR_LABEL_HEIGHT = 22;
+const DIVIDER_LINE_GAP = 3;
+const DELAY_BAND_HEIGHT = MESSAGE_SPACING - 16;
+const REF_TAB_WIDTH = 36;
+const REF_TAB_HEIGHT = 16;
+const REF_TAB_NOTCH = 5;
+const PDF_PAGE_MARGIN = 36;
+const PDF_FOOTER_HEIGHT = 24;
+const PDF_HEADER_BAND_PADDING = 10; // Above and below the headers repeated on later pages
+const DESCRIPTION_BOX_WIDTH = 140;
+const DESCRIPTION_BOX_MIN_HEIGHT = 20;
+const DESCRIPTION_BOX_PADDING = 4;
+const DESCRIPTION_LINE_HEIGHT = 16;
+const MESSAGE_LABEL_MIN_WIDTH = 100;
+const MESSAGE_LABEL_MIN_HEIGHT = 18;
+const MESSAGE_LABEL_MAX_WIDTH = LIFELINE_SPACING - 20; // Between neighbouring lifelines; longer arrows allow their own span
+const MESSAGE_LABEL_PADDING = 8;
+const MESSAGE_LABEL_LINE_HEIGHT = 14;
 
 /**
- * PNG Exporter - Exports diagram as PNG image using canvas-based rendering
+ * Diagram Exporter - Draws the diagram through a DrawingContext, shared by the PNG and SVG exporters
  */
-class PDFExporter implements IExporter {
-  async export(
+abstract class DiagramExporter implements IExporter {
+  abstract export(
     state: SequenceDiagramState,
     activatedBlocks: Map<string, ActivationBlockData>,
-    fileName: string = 'diagram'
-  ): Promise<ExportResult> {
-    try {
-      // Calculate canvas dimensions
-      const canvasWidth = Math.max(
-        800,
-        LIFELINE_START_X + state.lifelines.length * LIFELINE_SPACING + 100
-      );
-      const canvasHeight = Math.max(
+    fileName?: string
+  ): Promise<ExportResult>;
+
+  /**
+   * Returns the size of the drawing, leaving room below the last row
+   */
+  protected getDiagramSize(state: SequenceDiagramState): { width: number; height: number } {
+    return {
+      width: Math.max(800, LIFELINE_START_X + state.lifelines.length * LIFELINE_SPACING + 100),
+      height: Math.max(
         600,
-        LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT + 50 + (state.messages.length + 1) * MESSAGE_SPACING + 100
-      );
+        LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT + 50 + (getRowCount(state.messages.length, state.separators) + 1) * MESSAGE_SPACING + 100
+      ),
+    };
+  }
 
-      // Create canvas for rendering
-      const canvas = document.createElement('canvas');
-      const scale = 2; // Higher resolution for better quality
-      canvas.width = canvasWidth * scale;
-      canvas.height = canvasHeight * scale;
-      const ctx = canvas.getContext('2d');
+  protected drawDiagram(
+    ctx: DrawingContext,
+    state: SequenceDiagramState,
+    activatedBlocks: Map<string, ActivationBlockData>,
+    canvasWidth: number,
+    canvasHeight: number
+  ): void {
+    // White background
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
 
-      if (!ctx) {
-        return { success: false, error: 'Failed to create canvas context' };
-      }
+    // Draw grid pattern
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.lineWidth = 0.5;
+    ctx.globalAlpha = 0.3;
+    for (let x = 0; x <= canvasWidth; x += 40) {
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, canvasHeight);
+      ctx.stroke();
+    }
+    for (let y = 0; y <= canvasHeight; y += 40) {
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(canvasWidth, y);
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
 
-      ctx.scale(scale, scale);
+    // Draw group boxes behind headers and lifelines
+    layoutGroups(state.groups, state.lifelines, canvasHeight - 40).forEach((frame) => {
+      this.drawGroup(ctx, frame);
+    });
 
-      // White background
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    // Draw lifeline dashed lines
+    state.lifelines.forEach((lifeline) => {
+      const x = getLifelineX(lifeline);
+      const { top, bottom } = getLifelineLineBounds(lifeline, state.messages, state.separators, canvasHeight - 40);
 
-      // Draw grid pattern
-      ctx.strokeStyle = '#e5e7eb';
-      ctx.lineWidth = 0.5;
-      ctx.globalAlpha = 0.3;
-      for (let x = 0; x <= canvasWidth; x += 40) {
-        ctx.beginPath();
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, canvasHeight);
-        ctx.stroke();
-      }
-      for (let y = 0; y <= canvasHeight; y += 40) {
-        ctx.beginPath();
-        ctx.moveTo(0, y);
-        ctx.lineTo(canvasWidth, y);
-        ctx.stroke();
-      }
-      ctx.globalAlpha = 1;
+      ctx.setLineDash([8, 6]);
+      ctx.strokeStyle = '#9CA3AF';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(x, top);
+      ctx.lineTo(x, bottom);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    });
 
-      // Draw lifeline dashed lines
-      state.lifelines.forEach((lifeline) => {
-        const x = getLifelineX(lifeline);
-        const startY = LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT;
-        const endY = canvasHeight - 40;
+    // Draw dividers and delays across the full width
+    const lifelineXs = state.lifelines.map(getLifelineX);
+    state.separators.forEach((separator) => {
+      if (separator.kind === 'ref') return;
+      this.drawSeparator(ctx, separator, getSeparatorY(separator, state.separators), canvasWidth, lifelineXs);
+    });
 
-        ctx.setLineDash([8, 6]);
-        ctx.strokeStyle = '#9CA3AF';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.moveTo(x, startY);
-        ctx.lineTo(x, endY);
-        ctx.stroke();
-        ctx.setLineDash([]);
-      });
+    // Draw refs to other diagrams over the lifelines they cover
+    layoutRefs(state.separators, state.lifelines).forEach((frame) => {
+      this.drawRef(ctx, frame);
+    });
 
-      // Draw activation bars
-      state.lifelines.forEach((lifeline) => {
-        const touchingMessages = state.messages
-          .filter((m) => m.fromLifelineId === lifeline.id || m.toLifelineId === lifeline.id)
-          .sort((a, b) => a.order - b.order);
-
-        for (let i = 0; i < touchingMessages.length - 1; i++) {
-          const block = {
-            lifelineId: lifeline.id,
-            startMessageOrder: touchingMessages[i].order,
-            endMessageOrder: touchingMessages[i + 1].order,
-          };
-          const key = `${block.lifelineId}-${block.startMessageOrder}-${block.endMessageOrder}`;
-          const blockData = activatedBlocks.get(key);
-
-          if (blockData?.isActive) {
-            const x = getLifelineX(lifeline) - ACTIVATION_WIDTH / 2;
-            const startY = getMessageY(block.startMessageOrder);
-            const endY = getMessageY(block.endMessageOrder);
-            const height = Math.max(endY - startY, 20);
-            const midY = startY + height / 2;
-
-            ctx.fillStyle = lifeline.color;
-            ctx.shadowColor = 'rgba(0,0,0,0.2)';
-            ctx.shadowBlur = 2;
-            ctx.shadowOffsetY = 1;
-            this.roundRect(ctx, x, startY, ACTIVATION_WIDTH, height, 2);
-            ctx.fill();
-            ctx.shadowColor = 'transparent';
-            ctx.shadowBlur = 0;
-            ctx.shadowOffsetY = 0;
-
-            // Draw text label if present
-            if (blockData.text) {
-              const textX = x + ACTIVATION_WIDTH + TEXT_BOX_OFFSET_X;
-              const textY = midY - TEXT_BOX_HEIGHT / 2;
-
-              // Draw text background
-              ctx.fillStyle = '#ffffff';
-              this.roundRect(ctx, textX, textY, TEXT_BOX_WIDTH, TEXT_BOX_HEIGHT, 4);
-              ctx.fill();
-
-              // Draw text
-              ctx.fillStyle = '#4B5563';
-              ctx.font = '500 11px system-ui, sans-serif';
-              ctx.textAlign = 'center';
-              ctx.textBaseline = 'middle';
-              ctx.fillText(blockData.text, textX + TEXT_BOX_WIDTH / 2, midY, TEXT_BOX_WIDTH - TEXT_PADDING);
-            }
-          }
-        }
-      });
+    const messageNumbers = computeMessageNumbers(state.messages, state.autonumber);
 
-      // Draw messages
-      state.messages.forEach((message) => {
-        const fromLifeline = state.lifelines.find((l) => l.id === message.fromLifelineId);
-        const toLifeline = state.lifelines.find((l) => l.id === message.toLifelineId);
+    // Messages that create their target end at the target's header
+    const creationMessageIds = new Set(
+      state.lifelines.map((l) => getCreationMessage(l, state.messages)?.id).filter((id) => id !== undefined)
+    );
 
-        if (!fromLifeline || !toLifeline) return;
+    // Draw combined fragments (outermost first, behind activations and messages)
+    layoutFragments(state.fragments, state.lifelines, state.separators).forEach((frame) => {
+      this.drawFragment(ctx, frame);
+    });
 
-        const fromX = getLifelineX(fromLifeline);
-        const toX = getLifelineX(toLifeline);
-        const y = getMessageY(message.order);
+    // Collect every active bar: activated blocks between consecutive messages plus explicit activations
+    const blocks = resolveActivatedBlocks(state, activatedBlocks);
+    const bars: (ActivationSpan & { text?: string })[] = [];
+    getActivationBlocks(state.lifelines, state.messages).forEach((block) => {
+      const blockData = blocks.get(getBlockKey(block));
+      if (blockData?.isActive) {
+        bars.push({
+          lifelineId: block.lifelineId,
+          startMessageOrder: block.startMessageOrder,
+          endMessageOrder: block.endMessageOrder,
+          text: blockData.text,
+        });
+      }
+    });
+    bars.push(...state.activations);
+    const barLevels = computeNestingLevels(bars);
 
-        const isLeftToRight = fromX < toX;
-        const adjustedFromX = isLeftToRight ? fromX + ACTIVATION_WIDTH / 2 : fromX - ACTIVATION_WIDTH / 2;
-        const adjustedToX = isLeftToRight ? toX - ACTIVATION_WIDTH / 2 : toX + ACTIVATION_WIDTH / 2;
-        const midX = (adjustedFromX + adjustedToX) / 2;
+    // Draw activation bars, outermost levels first so nested bars stack on top
+    bars
+      .map((bar, i) => ({ bar, level: barLevels[i] }))
+      .sort((a, b) => a.level - b.level)
+      .forEach(({ bar, level }) => {
+        const lifeline = state.lifelines.find((l) => l.id === bar.lifelineId);
+        if (!lifeline) return;
 
-        const isReturn = message.type === 'return';
+        const x = getActivationBarX(lifeline, level);
+        const startY = getMessageY(bar.startMessageOrder, state.separators);
+        const endY = getMessageY(bar.endMessageOrder, state.separators);
+        const height = Math.max(endY - startY, 20);
+        const midY = startY + height / 2;
 
-        // Draw line
-        ctx.strokeStyle = isReturn ? '#6B7280' : '#374151';
-        ctx.lineWidth = 2;
-        if (isReturn) {
-          ctx.setLineDash([8, 4]);
-        }
-        ctx.beginPath();
-        ctx.moveTo(adjustedFromX, y);
-        ctx.lineTo(adjustedToX, y);
-        ctx.stroke();
-        ctx.setLineDash([]);
+        ctx.fillStyle = lifeline.color;
+        ctx.shadowColor = 'rgba(0,0,0,0.2)';
+        ctx.shadowBlur = 2;
+        ctx.shadowOffsetY = 1;
+        this.roundRect(ctx, x, startY, ACTIVATION_WIDTH, height, 2);
+        ctx.fill();
+        ctx.shadowColor = 'transparent';
+        ctx.shadowBlur = 0;
+        ctx.shadowOffsetY = 0;
 
-        // Draw arrowhead
-        const arrowLength = 10;
-        const arrowWidth = 6;
-        const arrowDirection = isLeftToRight ? -1 : 1;
-
-        if (isReturn) {
-          // Open arrowhead
-          ctx.strokeStyle = '#6B7280';
-          ctx.lineWidth = 2;
-          ctx.beginPath();
-          ctx.moveTo(adjustedToX + arrowDirection * arrowLength, y - arrowWidth);
-          ctx.lineTo(adjustedToX, y);
-          ctx.lineTo(adjustedToX + arrowDirection * arrowLength, y + arrowWidth);
+        // Outline nested bars so they stand out from their parent
+        if (level > 0) {
+          ctx.strokeStyle = '#ffffff';
+          ctx.lineWidth = 1;
           ctx.stroke();
-        } else {
-          // Filled arrowhead
-          ctx.fillStyle = '#374151';
-          ctx.beginPath();
-          ctx.moveTo(adjustedToX, y);
-          ctx.lineTo(adjustedToX + arrowDirection * arrowLength, y - arrowWidth);
-          ctx.lineTo(adjustedToX + arrowDirection * arrowLength, y + arrowWidth);
-          ctx.closePath();
-          ctx.fill();
         }
 
-        // Draw label
-        if (message.label) {
-          const labelWidth = 100;
-          const labelHeight = 18;
-          const labelY = y - 22;
+        // Draw text label if present
+        if (bar.text) {
+          const textX = x + ACTIVATION_WIDTH + TEXT_BOX_OFFSET_X;
+          const textY = midY - TEXT_BOX_HEIGHT / 2;
 
+          // Draw text background
           ctx.fillStyle = '#ffffff';
-          this.roundRect(ctx, midX - labelWidth / 2, labelY, labelWidth, labelHeight, 4);
+          this.roundRect(ctx, textX, textY, TEXT_BOX_WIDTH, TEXT_BOX_HEIGHT, 4);
           ctx.fill();
 
-          ctx.fillStyle = '#374151';
-          ctx.font = '500 12px system-ui, sans-serif';
+          // Draw text
+          ctx.fillStyle = '#4B5563';
+          ctx.font = '500 11px system-ui, sans-serif';
           ctx.textAlign = 'center';
           ctx.textBaseline = 'middle';
-          ctx.fillText(message.label, midX, labelY + labelHeight / 2);
+          ctx.fillText(bar.text, textX + TEXT_BOX_WIDTH / 2, midY, TEXT_BOX_WIDTH - TEXT_PADDING);
         }
+      });
 
-        // Draw description
-        if (message.description) {
-          const descWidth = 150;
-          const descHeight = 20;
-          const descY = y + 6;
+    // Draw messages
+    state.messages.forEach((message) => {
+      const fromLifeline = state.lifelines.find((l) => l.id === message.fromLifelineId);
+      const toLifeline = state.lifelines.find((l) => l.id === message.toLifelineId);
 
-          ctx.fillStyle = '#ffffff';
-          this.roundRect(ctx, midX - descWidth / 2, descY, descWidth, descHeight, 4);
-          ctx.fill();
+      // Found messages enter from the left diagram edge, lost messages leave through the right one
+      const isFound = message.fromLifelineId === DIAGRAM_BOUNDARY_ID;
+      const isLost = message.toLifelineId === DIAGRAM_BOUNDARY_ID;
+      if ((!fromLifeline && !isFound) || (!toLifeline && !isLost)) return;
 
-          ctx.fillStyle = '#6B7280';
-          ctx.font = 'italic 12px system-ui, sans-serif';
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'middle';
-          ctx.fillText(message.description, midX, descY + descHeight / 2);
-        }
-      });
+      const fromX = fromLifeline ? getLifelineX(fromLifeline) : getBoundaryX('left', state.lifelines);
+      const toX = toLifeline ? getLifelineX(toLifeline) : getBoundaryX('right', state.lifelines);
+      const y = getMessageY(message.order, state.separators);
 
-      // Draw lifeline headers
-      state.lifelines.forEach((lifeline) => {
-        const x = LIFELINE_START_X + lifeline.order * LIFELINE_SPACING;
-        const y = LIFELINE_START_Y;
+      const isSelfMessage = !!fromLifeline && fromLifeline.id === toLifeline?.id;
+      const isLeftToRight = fromX < toX;
+      // Attach to the outer edge of the innermost (stacked) activation bar
+      const fromLevel = getAttachmentLevel(bars, barLevels, message.fromLifelineId, message.order);
+      const toLevel = getAttachmentLevel(bars, barLevels, message.toLifelineId, message.order);
+      const adjustedFromX = isFound
+        ? fromX
+        : (isLeftToRight || isSelfMessage ? fromX + ACTIVATION_WIDTH / 2 : fromX - ACTIVATION_WIDTH / 2) +
+          fromLevel * ACTIVATION_NEST_OFFSET;
+      let adjustedToX: number;
+      if (isLost) {
+        adjustedToX = toX - BOUNDARY_DOT_RADIUS;
+      } else if (creationMessageIds.has(message.id)) {
+        adjustedToX = isLeftToRight ? toX - LIFELINE_HEADER_WIDTH / 2 : toX + LIFELINE_HEADER_WIDTH / 2;
+      } else {
+        adjustedToX =
+          (isLeftToRight || isSelfMessage ? toX - ACTIVATION_WIDTH / 2 : toX + ACTIVATION_WIDTH / 2) +
+          toLevel * ACTIVATION_NEST_OFFSET;
+      }
+      const midX = (adjustedFromX + adjustedToX) / 2;
 
-        // Header box with shadow
-        ctx.fillStyle = lifeline.color;
-        ctx.shadowColor = 'rgba(0,0,0,0.15)';
-        ctx.shadowBlur = 4;
-        ctx.shadowOffsetY = 2;
-        this.roundRect(ctx, x, y, LIFELINE_HEADER_WIDTH, LIFELINE_HEADER_HEIGHT, 8);
+      // Self-messages loop out to the right and return one step lower
+      const loopX = adjustedFromX + SELF_MESSAGE_LOOP_WIDTH;
+      const arrowY = isSelfMessage ? y + SELF_MESSAGE_LOOP_HEIGHT : y;
+      const arrowPointX = isSelfMessage ? adjustedFromX : adjustedToX;
+
+      const isReturn = message.type === 'return';
+      const isDashed = isReturn || message.type === 'create';
+
+      // Draw line
+      ctx.strokeStyle = isReturn ? '#6B7280' : '#374151';
+      ctx.lineWidth = 2;
+      if (isDashed) {
+        ctx.setLineDash([8, 4]);
+      }
+      ctx.beginPath();
+      ctx.moveTo(adjustedFromX, y);
+      if (isSelfMessage) {
+        ctx.lineTo(loopX, y);
+        ctx.lineTo(loopX, arrowY);
+      }
+      ctx.lineTo(arrowPointX, arrowY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Draw arrowhead
+      const arrowLength = 10;
+      const arrowWidth = 6;
+      const arrowDirection = isLeftToRight ? -1 : 1;
+
+      if (message.type !== 'sync') {
+        // Open arrowhead (async, return and create messages)
+        ctx.strokeStyle = isReturn ? '#6B7280' : '#374151';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(arrowPointX + arrowDirection * arrowLength, arrowY - arrowWidth);
+        ctx.lineTo(arrowPointX, arrowY);
+        ctx.lineTo(arrowPointX + arrowDirection * arrowLength, arrowY + arrowWidth);
+        ctx.stroke();
+      } else {
+        // Filled arrowhead
+        ctx.fillStyle = '#374151';
+        ctx.beginPath();
+        ctx.moveTo(arrowPointX, arrowY);
+        ctx.lineTo(arrowPointX + arrowDirection * arrowLength, arrowY - arrowWidth);
+        ctx.lineTo(arrowPointX + arrowDirection * arrowLength, arrowY + arrowWidth);
+        ctx.closePath();
         ctx.fill();
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-        ctx.shadowOffsetY = 0;
+      }
 
-        // Label
+      // Draw the filled dot at the diagram edge of found and lost messages
+      if (isFound || isLost) {
+        ctx.fillStyle = '#374151';
+        ctx.beginPath();
+        ctx.arc(isFound ? fromX : toX, y, BOUNDARY_DOT_RADIUS, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      // Draw label, sized to its text and wrapped into lines that grow the box upwards
+      const number = messageNumbers.get(message.id);
+      const label = formatMessageLabel(message, number);
+      ctx.font = '500 12px system-ui, sans-serif';
+      const labelMaxWidth = isSelfMessage ? MESSAGE_LABEL_MAX_WIDTH : Math.max(MESSAGE_LABEL_MAX_WIDTH, Math.abs(toX - fromX) - 20);
+      const labelLines = label ? this.wrapText(ctx, label, labelMaxWidth - MESSAGE_LABEL_PADDING * 2) : [];
+      const labelTextWidth = Math.max(0, ...labelLines.map((line) => ctx.measureText(line).width));
+      const labelWidth = Math.max(MESSAGE_LABEL_MIN_WIDTH, labelTextWidth + MESSAGE_LABEL_PADDING * 2);
+      const labelHeight = Math.max(MESSAGE_LABEL_MIN_HEIGHT, labelLines.length * MESSAGE_LABEL_LINE_HEIGHT + 4);
+      // The bottom edge stays put: beside the loop for self messages, just above the arrow otherwise
+      const labelY = isSelfMessage ? y + MESSAGE_LABEL_MIN_HEIGHT / 2 - labelHeight : y - 4 - labelHeight;
+      const labelX = isSelfMessage ? loopX + 8 + labelWidth / 2 : midX;
+      if (label) {
         ctx.fillStyle = '#ffffff';
-        ctx.font = '600 14px system-ui, sans-serif';
+        this.roundRect(ctx, labelX - labelWidth / 2, labelY, labelWidth, labelHeight, 4);
+        ctx.fill();
+
+        ctx.fillStyle = '#374151';
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
-        ctx.fillText(lifeline.name, x + LIFELINE_HEADER_WIDTH / 2, y + LIFELINE_HEADER_HEIGHT / 2);
-      });
+        const textTop = labelY + labelHeight / 2 - ((labelLines.length - 1) * MESSAGE_LABEL_LINE_HEIGHT) / 2;
+        labelLines.forEach((line, i) => {
+          ctx.fillText(line, labelX, textTop + i * MESSAGE_LABEL_LINE_HEIGHT);
+        });
+      }
 
-      // Convert canvas to blob and download
-      const blob = await new Promise<Blob>((resolve, reject) => {
-        canvas.toBlob((b) => {
-          if (b) {
-            resolve(b);
-          } else {
-            reject(new Error('Failed to create image blob'));
-          }
-        }, 'image/png', 1.0);
-      });
+      // Draw the compact payload above the label
+      const payloadSummary = formatPayloadSummary(message);
+      if (payloadSummary) {
+        ctx.font = '11px ui-monospace, monospace';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 3;
+        ctx.strokeText(payloadSummary, labelX, labelY - 4);
+        ctx.fillStyle = '#0369A1';
+        ctx.fillText(payloadSummary, labelX, labelY - 4);
+      }
 
-      // Create download link
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${fileName}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      // Draw description, wrapped to the box width like on the canvas
+      if (message.description) {
+        ctx.font = 'italic 12px system-ui, sans-serif';
+        const lines = this.wrapText(ctx, message.description, DESCRIPTION_BOX_WIDTH - DESCRIPTION_BOX_PADDING * 2);
+        const descHeight = Math.max(DESCRIPTION_BOX_MIN_HEIGHT, lines.length * DESCRIPTION_LINE_HEIGHT + 8);
+        const descY = isSelfMessage ? y + 13 : y + 6;
+        const descX = isSelfMessage ? loopX + 8 + DESCRIPTION_BOX_WIDTH / 2 : midX;
 
-      return { success: true };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      };
+        ctx.fillStyle = '#ffffff';
+        this.roundRect(ctx, descX - DESCRIPTION_BOX_WIDTH / 2, descY, DESCRIPTION_BOX_WIDTH, descHeight, 4);
+        ctx.fill();
+
+        ctx.fillStyle = '#6B7280';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        const textTop = descY + descHeight / 2 - ((lines.length - 1) * DESCRIPTION_LINE_HEIGHT) / 2;
+        lines.forEach((line, i) => {
+          ctx.fillText(line, descX, textTop + i * DESCRIPTION_LINE_HEIGHT);
+        });
+      }
+    });
+
+    // Draw notes
+    layoutNotes(state.notes, state.lifelines, state.messages, state.separators).forEach((frame) => {
+      this.drawNote(ctx, frame);
+    });
+
+    // Draw duration constraints in the side gutters
+    layoutDurations(state.durations, state.lifelines, state.separators).forEach((frame) => {
+      this.drawDuration(ctx, frame);
+    });
+
+    // Draw destroy markers
+    state.lifelines.forEach((lifeline) => {
+      const y = getDestroyMarkerY(lifeline, state.separators);
+      if (y === undefined) return;
+      const x = getLifelineX(lifeline);
+      const s = DESTROY_MARKER_SIZE;
+
+      ctx.strokeStyle = '#374151';
+      ctx.lineWidth = 3;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(x - s, y - s);
+      ctx.lineTo(x + s, y + s);
+      ctx.moveTo(x + s, y - s);
+      ctx.lineTo(x - s, y + s);
+      ctx.stroke();
+      ctx.lineCap = 'butt';
+    });
+
+    // Draw lifeline headers
+    state.lifelines.forEach((lifeline) => {
+      this.drawLifelineHeader(ctx, lifeline, getLifelineHeaderY(lifeline, state.messages, state.separators));
+    });
+  }
+
+  protected drawLifelineHeader(ctx: DrawingContext, lifeline: Lifeline, y: number): void {
+    const x = LIFELINE_START_X + lifeline.order * LIFELINE_SPACING;
+    const shape = getLifelineShape(lifeline.kind, x, y);
+
+    // Header body with shadow
+    ctx.fillStyle = lifeline.color;
+    ctx.globalAlpha = shape.bodyOpacity;
+    ctx.shadowColor = 'rgba(0,0,0,0.15)';
+    ctx.shadowBlur = 4;
+    ctx.shadowOffsetY = 2;
+    shape.body.forEach((d) => ctx.fillPath(d));
+    ctx.globalAlpha = 1;
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+    ctx.shadowOffsetY = 0;
+
+    ctx.lineWidth = 1.5;
+    ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+    shape.rim.forEach((d) => ctx.strokePath(d));
+    ctx.lineWidth = LIFELINE_GLYPH_STROKE_WIDTH;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = lifeline.color;
+    shape.outline.forEach((d) => ctx.strokePath(d));
+
+    // Label
+    ctx.fillStyle = shape.labelInside ? '#ffffff' : '#374151';
+    ctx.font = '600 14px system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(lifeline.name, x + LIFELINE_HEADER_WIDTH / 2, shape.labelY);
+  }
+
+  private drawFragment(ctx: DrawingContext, frame: FragmentFrame): void {
+    const { fragment, x, y, width, height, operandTops } = frame;
+    const tabWidth = Math.max(FRAGMENT_TAB_MIN_WIDTH, fragment.operator.length * FRAGMENT_TAB_CHAR_WIDTH + 16);
+
+    // Frame
+    ctx.strokeStyle = '#4B5563';
+    ctx.lineWidth = 1.5;
+    this.roundRect(ctx, x, y, width, height, 2);
+    ctx.stroke();
+
+    // Operator tab with a cut bottom-right corner
+    ctx.fillStyle = '#F3F4F6';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + tabWidth, y);
+    ctx.lineTo(x + tabWidth, y + FRAGMENT_TAB_HEIGHT - FRAGMENT_TAB_NOTCH);
+    ctx.lineTo(x + tabWidth - FRAGMENT_TAB_NOTCH, y + FRAGMENT_TAB_HEIGHT);
+    ctx.lineTo(x, y + FRAGMENT_TAB_HEIGHT);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = '#374151';
+    ctx.font = 'bold 12px system-ui, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(fragment.operator, x + 8, y + FRAGMENT_TAB_HEIGHT / 2);
+
+    // Operand separators and guards
+    fragment.operands.forEach((operand, i) => {
+      const top = operandTops[i];
+      if (i > 0) {
+        ctx.strokeStyle = '#4B5563';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        ctx.moveTo(x, top);
+        ctx.lineTo(x + width, top);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+      if (operand.guard) {
+        const guardX = i === 0 ? x + tabWidth + 8 : x + 8;
+        const guardY = i === 0 ? y + FRAGMENT_TAB_HEIGHT / 2 + 1 : top + 13;
+        ctx.fillStyle = '#4B5563';
+        ctx.font = '500 11px system-ui, sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`[${operand.guard}]`, guardX, guardY);
+      }
+    });
+  }
+
+  private drawGroup(ctx: DrawingContext, frame: GroupFrame): void {
+    const { group, x, y, width, height } = frame;
+
+    // Translucent body and outline
+    ctx.fillStyle = group.color;
+    ctx.globalAlpha = 0.07;
+    this.roundRect(ctx, x, y, width, height, 6);
+    ctx.fill();
+    ctx.strokeStyle = group.color;
+    ctx.lineWidth = 1;
+    ctx.globalAlpha = 0.5;
+    ctx.stroke();
+
+    // Title band
+    ctx.globalAlpha = 0.15;
+    this.roundRect(ctx, x, y, width, GROUP_TITLE_HEIGHT, 6);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+
+    ctx.fillStyle = group.color;
+    ctx.font = '600 12px system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(group.title, x + width / 2, y + GROUP_TITLE_HEIGHT / 2);
+  }
+
+  private drawRef(ctx: DrawingContext, frame: RefFrame): void {
+    const { separator, x, y, width, height } = frame;
+
+    // Frame covering the lifelines
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#4B5563';
+    ctx.lineWidth = 1.5;
+    this.roundRect(ctx, x, y, width, height, 2);
+    ctx.fill();
+    ctx.stroke();
+
+    // "ref" tab with a cut bottom-right corner
+    ctx.fillStyle = '#F3F4F6';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + REF_TAB_WIDTH, y);
+    ctx.lineTo(x + REF_TAB_WIDTH, y + REF_TAB_HEIGHT - REF_TAB_NOTCH);
+    ctx.lineTo(x + REF_TAB_WIDTH - REF_TAB_NOTCH, y + REF_TAB_HEIGHT);
+    ctx.lineTo(x, y + REF_TAB_HEIGHT);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.fillStyle = '#374151';
+    ctx.font = 'bold 12px system-ui, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('ref', x + 7, y + REF_TAB_HEIGHT / 2);
+
+    // Interaction name
+    ctx.fillStyle = '#1F2937';
+    ctx.font = '600 12px system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(separator.text, x + width / 2, y + height / 2);
+  }
+
+  private drawDuration(ctx: DrawingContext, frame: DurationFrame): void {
+    const { duration, x, guideX, top, bottom } = frame;
+    const color = '#B45309';
+
+    // Dotted guides from the ticks to the nearest lifeline
+    ctx.strokeStyle = color;
+    ctx.globalAlpha = 0.35;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([2, 3]);
+    ctx.beginPath();
+    ctx.moveTo(x, top);
+    ctx.lineTo(guideX, top);
+    ctx.moveTo(x, bottom);
+    ctx.lineTo(guideX, bottom);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+
+    // Dimension line with ticks and arrowheads at both ends
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(x, top);
+    ctx.lineTo(x, bottom);
+    ctx.moveTo(x - DURATION_TICK_WIDTH, top);
+    ctx.lineTo(x + DURATION_TICK_WIDTH, top);
+    ctx.moveTo(x - DURATION_TICK_WIDTH, bottom);
+    ctx.lineTo(x + DURATION_TICK_WIDTH, bottom);
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(x, top);
+    ctx.lineTo(x - 3, top + 6);
+    ctx.lineTo(x + 3, top + 6);
+    ctx.closePath();
+    ctx.moveTo(x, bottom);
+    ctx.lineTo(x - 3, bottom - 6);
+    ctx.lineTo(x + 3, bottom - 6);
+    ctx.closePath();
+    ctx.fill();
+
+    // Label on the outer side of the line
+    if (duration.label) {
+      const isLeft = duration.side === 'left';
+      ctx.font = '600 12px system-ui, sans-serif';
+      ctx.textAlign = isLeft ? 'right' : 'left';
+      ctx.textBaseline = 'middle';
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 3;
+      ctx.strokeText(duration.label, isLeft ? x - 8 : x + 8, (top + bottom) / 2);
+      ctx.fillText(duration.label, isLeft ? x - 8 : x + 8, (top + bottom) / 2);
     }
   }
 
+  private drawSeparator(
+    ctx: DrawingContext,
+    separator: Separator,
+    y: number,
+    width: number,
+    lifelineXs: number[]
+  ): void {
+    const centerX = width / 2;
+
+    if (separator.kind === 'divider') {
+      // Double line across the whole diagram
+      ctx.strokeStyle = '#4B5563';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(0, y - DIVIDER_LINE_GAP);
+      ctx.lineTo(width, y - DIVIDER_LINE_GAP);
+      ctx.moveTo(0, y + DIVIDER_LINE_GAP);
+      ctx.lineTo(width, y + DIVIDER_LINE_GAP);
+      ctx.stroke();
+
+      if (separator.text) {
+        ctx.font = 'bold 12px system-ui, sans-serif';
+        const labelWidth = Math.max(SEPARATOR_LABEL_MIN_WIDTH, ctx.measureText(separator.text).width + 24);
+        ctx.fillStyle = '#F3F4F6';
+        this.roundRect(ctx, centerX - labelWidth / 2, y - SEPARATOR_LABEL_HEIGHT / 2, labelWidth, SEPARATOR_LABEL_HEIGHT, 3);
+        ctx.fill();
+        ctx.stroke();
+        ctx.fillStyle = '#374151';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(separator.text, centerX, y);
+      }
+      return;
+    }
+
+    // Delay: hide the dashed lifelines behind a band and continue them dotted
+    ctx.fillStyle = 'rgba(255,255,255,0.9)';
+    ctx.fillRect(0, y - DELAY_BAND_HEIGHT / 2, width, DELAY_BAND_HEIGHT);
+    ctx.strokeStyle = '#9CA3AF';
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.setLineDash([2, 5]);
+    lifelineXs.forEach((x) => {
+      ctx.beginPath();
+      ctx.moveTo(x, y - DELAY_BAND_HEIGHT / 2);
+      ctx.lineTo(x, y + DELAY_BAND_HEIGHT / 2);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+    ctx.lineCap = 'butt';
+
+    if (separator.text) {
+      ctx.fillStyle = '#6B7280';
+      ctx.font = 'italic 12px system-ui, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(separator.text, centerX, y);
+    }
+  }
+
+  private drawNote(ctx: DrawingContext, frame: NoteFrame): void {
+    const { note, x, y, width, height } = frame;
+
+    // Folded-corner body
+    ctx.fillStyle = '#FEF9C3';
+    ctx.strokeStyle = '#CA8A04';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + width - NOTE_FOLD_SIZE, y);
+    ctx.lineTo(x + width, y + NOTE_FOLD_SIZE);
+    ctx.lineTo(x + width, y + height);
+    ctx.lineTo(x, y + height);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    // Fold
+    ctx.fillStyle = '#FDE68A';
+    ctx.beginPath();
+    ctx.moveTo(x + width - NOTE_FOLD_SIZE, y);
+    ctx.lineTo(x + width - NOTE_FOLD_SIZE, y + NOTE_FOLD_SIZE);
+    ctx.lineTo(x + width, y + NOTE_FOLD_SIZE);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    // Wrapped text, vertically centered
+    ctx.fillStyle = '#374151';
+    ctx.font = '12px system-ui, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const lines = this.wrapText(ctx, note.text, width - 12 - NOTE_FOLD_SIZE / 2);
+    const textTop = y + height / 2 - ((lines.length - 1) * NOTE_LINE_HEIGHT) / 2;
+    lines.forEach((line, i) => {
+      ctx.fillText(line, x + 6, textTop + i * NOTE_LINE_HEIGHT);
+    });
+  }
+
+  /**
+   * Splits text into lines that fit the given width, honoring explicit line
+   * breaks and breaking words too long for a line of their own
+   */
+  private wrapText(ctx: DrawingContext, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let current = '';
+      for (const word of paragraph.split(/\s+/)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (!current || ctx.measureText(candidate).width <= maxWidth) {
+          current = candidate;
+        } else {
+          lines.push(current);
+          current = word;
+        }
+        while (ctx.measureText(current).width > maxWidth && current.length > 1) {
+          let end = current.length - 1;
+          while (end > 1 && ctx.measureText(current.slice(0, end)).width > maxWidth) end--;
+          lines.push(current.slice(0, end));
+          current = current.slice(end);
+        }
+      }
+      lines.push(current);
+    }
+    return lines;
+  }
+
   private roundRect(
-    ctx: CanvasRenderingContext2D,
+    ctx: DrawingContext,
     x: number,
     y: number,
     width: number,
@@ -341,6 +858,232 @@ class PDFExporter implements IExporter {
   }
 }
 
+/**
+ * PNG Exporter - Exports diagram as PNG image using canvas-based rendering
+ */
+class PNGExporter extends DiagramExporter {
+  async export(
+    state: SequenceDiagramState,
+    activatedBlocks: Map<string, ActivationBlockData>,
+    fileName: string = 'diagram'
+  ): Promise<ExportResult> {
+    try {
+      const { width, height } = this.getDiagramSize(state);
+
+      // Create canvas for rendering
+      const canvas = document.createElement('canvas');
+      const scale = 2; // Higher resolution for better quality
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        return { success: false, error: 'Failed to create canvas context' };
+      }
+
+      ctx.scale(scale, scale);
+      this.drawDiagram(createCanvasDrawingContext(ctx), state, activatedBlocks, width, height);
+
+      // Convert canvas to blob and download
+      const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((b) => {
+          if (b) {
+            resolve(b);
+          } else {
+            reject(new Error('Failed to create image blob'));
+          }
+        }, 'image/png', 1.0);
+      });
+
+      downloadFile(blob, `${fileName}.png`);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+}
+
+/**
+ * PDF Exporter - Exports diagram as a vector PDF, split across pages between message rows
+ */
+class PDFExporter extends DiagramExporter {
+  constructor(private readonly options: ExportOptions = {}) {
+    super();
+  }
+
+  async export(
+    state: SequenceDiagramState,
+    activatedBlocks: Map<string, ActivationBlockData>,
+    fileName: string = 'diagram'
+  ): Promise<ExportResult> {
+    try {
+      const { width, height } = this.getDiagramSize(state);
+      const drawing = new PdfDrawing(width);
+      this.drawDiagram(drawing, state, activatedBlocks, width, height);
+
+      const size = PDF_PAGE_SIZES[this.options.pageSize ?? 'a4'];
+      const isLandscape = this.options.orientation === 'landscape';
+      const pageWidth = isLandscape ? size.height : size.width;
+      const pageHeight = isLandscape ? size.width : size.height;
+      // Scale the diagram down to the page width, and fit as many rows as the page height allows
+      const scale = Math.min(1, (pageWidth - PDF_PAGE_MARGIN * 2) / width);
+      const bodyHeight = (pageHeight - PDF_PAGE_MARGIN * 2 - PDF_FOOTER_HEIGHT) / scale;
+      const bandHeight = LIFELINE_HEADER_HEIGHT + PDF_HEADER_BAND_PADDING * 2;
+      const rowCount = getRowCount(state.messages.length, state.separators);
+      const breaks = Array.from({ length: rowCount }, (_, row) => getRowTop(row + 1));
+      const slices = getPageSlices(breaks, height, bodyHeight, bodyHeight - bandHeight);
+
+      const pdf = new PdfDocument(fileName);
+      slices.forEach((slice, i) => {
+        pdf.addPage(pageWidth, pageHeight);
+        let y = PDF_PAGE_MARGIN;
+        // Later pages repeat the headers of the lifelines that run through them
+        if (i > 0) {
+          pdf.place(this.drawHeaderBand(state, width, height, slice.top), { top: 0, bottom: bandHeight }, PDF_PAGE_MARGIN, y, scale);
+          y += bandHeight * scale;
+        }
+        pdf.place(drawing, slice, PDF_PAGE_MARGIN, y, scale);
+        pdf.place(this.drawFooter(pageWidth, pageHeight, fileName, i + 1, slices.length), { top: 0, bottom: pageHeight }, 0, 0);
+      });
+
+      downloadFile(pdf.toBlob(), `${fileName}.pdf`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+
+  /**
+   * Draws the headers of the lifelines alive at a page's top, with their dashed lines running on below
+   */
+  private drawHeaderBand(state: SequenceDiagramState, width: number, height: number, pageTop: number): PdfDrawing {
+    const band = new PdfDrawing(width);
+    const bandHeight = LIFELINE_HEADER_HEIGHT + PDF_HEADER_BAND_PADDING * 2;
+    band.fillStyle = '#ffffff';
+    band.fillRect(0, 0, width, bandHeight);
+
+    const lifelines = state.lifelines.filter((lifeline) => {
+      const { top, bottom } = getLifelineLineBounds(lifeline, state.messages, state.separators, height - 40);
+      return top < pageTop && bottom > pageTop;
+    });
+    lifelines.forEach((lifeline) => {
+      const x = getLifelineX(lifeline);
+      band.setLineDash([8, 6]);
+      band.strokeStyle = '#9CA3AF';
+      band.lineWidth = 2;
+      band.lineCap = 'butt';
+      band.beginPath();
+      band.moveTo(x, PDF_HEADER_BAND_PADDING + LIFELINE_HEADER_HEIGHT);
+      band.lineTo(x, bandHeight);
+      band.stroke();
+      band.setLineDash([]);
+      this.drawLifelineHeader(band, lifeline, PDF_HEADER_BAND_PADDING);
+    });
+    return band;
+  }
+
+  /**
+   * Draws the diagram name and page number under a rule at the bottom of the page
+   */
+  private drawFooter(pageWidth: number, pageHeight: number, name: string, page: number, pageCount: number): PdfDrawing {
+    const footer = new PdfDrawing(pageWidth);
+    const y = pageHeight - PDF_PAGE_MARGIN - PDF_FOOTER_HEIGHT / 2 + 4;
+
+    footer.strokeStyle = '#D1D5DB';
+    footer.lineWidth = 0.5;
+    footer.beginPath();
+    footer.moveTo(PDF_PAGE_MARGIN, pageHeight - PDF_PAGE_MARGIN - PDF_FOOTER_HEIGHT + 4);
+    footer.lineTo(pageWidth - PDF_PAGE_MARGIN, pageHeight - PDF_PAGE_MARGIN - PDF_FOOTER_HEIGHT + 4);
+    footer.stroke();
+
+    footer.fillStyle = '#6B7280';
+    footer.font = '9px system-ui, sans-serif';
+    footer.textBaseline = 'middle';
+    footer.textAlign = 'left';
+    footer.fillText(name, PDF_PAGE_MARGIN, y, pageWidth / 2);
+    footer.textAlign = 'right';
+    footer.fillText(`Page ${page} of ${pageCount}`, pageWidth - PDF_PAGE_MARGIN, y);
+    return footer;
+  }
+}
+
+/**
+ * SVG Exporter - Exports diagram as a vector SVG that embeds its .buml source
+ */
+class SVGExporter extends DiagramExporter {
+  async export(
+    state: SequenceDiagramState,
+    activatedBlocks: Map<string, ActivationBlockData>,
+    fileName: string = 'diagram'
+  ): Promise<ExportResult> {
+    try {
+      const { width, height } = this.getDiagramSize(state);
+      const svg = new SvgDocument(width, height, await loadEmbeddedFonts());
+      this.drawDiagram(svg, state, activatedBlocks, width, height);
+
+      const text = svg.toString(fileName, serializeToBuml(state, activatedBlocks, fileName));
+      downloadFile(new Blob([text], { type: 'image/svg+xml' }), `${fileName}.svg`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+}
+
+/**
+ * PlantUML Exporter - Exports diagram as a .puml text file
+ */
+class PlantUMLExporter implements IExporter {
+  async export(
+    state: SequenceDiagramState,
+    activatedBlocks: Map<string, ActivationBlockData>,
+    fileName: string = 'diagram'
+  ): Promise<ExportResult> {
+    try {
+      const text = toPlantUml(state, activatedBlocks);
+      downloadFile(new Blob([text], { type: 'text/plain' }), `${fileName}.puml`);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+}
+
+/**
+ * Mermaid Exporter - Exports diagram as a .mmd sequenceDiagram text file
+ */
+class MermaidExporter implements IExporter {
+  async export(
+    state: SequenceDiagramState,
+    activatedBlocks: Map<string, ActivationBlockData>,
+    fileName: string = 'diagram'
+  ): Promise<ExportResult> {
+    try {
+      const { text, warnings } = toMermaid(state, activatedBlocks);
+      downloadFile(new Blob([text], { type: 'text/plain' }), `${fileName}.mmd`);
+      return { success: true, warnings };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      };
+    }
+  }
+}
+
 /**
  * ExportFactory - Factory Method Pattern implementation
  * Creates exporters based on the requested format
@@ -349,10 +1092,18 @@ export class ExportFactory {
   /**
    * Factory method to create an exporter for the specified format
    */
-  static createExporter(format: ExportFormat): IExporter {
+  static createExporter(format: ExportFormat, options: ExportOptions = {}): IExporter {
     switch (format) {
+      case 'png':
+        return new PNGExporter();
       case 'pdf':
-        return new PDFExporter();
+        return new PDFExporter(options);
+      case 'svg':
+        return new SVGExporter();
+      case 'plantuml':
+        return new PlantUMLExporter();
+      case 'mermaid':
+        return new MermaidExporter();
       default:
         throw new Error(`Unsupported export format: ${format}`);
     }
@@ -365,9 +1116,10 @@ export class ExportFactory {
     format: ExportFormat,
     state: SequenceDiagramState,
     activatedBlocks: Map<string, ActivationBlockData>,
-    fileName?: string
+    fileName?: string,
+    options?: ExportOptions
   ): Promise<ExportResult> {
-    const exporter = ExportFactory.createExporter(format);
+    const exporter = ExportFactory.createExporter(format, options);
     return exporter.export(state, activatedBlocks, fileName);
   }
 }
@@ -0,0 +1,122 @@
+/**
+ * FragmentLayout - Computes the on-canvas geometry of combined fragments.
+ *
+ * Shared by the SVG canvas and the exporters so that frames, operand
+ * separators and nesting insets are drawn identically everywhere.
+ */
+
+import {
+  Fragment,
+  Lifeline,
+  Separator,
+  LIFELINE_HEADER_WIDTH,
+  LIFELINE_SPACING,
+  LIFELINE_START_X,
+  FRAGMENT_PADDING_X,
+  FRAGMENT_PADDING_TOP,
+  FRAGMENT_PADDING_BOTTOM,
+  FRAGMENT_NEST_INSET,
+} from '@/types/diagram';
+import { getMessageY } from '@/lib/RowLayout';
+
+// Resolved geometry of a single fragment frame
+export interface FragmentFrame {
+  fragment: Fragment;
+  depth: number; // Nesting level (0 = top level)
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  operandTops: number[]; // Top y of each operand; the first equals the frame top
+}
+
+/**
+ * Returns the nesting depth of a fragment by following its parent chain
+ */
+function getFragmentDepth(fragment: Fragment, fragmentsById: Map<string, Fragment>): number {
+  let depth = 0;
+  const visited = new Set<string>([fragment.id]);
+  let parentId = fragment.parentId;
+  while (parentId && fragmentsById.has(parentId) && !visited.has(parentId)) {
+    visited.add(parentId);
+    depth += 1;
+    parentId = fragmentsById.get(parentId)?.parentId;
+  }
+  return depth;
+}
+
+/**
+ * Returns the first and last message orders covered by a fragment
+ */
+export function getFragmentOrderRange(fragment: Fragment): { start: number; end: number } {
+  const first = fragment.operands[0];
+  const last = fragment.operands[fragment.operands.length - 1];
+  return {
+    start: first?.startMessageOrder ?? 0,
+    end: last?.endMessageOrder ?? 0,
+  };
+}
+
+/**
+ * Returns the lowest and highest lifeline orders covered by a fragment,
+ * or null when either edge lifeline no longer exists
+ */
+export function getFragmentLifelineRange(
+  fragment: Fragment,
+  lifelines: Lifeline[]
+): { left: number; right: number } | null {
+  const start = lifelines.find((l) => l.id === fragment.startLifelineId);
+  const end = lifelines.find((l) => l.id === fragment.endLifelineId);
+  if (!start || !end) return null;
+  return {
+    left: Math.min(start.order, end.order),
+    right: Math.max(start.order, end.order),
+  };
+}
+
+/**
+ * Computes frames for all fragments, ordered outermost first so that
+ * nested frames are drawn on top of their parents
+ */
+export function layoutFragments(
+  fragments: Fragment[],
+  lifelines: Lifeline[],
+  separators: Separator[]
+): FragmentFrame[] {
+  const fragmentsById = new Map(fragments.map((f) => [f.id, f]));
+  const frames: FragmentFrame[] = [];
+
+  for (const fragment of fragments) {
+    const lifelineRange = getFragmentLifelineRange(fragment, lifelines);
+    if (!lifelineRange || fragment.operands.length === 0) continue;
+
+    const depth = getFragmentDepth(fragment, fragmentsById);
+    const inset = depth * FRAGMENT_NEST_INSET;
+    const { start, end } = getFragmentOrderRange(fragment);
+
+    const x = LIFELINE_START_X + lifelineRange.left * LIFELINE_SPACING - FRAGMENT_PADDING_X + inset;
+    const right =
+      LIFELINE_START_X + lifelineRange.right * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH + FRAGMENT_PADDING_X - inset;
+    const y = getMessageY(start, separators) - FRAGMENT_PADDING_TOP + inset;
+    const bottom = getMessageY(end, separators) + FRAGMENT_PADDING_BOTTOM - inset;
+
+    // Operand separators sit halfway between the previous operand's last message and the next one's first
+    const operandTops = fragment.operands.map((operand, i) => {
+      if (i === 0) return y;
+      const previous = fragment.operands[i - 1];
+      return (getMessageY(previous.endMessageOrder, separators) + getMessageY(operand.startMessageOrder, separators)) / 2;
+    });
+
+    frames.push({
+      fragment,
+      depth,
+      x,
+      y,
+      width: Math.max(right - x, LIFELINE_HEADER_WIDTH),
+      height: Math.max(bottom - y, FRAGMENT_PADDING_TOP),
+      operandTops,
+    });
+  }
+
+  return frames.sort((a, b) => a.depth - b.depth);
+}
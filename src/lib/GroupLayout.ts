@@ -0,0 +1,62 @@
+/**
+ * GroupLayout - Computes the on-canvas geometry of lifeline group boxes.
+ *
+ * Shared by the SVG canvas and the exporters. A group spans from its
+ * leftmost to its rightmost member and runs from above the headers to the
+ * bottom of the lifelines.
+ */
+
+import {
+  Lifeline,
+  LifelineGroup,
+  LIFELINE_HEADER_WIDTH,
+  LIFELINE_SPACING,
+  LIFELINE_START_X,
+  LIFELINE_START_Y,
+  GROUP_PADDING_X,
+  GROUP_PADDING_TOP,
+  GROUP_TITLE_HEIGHT,
+} from '@/types/diagram';
+
+// Resolved geometry of a single group box
+export interface GroupFrame {
+  group: LifelineGroup;
+  left: number; // Lowest member lifeline order
+  right: number; // Highest member lifeline order
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Returns the lowest and highest lifeline orders of a group's members,
+ * or null when none of its members exist
+ */
+export function getGroupLifelineRange(
+  group: LifelineGroup,
+  lifelines: Lifeline[]
+): { left: number; right: number } | null {
+  const orders = lifelines.filter((l) => group.lifelineIds.includes(l.id)).map((l) => l.order);
+  if (orders.length === 0) return null;
+  return { left: Math.min(...orders), right: Math.max(...orders) };
+}
+
+/**
+ * Computes frames for all groups with at least one existing member
+ */
+export function layoutGroups(groups: LifelineGroup[], lifelines: Lifeline[], bottomY: number): GroupFrame[] {
+  const frames: GroupFrame[] = [];
+
+  for (const group of groups) {
+    const range = getGroupLifelineRange(group, lifelines);
+    if (!range) continue;
+
+    const x = LIFELINE_START_X + range.left * LIFELINE_SPACING - GROUP_PADDING_X;
+    const right = LIFELINE_START_X + range.right * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH + GROUP_PADDING_X;
+    const y = LIFELINE_START_Y - GROUP_PADDING_TOP - GROUP_TITLE_HEIGHT;
+    frames.push({ group, ...range, x, y, width: right - x, height: bottomY - y });
+  }
+
+  return frames;
+}
@@ -0,0 +1,105 @@
+/**
+ * LifelineLayout - Computes where lifeline headers and dashed lines are drawn.
+ *
+ * Shared by the SVG canvas and the exporters. A lifeline created by a
+ * "create" message has its header drawn at that message's row, and a
+ * destroyed lifeline stops at its destroy marker instead of running to
+ * the bottom of the diagram. Found and lost messages start or end at the
+ * diagram edge left or right of all lifelines, which is also where a
+ * dragged arrow end dropped past the outermost lifeline connects. A dragged
+ * header is dropped into a slot, the gap in front of the lifeline with that order.
+ */
+
+import {
+  Lifeline,
+  Message,
+  Separator,
+  LIFELINE_HEADER_WIDTH,
+  LIFELINE_HEADER_HEIGHT,
+  LIFELINE_SPACING,
+  LIFELINE_START_X,
+  LIFELINE_START_Y,
+  BOUNDARY_MARGIN,
+  DIAGRAM_BOUNDARY_ID,
+} from '@/types/diagram';
+import { getMessageY } from '@/lib/RowLayout';
+
+/**
+ * Returns the earliest create message targeting a lifeline, if any
+ */
+export function getCreationMessage(lifeline: Lifeline, messages: Message[]): Message | undefined {
+  return messages
+    .filter((m) => m.type === 'create' && m.toLifelineId === lifeline.id && m.fromLifelineId !== lifeline.id)
+    .reduce<Message | undefined>((earliest, m) => (!earliest || m.order < earliest.order ? m : earliest), undefined);
+}
+
+/**
+ * Returns the top y of a lifeline's header, centered on its create message's row when it has one
+ */
+export function getLifelineHeaderY(lifeline: Lifeline, messages: Message[], separators: Separator[]): number {
+  const creation = getCreationMessage(lifeline, messages);
+  return creation ? getMessageY(creation.order, separators) - LIFELINE_HEADER_HEIGHT / 2 : LIFELINE_START_Y;
+}
+
+/**
+ * Returns the y of a lifeline's destroy marker, or undefined when it is never destroyed
+ */
+export function getDestroyMarkerY(lifeline: Lifeline, separators: Separator[]): number | undefined {
+  return lifeline.destroyOrder === undefined ? undefined : getMessageY(lifeline.destroyOrder, separators);
+}
+
+/**
+ * Returns the vertical extent of a lifeline's dashed line. Lines of lifelines
+ * that are never destroyed run down to the given bottom.
+ */
+export function getLifelineLineBounds(
+  lifeline: Lifeline,
+  messages: Message[],
+  separators: Separator[],
+  bottomY: number
+): { top: number; bottom: number } {
+  const top = getLifelineHeaderY(lifeline, messages, separators) + LIFELINE_HEADER_HEIGHT;
+  const destroyY = getDestroyMarkerY(lifeline, separators);
+  return { top, bottom: destroyY === undefined ? bottomY : Math.max(top, destroyY) };
+}
+
+/**
+ * Returns the x of the diagram edge used by found (left) and lost (right) messages
+ */
+export function getBoundaryX(side: 'left' | 'right', lifelines: Lifeline[]): number {
+  if (side === 'left') {
+    return LIFELINE_START_X - BOUNDARY_MARGIN;
+  }
+  const lastOrder = Math.max(0, lifelines.length - 1);
+  return LIFELINE_START_X + lastOrder * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH + BOUNDARY_MARGIN;
+}
+
+/**
+ * Returns the message endpoint a dragged arrow end dropped at x connects to:
+ * the nearest lifeline within half a spacing, or the diagram edge on the given
+ * side when dropped past the outermost lifeline there
+ */
+export function getEndpointAtX(x: number, lifelines: Lifeline[], edge: 'left' | 'right'): string | undefined {
+  if (lifelines.length === 0) return undefined;
+  const getX = (lifeline: Lifeline) => LIFELINE_START_X + lifeline.order * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH / 2;
+  const nearest = lifelines.reduce((best, l) => (Math.abs(getX(l) - x) < Math.abs(getX(best) - x) ? l : best));
+  if (Math.abs(getX(nearest) - x) <= LIFELINE_SPACING / 2) return nearest.id;
+  const xs = lifelines.map(getX);
+  const isPastEdge = edge === 'left' ? x < Math.min(...xs) : x > Math.max(...xs);
+  return isPastEdge ? DIAGRAM_BOUNDARY_ID : undefined;
+}
+
+/**
+ * Returns the x of the gap in front of the lifeline with the given order; slot count is after the last one
+ */
+export function getLifelineSlotX(slot: number): number {
+  return LIFELINE_START_X + slot * LIFELINE_SPACING - (LIFELINE_SPACING - LIFELINE_HEADER_WIDTH) / 2;
+}
+
+/**
+ * Returns the slot nearest to x among the count + 1 gaps around count lifelines
+ */
+export function getNearestLifelineSlot(x: number, count: number): number {
+  const slot = Math.round((x - getLifelineSlotX(0)) / LIFELINE_SPACING);
+  return Math.max(0, Math.min(count, slot));
+}
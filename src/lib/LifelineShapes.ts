@@ -0,0 +1,150 @@
+/**
+ * LifelineShapes - Geometry of the participant glyphs drawn in lifeline headers.
+ *
+ * Shapes are described as SVG path strings so the canvas can render them
+ * directly and the exporters can replay them through Path2D, keeping both
+ * outputs identical.
+ */
+
+import { LifelineKind, LIFELINE_HEADER_WIDTH, LIFELINE_HEADER_HEIGHT } from '@/types/diagram';
+
+export interface LifelineShape {
+  body: string[]; // Filled with the lifeline color
+  bodyOpacity: number;
+  outline: string[]; // Stroked with the lifeline color
+  rim: string[]; // Stroked in white over the body (e.g. cylinder rims)
+  labelInside: boolean; // White label inside the body, or dark label below the glyph
+  labelY: number; // Vertical center of the name label
+}
+
+export const LIFELINE_GLYPH_STROKE_WIDTH = 2;
+
+const GLYPH_RADIUS = 12;
+
+function circle(cx: number, cy: number, r: number): string {
+  return `M ${cx - r} ${cy} a ${r} ${r} 0 1 0 ${2 * r} 0 a ${r} ${r} 0 1 0 ${-2 * r} 0 Z`;
+}
+
+function roundedRect(x: number, y: number, width: number, height: number, r: number): string {
+  return (
+    `M ${x + r} ${y} H ${x + width - r} Q ${x + width} ${y} ${x + width} ${y + r} ` +
+    `V ${y + height - r} Q ${x + width} ${y + height} ${x + width - r} ${y + height} ` +
+    `H ${x + r} Q ${x} ${y + height} ${x} ${y + height - r} V ${y + r} Q ${x} ${y} ${x + r} ${y} Z`
+  );
+}
+
+/**
+ * Returns the paths for a lifeline header of the given kind whose box starts at (x, y)
+ */
+export function getLifelineShape(kind: LifelineKind, x: number, y: number): LifelineShape {
+  const w = LIFELINE_HEADER_WIDTH;
+  const h = LIFELINE_HEADER_HEIGHT;
+  const cx = x + w / 2;
+  const labelBelowY = y + h - 6;
+
+  switch (kind) {
+    case 'actor':
+      return {
+        body: [],
+        bodyOpacity: 1,
+        outline: [
+          circle(cx, y + 9, 6),
+          `M ${cx} ${y + 15} V ${y + 31}`,
+          `M ${cx - 11} ${y + 21} H ${cx + 11}`,
+          `M ${cx - 9} ${y + 42} L ${cx} ${y + 31} L ${cx + 9} ${y + 42}`,
+        ],
+        rim: [],
+        labelInside: false,
+        labelY: labelBelowY,
+      };
+    case 'database': {
+      // Vertical cylinder
+      const x0 = x + 14;
+      const x1 = x + w - 14;
+      const rx = (x1 - x0) / 2;
+      const ry = 7;
+      return {
+        body: [
+          `M ${x0} ${y + ry} A ${rx} ${ry} 0 0 1 ${x1} ${y + ry} V ${y + h - ry} ` +
+            `A ${rx} ${ry} 0 0 1 ${x0} ${y + h - ry} Z`,
+        ],
+        bodyOpacity: 1,
+        outline: [],
+        rim: [`M ${x0} ${y + ry} A ${rx} ${ry} 0 0 0 ${x1} ${y + ry}`],
+        labelInside: true,
+        labelY: y + h / 2 + ry / 2,
+      };
+    }
+    case 'queue': {
+      // Horizontal cylinder
+      const y0 = y + 8;
+      const y1 = y + h - 8;
+      const rx = 8;
+      const ry = (y1 - y0) / 2;
+      const x0 = x + 2;
+      const x1 = x + w - 2;
+      return {
+        body: [
+          `M ${x0 + rx} ${y0} H ${x1 - rx} A ${rx} ${ry} 0 0 1 ${x1 - rx} ${y1} ` +
+            `H ${x0 + rx} A ${rx} ${ry} 0 0 1 ${x0 + rx} ${y0} Z`,
+        ],
+        bodyOpacity: 1,
+        outline: [],
+        rim: [`M ${x1 - rx} ${y0} A ${rx} ${ry} 0 0 0 ${x1 - rx} ${y1}`],
+        labelInside: true,
+        labelY: y + h / 2,
+      };
+    }
+    case 'boundary': {
+      const gx = cx + 6;
+      const gy = y + 20;
+      return {
+        body: [circle(gx, gy, GLYPH_RADIUS)],
+        bodyOpacity: 0.2,
+        outline: [
+          circle(gx, gy, GLYPH_RADIUS),
+          `M ${gx - GLYPH_RADIUS - 12} ${gy - GLYPH_RADIUS} V ${gy + GLYPH_RADIUS}`,
+          `M ${gx - GLYPH_RADIUS - 12} ${gy} H ${gx - GLYPH_RADIUS}`,
+        ],
+        rim: [],
+        labelInside: false,
+        labelY: labelBelowY,
+      };
+    }
+    case 'control': {
+      const gy = y + 21;
+      return {
+        body: [circle(cx, gy, GLYPH_RADIUS)],
+        bodyOpacity: 0.2,
+        outline: [
+          circle(cx, gy, GLYPH_RADIUS),
+          `M ${cx + 5} ${gy - GLYPH_RADIUS - 5} L ${cx - 1} ${gy - GLYPH_RADIUS} L ${cx + 5} ${gy - GLYPH_RADIUS + 5}`,
+        ],
+        rim: [],
+        labelInside: false,
+        labelY: labelBelowY,
+      };
+    }
+    case 'entity': {
+      const gy = y + 19;
+      return {
+        body: [circle(cx, gy, GLYPH_RADIUS)],
+        bodyOpacity: 0.2,
+        outline: [circle(cx, gy, GLYPH_RADIUS), `M ${cx - GLYPH_RADIUS} ${gy + GLYPH_RADIUS + 2} H ${cx + GLYPH_RADIUS}`],
+        rim: [],
+        labelInside: false,
+        labelY: labelBelowY,
+      };
+    }
+    case 'participant':
+    default:
+      return {
+        body: [roundedRect(x, y, w, h, 8)],
+        bodyOpacity: 1,
+        outline: [],
+        rim: [],
+        labelInside: true,
+        labelY: y + h / 2,
+      };
+  }
+}
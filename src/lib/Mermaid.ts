@@ -0,0 +1,247 @@
+/**
+ * Mermaid - Converts diagrams to and from Mermaid sequenceDiagram text.
+ *
+ * Used by the Mermaid exporter and by Load for .mmd files. Actors stay
+ * actors and every other lifeline kind becomes a participant; Mermaid has
+ * no colors or diagram edge, so found and lost messages (and notes on
+ * them) are left out and returned as warnings. Sync calls become "->>",
+ * async messages "-)" and returns "-->>", notes are written at their row,
+ * notes on a message right after it against its endpoints, and
+ * descriptions, active blocks and activations become notes and
+ * activate/deactivate pairs as in the PlantUML exporter. Importing reads
+ * participants, arrows (with "+"/"-" activation shorthands), notes,
+ * activate/deactivate, create/destroy, autonumber and title, and warns
+ * about every line it has to skip or can only approximate.
+ */
+
+import {
+  SequenceDiagramState,
+  Lifeline,
+  Message,
+  MessageType,
+  ActivationBlockData,
+  Note,
+  NotePosition,
+} from '@/types/diagram';
+import { computeMessageNumbers } from '@/lib/MessageNumbering';
+import { formatMessageLabel, parseGuardedLabel } from '@/lib/MessageLabel';
+import {
+  ImportedDiagram,
+  createDiagramReader,
+  getParticipantAliases,
+  getActivationBars,
+  getActivationLines,
+  getNoteAliases,
+} from '@/lib/TextFormats';
+
+export const MERMAID_ARROWS: Record<MessageType, string> = {
+  sync: '->>',
+  async: '-)',
+  return: '-->>',
+  create: '->>',
+};
+
+/**
+ * Escapes text for a single Mermaid line; line breaks become <br/>
+ */
+function escapeText(text: string): string {
+  return text.replace(/;/g, '#59;').replace(/\r?\n/g, '<br/>');
+}
+
+/**
+ * Turns <br/> tags and the escaped semicolon back into text
+ */
+function unescapeText(text: string): string {
+  return text.trim().replace(/<br\s*\/?>/gi, '\n').replace(/#59;/g, ';');
+}
+
+/**
+ * Shortens text for a warning
+ */
+function shorten(text: string): string {
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+/**
+ * Returns a note line against the given aliases
+ */
+function formatNote(note: Note, targets: string[]): string {
+  const position = note.position === 'over' ? 'over' : `${note.position} of`;
+  return `    Note ${position} ${targets.join(',')}: ${escapeText(note.text)}`;
+}
+
+/**
+ * Returns the declaration of a lifeline: actors stay actors, every other kind is a participant
+ */
+function formatParticipant(lifeline: Lifeline, alias: string): string {
+  const keyword = lifeline.kind === 'actor' ? 'actor' : 'participant';
+  return alias === lifeline.name ? `${keyword} ${alias}` : `${keyword} ${alias} as ${escapeText(lifeline.name)}`;
+}
+
+// Mermaid text of a diagram, with the messages that had to be left out
+export interface MermaidExport {
+  text: string;
+  warnings: string[];
+}
+
+/**
+ * Returns the diagram as a Mermaid sequenceDiagram. Found and lost messages
+ * are skipped and described in the warnings by row and label, as are notes
+ * with no lifeline to be written against.
+ */
+export function toMermaid(state: SequenceDiagramState, activatedBlocks: Map<string, ActivationBlockData>): MermaidExport {
+  const lifelines = [...state.lifelines].sort((a, b) => a.order - b.order);
+  const aliases = getParticipantAliases(lifelines);
+  const bars = getActivationBars(state, activatedBlocks);
+  const messages = [...state.messages].sort((a, b) => a.order - b.order);
+  // Mermaid numbers messages 1, 2, 3 itself; other numberings are written into the labels
+  const { autonumber } = state;
+  const isNativeNumbering = autonumber.enabled && autonumber.scheme === 'flat' && autonumber.start === 1;
+  const messageNumbers = isNativeNumbering ? new Map<string, string>() : computeMessageNumbers(state.messages, autonumber);
+  const lines: string[] = ['sequenceDiagram'];
+  const warnings: string[] = [];
+  if (isNativeNumbering) lines.push('    autonumber');
+
+  // Lifelines created by a message are declared at that message instead
+  const createdIds = new Set(messages.filter((m) => m.type === 'create').map((m) => m.toLifelineId));
+  lifelines
+    .filter((l) => !createdIds.has(l.id))
+    .forEach((lifeline) => lines.push(`    ${formatParticipant(lifeline, aliases.get(lifeline.id) ?? lifeline.name)}`));
+
+  // Notes on lifelines sit at a message row, the others follow their message
+  const rowNotes = state.notes.filter((n) => !n.messageId);
+  const writeNote = (note: Note, message?: Message) => {
+    const targets = getNoteAliases(note, lifelines, aliases, message);
+    if (targets.length > 0) lines.push(formatNote(note, targets));
+    else warnings.push(`note (${shorten(note.text)})`);
+  };
+
+  messages.forEach((message: Message, index) => {
+    const from = aliases.get(message.fromLifelineId);
+    const to = aliases.get(message.toLifelineId);
+    rowNotes.filter((n) => n.messageOrder === message.order).forEach((note) => writeNote(note));
+    const messageNotes = state.notes.filter((n) => n.messageId === message.id);
+    if (from && to) {
+      const created = message.type === 'create' ? lifelines.find((l) => l.id === message.toLifelineId) : undefined;
+      if (created && createdIds.delete(created.id)) lines.push(`    create ${formatParticipant(created, to)}`);
+      // A lifeline ends at the message that destroys it
+      const destroyed = lifelines.find(
+        (l) => l.destroyOrder === message.order && (l.id === message.fromLifelineId || l.id === message.toLifelineId)
+      );
+      if (destroyed) lines.push(`    destroy ${aliases.get(destroyed.id)}`);
+
+      const label = formatMessageLabel(message, messageNumbers.get(message.id));
+      lines.push(`    ${from}${MERMAID_ARROWS[message.type]}${to}: ${escapeText(label)}`);
+      if (message.description) {
+        lines.push(`    Note right of ${to}: ${escapeText(message.description)}`);
+      }
+      messageNotes.forEach((note) => writeNote(note, message));
+    } else {
+      const kind = from ? 'lost' : 'found';
+      warnings.push(message.label ? `${kind} message ${index + 1} (${shorten(message.label)})` : `${kind} message ${index + 1}`);
+      messageNotes.forEach((note) => warnings.push(`note on ${kind} message ${index + 1} (${shorten(note.text)})`));
+    }
+    lines.push(...getActivationLines(bars, message.order, (keyword, lifelineId) => `    ${keyword} ${aliases.get(lifelineId)}`));
+  });
+
+  // Notes below the last message
+  rowNotes.filter((n) => !messages.some((m) => m.order === n.messageOrder)).forEach((note) => writeNote(note));
+
+  return { text: `${lines.join('\n')}\n`, warnings };
+}
+
+const ID = '[^\\s:+\\-<>()]+?';
+const PARTICIPANT_PATTERN = /^(create\s+)?(participant|actor)\s+(\S+?)(?:\s+as\s+(.+))?$/;
+// Longest arrows first: "-->>" before "->>" before "->"
+const ARROW_PATTERN = new RegExp(`^(${ID})\\s*(-->>|->>|--\\)|-\\)|--x|-x|-->|->)\\s*([+-]?)\\s*(${ID})\\s*(?::(.*))?$`);
+const NOTE_PATTERN = /^note\s+(left of|right of|over)\s+([^:]+?)\s*:(.*)$/i;
+const TITLE_PATTERN = /^title:?\s+(.+)$/;
+
+// Arrow types, and whether the arrow is only approximated (no head or a cross)
+const ARROW_TYPES: Record<string, { type: MessageType; approximate?: boolean }> = {
+  '->>': { type: 'sync' },
+  '-->>': { type: 'return' },
+  '-)': { type: 'async' },
+  '--)': { type: 'return' },
+  '->': { type: 'sync', approximate: true },
+  '-->': { type: 'return', approximate: true },
+  '-x': { type: 'sync', approximate: true },
+  '--x': { type: 'return', approximate: true },
+};
+
+/**
+ * Reads a Mermaid sequenceDiagram. Lines that cannot be represented are
+ * skipped, and arrows drawn differently here are approximated; both are
+ * returned as warnings with their line numbers.
+ */
+export function parseMermaid(content: string): ImportedDiagram {
+  const reader = createDiagramReader();
+  const lines = content.split(/\r?\n/);
+  let index = 0;
+
+  // Front matter may set the title
+  while (index < lines.length && lines[index].trim() === '') index++;
+  if (lines[index]?.trim() === '---') {
+    for (index++; index < lines.length && lines[index].trim() !== '---'; index++) {
+      const match = lines[index].trim().match(/^title:\s*(.+)$/);
+      if (match) reader.setTitle(match[1].trim());
+    }
+    index++;
+  }
+  while (index < lines.length && (lines[index].trim() === '' || lines[index].trim().startsWith('%%'))) index++;
+  if (lines[index]?.trim() !== 'sequenceDiagram') {
+    throw new Error('Not a Mermaid sequence diagram: expected "sequenceDiagram"');
+  }
+
+  let pendingDestroy: { lifelineId: string; line: number; text: string } | null = null;
+  for (index++; index < lines.length; index++) {
+    const line = lines[index].trim();
+    const lineNumber = index + 1;
+    if (line === '' || line.startsWith('%%')) continue;
+
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(TITLE_PATTERN))) {
+      reader.setTitle(match[1].trim());
+    } else if (line === 'autonumber') {
+      reader.enableAutonumber();
+    } else if ((match = line.match(PARTICIPANT_PATTERN))) {
+      const [, create, kind, id, name] = match;
+      const lifeline = reader.declare(kind === 'actor' ? 'actor' : 'participant', name ? unescapeText(name) : id, id);
+      if (create) reader.markCreated(lifeline.id);
+    } else if ((match = line.match(/^destroy\s+(\S+)$/))) {
+      // The next message is the one that destroys the lifeline
+      pendingDestroy = { lifelineId: reader.getLifeline(match[1]).id, line: lineNumber, text: line };
+    } else if ((match = line.match(/^activate\s+(\S+)$/))) {
+      reader.activate(reader.getLifeline(match[1]).id);
+    } else if ((match = line.match(/^deactivate\s+(\S+)$/))) {
+      if (!reader.deactivate(reader.getLifeline(match[1]).id)) reader.warn(lineNumber, line);
+    } else if ((match = line.match(NOTE_PATTERN))) {
+      const position = match[1].split(' ')[0].toLowerCase() as NotePosition;
+      const lifelineIds = match[2].split(',').map((id) => reader.getLifeline(id.trim()).id);
+      reader.addNote(position, lifelineIds, unescapeText(match[3]));
+    } else if ((match = line.match(ARROW_PATTERN))) {
+      const [, from, arrow, activation, to, text] = match;
+      const { type, approximate } = ARROW_TYPES[arrow];
+      if (approximate) reader.warn(lineNumber, line);
+      const fromLifelineId = reader.getLifeline(from).id;
+      const toLifelineId = reader.getLifeline(to).id;
+      const { guard, label } = parseGuardedLabel((text ?? '').trim());
+      reader.addMessage(fromLifelineId, toLifelineId, type, unescapeText(label), guard && unescapeText(guard));
+      // "+" activates the receiver and "-" deactivates the sender at this message
+      if (activation === '+') reader.activate(toLifelineId);
+      if (activation === '-') reader.deactivate(fromLifelineId);
+      if (pendingDestroy) {
+        reader.destroy(pendingDestroy.lifelineId);
+        pendingDestroy = null;
+      }
+    } else {
+      reader.warn(lineNumber, line);
+    }
+  }
+
+  // A destroy with no message after it is dropped
+  if (pendingDestroy) {
+    reader.warn(pendingDestroy.line, pendingDestroy.text);
+  }
+  return reader.finish();
+}
@@ -0,0 +1,35 @@
+/**
+ * MessageLabel - Builds the text drawn above a message arrow.
+ *
+ * Shared by the SVG canvas and the exporters. The autonumber and the
+ * guard are kept out of the stored label and only joined in for display:
+ * "2. [user is logged in] login()". Editing in place works on the same
+ * text, so a leading bracketed condition is split back off as the guard.
+ */
+
+import { Message } from '@/types/diagram';
+
+/**
+ * Returns the label with its guard, as shown and edited in place, e.g. "[user is logged in] login()"
+ */
+export function formatGuardedLabel(message: Message): string {
+  return message.guard ? `[${message.guard}] ${message.label}`.trim() : message.label;
+}
+
+/**
+ * Returns the full display label, prefixed with the message's autonumber when it has one
+ */
+export function formatMessageLabel(message: Message, number?: string): string {
+  const guardedLabel = formatGuardedLabel(message);
+  return number ? `${number} ${guardedLabel}`.trim() : guardedLabel;
+}
+
+/**
+ * Splits edited label text into a guard (a leading bracketed condition) and the label
+ */
+export function parseGuardedLabel(text: string): { guard?: string; label: string } {
+  const match = text.match(/^\s*\[([^\]]*)\]\s*(.*)$/);
+  if (!match) return { label: text };
+  const guard = match[1].trim();
+  return { guard: guard || undefined, label: match[2] };
+}
@@ -0,0 +1,76 @@
+/**
+ * MessageNumbering - Computes the automatic sequence numbers shown before message labels.
+ *
+ * Numbers are derived from message order on every render and are never
+ * written into labels, so reordering or deleting messages renumbers the
+ * diagram. The hierarchical scheme follows call nesting: a sync or create
+ * call opens a level for the messages its receiver sends next, and the
+ * matching return closes it again.
+ */
+
+import { Message, AutonumberSettings, DIAGRAM_BOUNDARY_ID } from '@/types/diagram';
+
+// A call whose receiver is still handling it
+interface CallFrame {
+  calleeId?: string; // Undefined for the top level
+  path: number[]; // Number of the call that opened this frame
+  count: number; // Messages numbered inside this frame so far
+}
+
+/**
+ * Applies the format template to a number, appending it when the template has no "{n}" placeholder
+ */
+function formatMessageNumber(format: string, value: string): string {
+  return format.includes('{n}') ? format.replace(/\{n\}/g, value) : `${format}${value}`;
+}
+
+function computeHierarchicalPaths(sorted: Message[], start: number): number[][] {
+  const stack: CallFrame[] = [{ path: [], count: start - 1 }];
+  const top = () => stack[stack.length - 1];
+
+  return sorted.map((message) => {
+    // A sender outside the innermost call means that call (and any above it) has ended
+    while (stack.length > 1 && top().calleeId !== message.fromLifelineId) {
+      stack.pop();
+    }
+    // A return closes the call its sender was handling and is numbered beside that call
+    if (message.type === 'return' && stack.length > 1) {
+      stack.pop();
+    }
+
+    const frame = top();
+    frame.count += 1;
+    const path = [...frame.path, frame.count];
+
+    const opensCall =
+      (message.type === 'sync' || message.type === 'create') &&
+      message.toLifelineId !== DIAGRAM_BOUNDARY_ID &&
+      message.toLifelineId !== message.fromLifelineId;
+    if (opensCall) {
+      stack.push({ calleeId: message.toLifelineId, path, count: 0 });
+    }
+    return path;
+  });
+}
+
+/**
+ * Returns the formatted number of every message keyed by message id,
+ * or an empty map when autonumbering is disabled
+ */
+export function computeMessageNumbers(messages: Message[], settings: AutonumberSettings): Map<string, string> {
+  const numbers = new Map<string, string>();
+  if (!settings.enabled) return numbers;
+
+  const sorted = [...messages].sort((a, b) => a.order - b.order);
+  if (settings.scheme === 'hierarchical') {
+    const paths = computeHierarchicalPaths(sorted, settings.start);
+    sorted.forEach((message, i) => {
+      numbers.set(message.id, formatMessageNumber(settings.format, paths[i].join('.')));
+    });
+  } else {
+    sorted.forEach((message, i) => {
+      numbers.set(message.id, formatMessageNumber(settings.format, String(settings.start + i)));
+    });
+  }
+  return numbers;
+}
@@ -0,0 +1,161 @@
+/**
+ * MessageOrder - Renumbers message rows when a message is inserted or moved.
+ *
+ * Everything bound to message orders moves along with the messages:
+ * activation bars and duration constraints follow the messages they start
+ * and end at, notes and destroy markers follow the message drawn at their
+ * row, fragment operands keep framing the messages they covered, and the
+ * slots between messages (dividers, delays and refs) stay in front of the
+ * message that came after them.
+ */
+
+import { Activation, DurationConstraint, Fragment, Lifeline, Message, Note, Separator } from '@/types/diagram';
+
+// Where an inserted message goes relative to the selected one
+export type InsertPlacement = 'above' | 'below';
+
+// A new message's place next to an existing one
+export interface InsertPosition {
+  order: number; // Order of the existing message
+  placement: InsertPlacement;
+}
+
+// How orders change when the messages are renumbered; inserting and moving
+// keep every message, so every old order maps to a new one and none is removed
+export interface OrderMap {
+  message: (order: number) => number; // New order of the message that had this order
+  slot: (slot: number) => number; // New position of a slot that sat before the message with this order
+  moved?: { from: number; to: number }; // Set when an existing message changed rows
+}
+
+/**
+ * Returns the order a message inserted at a position gets
+ */
+export function getInsertedOrder({ order, placement }: InsertPosition): number {
+  return placement === 'above' ? order : order + 1;
+}
+
+/**
+ * Returns the renumbering for a new message inserted above or below the message with the given order
+ */
+export function getInsertOrderMap({ order: selectedOrder, placement }: InsertPosition): OrderMap {
+  const order = getInsertedOrder({ order: selectedOrder, placement });
+  return {
+    message: (o) => (o >= order ? o + 1 : o),
+    // The new message lands right next to the selected one, on its side of any slot
+    slot: (s) => (placement === 'above' ? (s > order ? s + 1 : s) : s >= order ? s + 1 : s),
+  };
+}
+
+/**
+ * Returns the renumbering for a message moved from one order to another
+ */
+export function getMoveOrderMap(from: number, to: number, messageCount: number): OrderMap {
+  const message = (o: number) => {
+    if (o === from) return to;
+    if (from < to && o > from && o <= to) return o - 1;
+    if (from > to && o >= to && o < from) return o + 1;
+    return o;
+  };
+  return {
+    message,
+    slot: (s) => {
+      // A message moved up into a row lands below the slots in front of that row
+      if (from > to && s === to) return to;
+      const next = s === from ? s + 1 : s;
+      return next >= messageCount ? messageCount : message(next);
+    },
+    moved: { from, to },
+  };
+}
+
+/**
+ * Returns the inclusive range a moved or shifted range covers, following the messages at its ends
+ */
+function mapSpan(start: number, end: number, map: OrderMap): { start: number; end: number } {
+  const a = map.message(start);
+  const b = map.message(end);
+  return { start: Math.min(a, b), end: Math.max(a, b) };
+}
+
+/**
+ * Returns the inclusive range framing the same messages as before; a message
+ * moved out of it is left out and one dropped inside it is taken in
+ */
+function mapCoveredRange(start: number, end: number, map: OrderMap): { start: number; end: number } {
+  if (!map.moved) return mapSpan(start, end, map);
+  const { from, to } = map.moved;
+  const covered: number[] = [];
+  for (let o = start; o <= end; o++) {
+    if (o !== from) covered.push(map.message(o));
+  }
+  if (covered.length === 0) return { start: to, end: to };
+  return { start: Math.min(...covered), end: Math.max(...covered) };
+}
+
+/**
+ * Returns the messages with their new orders; no order is removed, so every message is kept
+ */
+export function remapMessages(messages: Message[], map: OrderMap): Message[] {
+  return messages.map((m) => ({ ...m, order: map.message(m.order) }));
+}
+
+/**
+ * Returns the activation bars spanning their start and end messages' new orders; none is dropped
+ */
+export function remapActivations(activations: Activation[], map: OrderMap): Activation[] {
+  return activations.map((a) => {
+    const { start, end } = mapSpan(a.startMessageOrder, a.endMessageOrder, map);
+    return { ...a, startMessageOrder: start, endMessageOrder: end };
+  });
+}
+
+/**
+ * Returns the duration constraints spanning their start and end messages' new orders; none is dropped
+ */
+export function remapDurations(durations: DurationConstraint[], map: OrderMap): DurationConstraint[] {
+  return durations.map((d) => {
+    const { start, end } = mapSpan(d.startMessageOrder, d.endMessageOrder, map);
+    return { ...d, startMessageOrder: start, endMessageOrder: end };
+  });
+}
+
+/**
+ * Returns the fragments with each operand framing the same messages; none is
+ * dropped, and operands stay contiguous, so a row opened up between two
+ * operands joins the lower one
+ */
+export function remapFragments(fragments: Fragment[], map: OrderMap): Fragment[] {
+  return fragments.map((f) => {
+    let previousEnd: number | undefined;
+    const operands = f.operands.map((operand) => {
+      const range = mapCoveredRange(operand.startMessageOrder, operand.endMessageOrder, map);
+      const start = previousEnd === undefined ? range.start : previousEnd + 1;
+      const end = Math.max(start, range.end);
+      previousEnd = end;
+      return { ...operand, startMessageOrder: start, endMessageOrder: end };
+    });
+    return { ...f, operands };
+  });
+}
+
+/**
+ * Returns the notes at the new order of the message they sat at; none is dropped
+ */
+export function remapNotes(notes: Note[], map: OrderMap): Note[] {
+  return notes.map((n) => ({ ...n, messageOrder: map.message(n.messageOrder) }));
+}
+
+/**
+ * Returns the separators at the new slot in front of the message that followed them; none is dropped
+ */
+export function remapSeparators(separators: Separator[], map: OrderMap): Separator[] {
+  return separators.map((s) => ({ ...s, beforeMessageOrder: map.slot(s.beforeMessageOrder) }));
+}
+
+/**
+ * Returns the lifelines with destroy markers at the new order of their message; lifelines without one are unchanged
+ */
+export function remapLifelines(lifelines: Lifeline[], map: OrderMap): Lifeline[] {
+  return lifelines.map((l) => (l.destroyOrder !== undefined ? { ...l, destroyOrder: map.message(l.destroyOrder) } : l));
+}
@@ -0,0 +1,58 @@
+/**
+ * MessagePairing - Links return messages to the calls they answer.
+ *
+ * A return may name the sync call it replies to with replyTo. A valid reply
+ * comes later than its call and travels the call's path in reverse, so the
+ * response always goes back to the lifeline that asked.
+ */
+
+import { Message } from '@/types/diagram';
+
+/**
+ * Returns whether a return message correctly answers a call
+ */
+export function isValidReply(reply: Message, call: Message): boolean {
+  return (
+    reply.type === 'return' &&
+    call.type === 'sync' &&
+    reply.order > call.order &&
+    reply.fromLifelineId === call.toLifelineId &&
+    reply.toLifelineId === call.fromLifelineId
+  );
+}
+
+/**
+ * Returns the return message answering a call, if any
+ */
+export function findReply(messages: Message[], callId: string): Message | undefined {
+  return messages.find((m) => m.replyTo === callId);
+}
+
+/**
+ * Returns the ids of a message and its partner: the call a return answers, or the return answering a call
+ */
+export function getPairedMessageIds(messages: Message[], id: string): Set<string> {
+  const ids = new Set([id]);
+  const message = messages.find((m) => m.id === id);
+  if (message?.replyTo) {
+    ids.add(message.replyTo);
+  }
+  const reply = findReply(messages, id);
+  if (reply) {
+    ids.add(reply.id);
+  }
+  return ids;
+}
+
+/**
+ * Drops replyTo links whose call no longer exists or is no longer answered correctly
+ */
+export function removeInvalidReplies(messages: Message[]): Message[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  return messages.map((m) => {
+    if (!m.replyTo) return m;
+    const call = byId.get(m.replyTo);
+    if (call && isValidReply(m, call)) return m;
+    return { ...m, replyTo: undefined };
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * MessagePayload - Builds the compact text shown for a message's structured payload.
+ *
+ * Shared by the SVG canvas and the exporters. A call reads like the request
+ * line of the protocol ("POST /api/chat { prompt }") followed by the
+ * response when one is recorded ("→ 200 { reply }"); a return shows only
+ * the response.
+ */
+
+import { Message, MessagePayload, MessageProtocol } from '@/types/diagram';
+
+// Prefix written before the path of non-HTTP calls
+const PROTOCOL_PREFIXES: Record<MessageProtocol, string> = {
+  http: '',
+  websocket: 'WS',
+  grpc: 'gRPC',
+  event: 'event',
+};
+
+/**
+ * Returns whether a number is a valid response status code
+ */
+export function isValidStatus(status: number): boolean {
+  return Number.isInteger(status) && status >= 100 && status <= 599;
+}
+
+/**
+ * Returns a copy of the payload without empty fields, or undefined when nothing is left
+ */
+export function normalizePayload(payload: MessagePayload | undefined): MessagePayload | undefined {
+  if (!payload) return undefined;
+  const normalized: MessagePayload = {};
+  if (payload.protocol) normalized.protocol = payload.protocol;
+  if (payload.method && (!payload.protocol || payload.protocol === 'http')) normalized.method = payload.method;
+  if (payload.path?.trim()) normalized.path = payload.path.trim();
+  if (payload.params?.trim()) normalized.params = payload.params.trim();
+  if (payload.status !== undefined && isValidStatus(payload.status)) normalized.status = payload.status;
+  if (payload.returns?.trim()) normalized.returns = payload.returns.trim();
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Returns the request part of a payload, e.g. "POST /api/chat { prompt }"
+ */
+function formatRequest(payload: MessagePayload): string {
+  const prefix = payload.protocol ? PROTOCOL_PREFIXES[payload.protocol] : '';
+  return [prefix, payload.method, payload.path, payload.params].filter(Boolean).join(' ');
+}
+
+/**
+ * Returns the response part of a payload, e.g. "200 { reply }"
+ */
+function formatResponse(payload: MessagePayload): string {
+  return [payload.status?.toString(), payload.returns].filter(Boolean).join(' ');
+}
+
+/**
+ * Returns the compact payload text of a message, or an empty string when it has no payload
+ */
+export function formatPayloadSummary(message: Message): string {
+  if (!message.payload) return '';
+  const request = formatRequest(message.payload);
+  const response = formatResponse(message.payload);
+  if (message.type === 'return') {
+    return response || request;
+  }
+  return response ? `${request} → ${response}`.trim() : request;
+}
@@ -0,0 +1,108 @@
+/**
+ * NoteLayout - Computes the on-canvas geometry of notes.
+ *
+ * Shared by the SVG canvas and the exporters. Notes attached to a message
+ * take their row and lifelines from that message, so they follow it when
+ * it is renumbered or its lifelines are reordered.
+ */
+
+import {
+  Note,
+  Lifeline,
+  Message,
+  Separator,
+  LIFELINE_HEADER_WIDTH,
+  LIFELINE_SPACING,
+  LIFELINE_START_X,
+  ACTIVATION_WIDTH,
+  NOTE_WIDTH,
+  NOTE_MIN_HEIGHT,
+  NOTE_LINE_HEIGHT,
+  NOTE_CHARS_PER_LINE,
+  NOTE_GAP,
+} from '@/types/diagram';
+import { getMessageY } from '@/lib/RowLayout';
+
+// Resolved geometry of a single note
+export interface NoteFrame {
+  note: Note;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function getLifelineX(lifeline: Lifeline): number {
+  return LIFELINE_START_X + lifeline.order * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH / 2;
+}
+
+/**
+ * Estimates the height of a note from its text length and explicit line breaks
+ */
+export function getNoteHeight(text: string, width: number = NOTE_WIDTH): number {
+  const charsPerLine = Math.max(1, Math.floor((NOTE_CHARS_PER_LINE * width) / NOTE_WIDTH));
+  const lines = text
+    .split('\n')
+    .reduce((total, line) => total + Math.max(1, Math.ceil(line.length / charsPerLine)), 0);
+  return Math.max(NOTE_MIN_HEIGHT, lines * NOTE_LINE_HEIGHT + 12);
+}
+
+/**
+ * Returns the lifelines and row a note is anchored to
+ */
+export function resolveNoteAnchor(
+  note: Note,
+  lifelines: Lifeline[],
+  messages: Message[]
+): { lifelines: Lifeline[]; order: number } {
+  const message = note.messageId ? messages.find((m) => m.id === note.messageId) : undefined;
+  const lifelineIds = message ? [message.fromLifelineId, message.toLifelineId] : note.lifelineIds;
+  return {
+    lifelines: lifelines.filter((l) => lifelineIds.includes(l.id)),
+    order: message ? message.order : note.messageOrder,
+  };
+}
+
+/**
+ * Computes frames for all notes whose anchors still exist
+ */
+export function layoutNotes(
+  notes: Note[],
+  lifelines: Lifeline[],
+  messages: Message[],
+  separators: Separator[]
+): NoteFrame[] {
+  const frames: NoteFrame[] = [];
+
+  for (const note of notes) {
+    const anchor = resolveNoteAnchor(note, lifelines, messages);
+    if (anchor.lifelines.length === 0) continue;
+
+    const xs = anchor.lifelines.map(getLifelineX);
+    const leftX = Math.min(...xs);
+    const rightX = Math.max(...xs);
+
+    let x: number;
+    let width = NOTE_WIDTH;
+    if (note.position === 'left') {
+      x = leftX - ACTIVATION_WIDTH / 2 - NOTE_GAP - NOTE_WIDTH;
+    } else if (note.position === 'right') {
+      x = rightX + ACTIVATION_WIDTH / 2 + NOTE_GAP;
+    } else {
+      // 'over' spans from the leftmost to the rightmost lifeline
+      width = rightX - leftX + NOTE_WIDTH;
+      x = leftX - NOTE_WIDTH / 2;
+    }
+
+    const height = getNoteHeight(note.text, width);
+    frames.push({
+      note,
+      x,
+      y: getMessageY(anchor.order, separators) - height / 2,
+      width,
+      height,
+    });
+  }
+
+  return frames;
+}
@@ -0,0 +1,564 @@
+/**
+ * PdfDocument - Writes vector PDF files in the browser, with no server or library.
+ *
+ * A PdfDrawing records the same canvas-style calls as SvgDocument as PDF
+ * path and text operators, each kept with the vertical range it covers.
+ * PdfDocument then places slices of drawings onto pages, clipped to the
+ * slice, so a long diagram can be split across pages and only the content
+ * of each slice ends up on its page. Text uses the standard Helvetica and
+ * Courier fonts, which every viewer has, so it stays selectable and
+ * searchable; characters outside their Latin character set print as "?".
+ * PDF has no blur, so shadows are left out.
+ */
+
+import { DrawingContext, parseCanvasFont } from '@/lib/SvgDocument';
+
+export type PdfPageSize = 'a4' | 'a3' | 'letter' | 'legal';
+export type PdfOrientation = 'portrait' | 'landscape';
+
+// Portrait page sizes in points (1/72 inch)
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  a3: { label: 'A3', width: 841.89, height: 1190.55 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+  legal: { label: 'Legal', width: 612, height: 1008 },
+};
+
+export const PDF_ORIENTATIONS: PdfOrientation[] = ['portrait', 'landscape'];
+
+// Standard fonts by resource name
+const FONTS = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Helvetica-Oblique',
+  F4: 'Helvetica-BoldOblique',
+  F5: 'Courier',
+};
+type FontName = keyof typeof FONTS;
+
+// Glyph widths in 1/1000 em of the printable ASCII characters, from the Helvetica metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const COURIER_WIDTH = 600;
+const DEFAULT_WIDTH = 556;
+
+// Characters of the Windows code page used by the standard fonts that differ from Latin-1
+const WIN_ANSI_CODES: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a,
+  '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Baseline offsets from the y given to fillText, in em
+const BASELINE_OFFSETS: Record<CanvasTextBaseline, number> = {
+  top: 0.75,
+  hanging: 0.75,
+  middle: 0.35,
+  alphabetic: 0,
+  ideographic: -0.2,
+  bottom: -0.2,
+};
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Returns the character code of each character in the fonts' encoding, "?" for the ones it lacks
+ */
+function encodeText(text: string): number[] {
+  return Array.from(text).map((char) => {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI_CODES[char] !== undefined) return WIN_ANSI_CODES[char];
+    return code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f;
+  });
+}
+
+/**
+ * Returns encoded text as a PDF string literal, keeping the file plain ASCII
+ */
+function formatTextString(codes: number[]): string {
+  const body = codes
+    .map((code) => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) return `\\${String.fromCharCode(code)}`;
+      return code >= 0x20 && code < 0x7f ? String.fromCharCode(code) : `\\${code.toString(8).padStart(3, '0')}`;
+    })
+    .join('');
+  return `(${body})`;
+}
+
+/**
+ * Returns the red, green, blue (0-1) and alpha of a CSS color, or undefined when nothing is painted
+ */
+function parseColor(color: string | CanvasGradient | CanvasPattern): { rgb: number[]; alpha: number } | undefined {
+  if (typeof color !== 'string' || color === 'transparent') return undefined;
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return { rgb: [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) / 255), alpha: 1 };
+  }
+  const rgba = color.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgba) {
+    return { rgb: [rgba[1], rgba[2], rgba[3]].map((c) => Number(c) / 255), alpha: rgba[4] === undefined ? 1 : Number(rgba[4]) };
+  }
+  return { rgb: [0, 0, 0], alpha: 1 };
+}
+
+// A recorded drawing operation and the vertical range it paints
+interface PdfOperation {
+  content: string;
+  top: number;
+  bottom: number;
+}
+
+type Point = { x: number; y: number };
+
+/**
+ * A DrawingContext that records PDF operators, to be placed on pages by a PdfDocument
+ */
+export class PdfDrawing implements DrawingContext {
+  fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  lineWidth = 1;
+  lineCap: CanvasLineCap = 'butt';
+  lineJoin: CanvasLineJoin = 'miter';
+  globalAlpha = 1;
+  font = '10px sans-serif';
+  textAlign: CanvasTextAlign = 'start';
+  textBaseline: CanvasTextBaseline = 'alphabetic';
+  shadowColor = 'transparent';
+  shadowBlur = 0;
+  shadowOffsetY = 0;
+
+  readonly alphas = new Set<number>(); // Opacities used, each needing a graphics state
+  private readonly operations: PdfOperation[] = [];
+  private path: string[] = [];
+  private pathTop = Infinity;
+  private pathBottom = -Infinity;
+  private current: Point | null = null;
+  private subpathStart: Point | null = null;
+  private lineDash: number[] = [];
+
+  constructor(readonly width: number) {}
+
+  beginPath(): void {
+    this.path = [];
+    this.pathTop = Infinity;
+    this.pathBottom = -Infinity;
+    this.current = null;
+    this.subpathStart = null;
+  }
+
+  closePath(): void {
+    if (!this.current) return;
+    this.path.push('h');
+    this.current = this.subpathStart;
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push(`${formatNumber(x)} ${formatNumber(y)} m`);
+    this.current = this.subpathStart = { x, y };
+    this.extendPath(y);
+  }
+
+  lineTo(x: number, y: number): void {
+    if (!this.current) {
+      this.moveTo(x, y);
+      return;
+    }
+    this.path.push(`${formatNumber(x)} ${formatNumber(y)} l`);
+    this.current = { x, y };
+    this.extendPath(y);
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    const from = this.current ?? { x: cpx, y: cpy };
+    this.curveTo(
+      from.x + ((cpx - from.x) * 2) / 3,
+      from.y + ((cpy - from.y) * 2) / 3,
+      x + ((cpx - x) * 2) / 3,
+      y + ((cpy - y) * 2) / 3,
+      x,
+      y
+    );
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false): void {
+    let sweep = endAngle - startAngle;
+    if (!counterclockwise && sweep < 0) sweep = (sweep % (Math.PI * 2)) + Math.PI * 2;
+    if (counterclockwise && sweep > 0) sweep = (sweep % (Math.PI * 2)) - Math.PI * 2;
+    sweep = Math.max(-Math.PI * 2, Math.min(Math.PI * 2, sweep));
+
+    const start = { x: x + radius * Math.cos(startAngle), y: y + radius * Math.sin(startAngle) };
+    if (this.current) this.lineTo(start.x, start.y);
+    else this.moveTo(start.x, start.y);
+    this.ellipseTo(x, y, radius, radius, 0, startAngle, sweep);
+  }
+
+  setLineDash(segments: number[]): void {
+    this.lineDash = segments;
+  }
+
+  fill(): void {
+    const paint = this.getFillState();
+    if (this.path.length === 0 || !paint) return;
+    this.record(`q ${paint} ${this.path.join(' ')} f Q`, this.pathTop, this.pathBottom);
+  }
+
+  stroke(): void {
+    const paint = this.getStrokeState();
+    if (this.path.length === 0 || !paint) return;
+    const half = this.lineWidth / 2;
+    this.record(`q ${paint} ${this.path.join(' ')} S Q`, this.pathTop - half, this.pathBottom + half);
+  }
+
+  fillPath(d: string): void {
+    this.withPathData(d, () => this.fill());
+  }
+
+  strokePath(d: string): void {
+    this.withPathData(d, () => this.stroke());
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    const paint = this.getFillState();
+    if (!paint) return;
+    const rect = `${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re`;
+    this.record(`q ${paint} ${rect} f Q`, Math.min(y, y + height), Math.max(y, y + height));
+  }
+
+  fillText(text: string, x: number, y: number, maxWidth?: number): void {
+    const paint = this.getFillState();
+    if (paint) this.recordText(text, x, y, paint, '0 Tr', maxWidth);
+  }
+
+  strokeText(text: string, x: number, y: number, maxWidth?: number): void {
+    const paint = this.getStrokeState();
+    if (paint) this.recordText(text, x, y, paint, '1 Tr', maxWidth);
+  }
+
+  measureText(text: string): TextMetrics {
+    const { name, size } = this.getFont();
+    const width = encodeText(text).reduce((sum, code) => sum + this.getGlyphWidth(name, code), 0);
+    return { width: (width * size) / 1000 } as TextMetrics;
+  }
+
+  /**
+   * Returns the operations that paint anything between two y values
+   */
+  getContent(top: number, bottom: number): string {
+    return this.operations
+      .filter((operation) => operation.bottom >= top && operation.top <= bottom)
+      .map((operation) => operation.content)
+      .join('\n');
+  }
+
+  private record(content: string, top: number, bottom: number): void {
+    this.operations.push({ content, top, bottom });
+  }
+
+  private recordText(text: string, x: number, y: number, paint: string, mode: string, maxWidth?: number): void {
+    if (!text) return;
+    const { name, size } = this.getFont();
+    const width = this.measureText(text).width;
+    // Like the canvas, text wider than maxWidth is squeezed to fit
+    const squeeze = maxWidth !== undefined && width > maxWidth && width > 0 ? maxWidth / width : 1;
+    const drawnWidth = width * squeeze;
+    const align = this.textAlign;
+    const left = align === 'center' ? x - drawnWidth / 2 : align === 'right' || align === 'end' ? x - drawnWidth : x;
+    const baseline = y + BASELINE_OFFSETS[this.textBaseline] * size;
+    const scaling = squeeze < 1 ? ` ${formatNumber(squeeze * 100)} Tz` : '';
+    // The page is flipped to a top-down y axis, so the text matrix flips glyphs back upright
+    this.record(
+      `q ${paint} BT /${name} ${formatNumber(size)} Tf ${mode}${scaling} 1 0 0 -1 ${formatNumber(left)} ${formatNumber(baseline)} Tm ${formatTextString(encodeText(text))} Tj ET Q`,
+      baseline - size,
+      baseline + size * 0.3
+    );
+  }
+
+  private getFont(): { name: FontName; size: number } {
+    const font = parseCanvasFont(this.font);
+    if (!font) return { name: 'F1', size: 10 };
+    if (font.monospace) return { name: 'F5', size: font.size };
+    const bold = font.weight === 'bold' || Number(font.weight) >= 600;
+    const name: FontName = bold ? (font.italic ? 'F4' : 'F2') : font.italic ? 'F3' : 'F1';
+    return { name, size: font.size };
+  }
+
+  private getGlyphWidth(name: FontName, code: number): number {
+    if (name === 'F5') return COURIER_WIDTH;
+    const widths = name === 'F2' || name === 'F4' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    return widths[code - 32] ?? DEFAULT_WIDTH;
+  }
+
+  private getAlphaState(alpha: number): string {
+    const opacity = Math.round(alpha * this.globalAlpha * 100);
+    if (opacity >= 100) return '';
+    this.alphas.add(opacity);
+    return `/GS${opacity} gs `;
+  }
+
+  private getFillState(): string | undefined {
+    const color = parseColor(this.fillStyle);
+    if (!color || color.alpha * this.globalAlpha <= 0) return undefined;
+    return `${this.getAlphaState(color.alpha)}${color.rgb.map(formatNumber).join(' ')} rg`;
+  }
+
+  private getStrokeState(): string | undefined {
+    const color = parseColor(this.strokeStyle);
+    if (!color || color.alpha * this.globalAlpha <= 0 || this.lineWidth <= 0) return undefined;
+    const caps: Record<CanvasLineCap, number> = { butt: 0, round: 1, square: 2 };
+    const joins: Record<CanvasLineJoin, number> = { miter: 0, round: 1, bevel: 2 };
+    return [
+      `${this.getAlphaState(color.alpha)}${color.rgb.map(formatNumber).join(' ')} RG`,
+      `${formatNumber(this.lineWidth)} w ${caps[this.lineCap]} J ${joins[this.lineJoin]} j`,
+      `[${this.lineDash.map(formatNumber).join(' ')}] 0 d`,
+    ].join(' ');
+  }
+
+  private extendPath(...ys: number[]): void {
+    ys.forEach((y) => {
+      this.pathTop = Math.min(this.pathTop, y);
+      this.pathBottom = Math.max(this.pathBottom, y);
+    });
+  }
+
+  private curveTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number): void {
+    if (!this.current) this.moveTo(c1x, c1y);
+    this.path.push([c1x, c1y, c2x, c2y, x, y].map(formatNumber).join(' ') + ' c');
+    this.current = { x, y };
+    this.extendPath(c1y, c2y, y);
+  }
+
+  /**
+   * Adds an elliptical arc from the current point as cubic curves of at most a quarter turn each
+   */
+  private ellipseTo(cx: number, cy: number, rx: number, ry: number, rotation: number, start: number, sweep: number): void {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const pointAt = (t: number) => ({
+      x: cx + rx * cos * Math.cos(t) - ry * sin * Math.sin(t),
+      y: cy + rx * sin * Math.cos(t) + ry * cos * Math.sin(t),
+    });
+    const tangentAt = (t: number) => ({
+      x: -rx * cos * Math.sin(t) - ry * sin * Math.cos(t),
+      y: -rx * sin * Math.sin(t) + ry * cos * Math.cos(t),
+    });
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const delta = sweep / segments;
+    const k = (4 / 3) * Math.tan(delta / 4);
+    for (let i = 0; i < segments; i++) {
+      const t1 = start + i * delta;
+      const t2 = t1 + delta;
+      const [p1, p2, d1, d2] = [pointAt(t1), pointAt(t2), tangentAt(t1), tangentAt(t2)];
+      this.curveTo(p1.x + k * d1.x, p1.y + k * d1.y, p2.x - k * d2.x, p2.y - k * d2.y, p2.x, p2.y);
+    }
+  }
+
+  /**
+   * Adds an SVG arc command, converting its endpoints to a center and angles
+   */
+  private svgArcTo(rx: number, ry: number, rotationDegrees: number, largeArc: boolean, sweepFlag: boolean, x: number, y: number): void {
+    const from = this.current ?? { x, y };
+    if (rx === 0 || ry === 0 || (from.x === x && from.y === y)) {
+      this.lineTo(x, y);
+      return;
+    }
+    const rotation = (rotationDegrees * Math.PI) / 180;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const dx = (from.x - x) / 2;
+    const dy = (from.y - y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coefficient = (largeArc !== sweepFlag ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cx1 = (coefficient * rx * y1) / ry;
+    const cy1 = (-coefficient * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (from.x + x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (from.y + y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let sweep = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweepFlag && sweep > 0) sweep -= Math.PI * 2;
+    if (sweepFlag && sweep < 0) sweep += Math.PI * 2;
+    this.ellipseTo(cx, cy, rx, ry, rotation, start, sweep);
+    // End exactly on the given point
+    this.current = { x, y };
+  }
+
+  /**
+   * Runs a paint call on SVG path data, leaving the current path as it was
+   */
+  private withPathData(d: string, paint: () => void): void {
+    const saved = {
+      path: this.path,
+      pathTop: this.pathTop,
+      pathBottom: this.pathBottom,
+      current: this.current,
+      subpathStart: this.subpathStart,
+    };
+    this.beginPath();
+    this.addPathData(d);
+    paint();
+    Object.assign(this, saved);
+  }
+
+  /**
+   * Adds SVG path data (M, L, H, V, Q, C, A and Z, absolute or relative) to the current path
+   */
+  private addPathData(d: string): void {
+    const tokens = d.match(/[MLHVQCAZmlhvqcaz]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) ?? [];
+    const counts: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, q: 4, c: 6, a: 7, z: 0 };
+    let command = '';
+    let index = 0;
+    while (index < tokens.length) {
+      if (/[a-z]/i.test(tokens[index])) command = tokens[index++];
+      const lower = command.toLowerCase();
+      const args = tokens.slice(index, index + counts[lower]).map(Number);
+      index += counts[lower];
+      const origin = command === lower && this.current ? this.current : { x: 0, y: 0 };
+      const at = (i: number) => ({ x: origin.x + args[i], y: origin.y + args[i + 1] });
+
+      if (lower === 'm') {
+        const p = at(0);
+        this.moveTo(p.x, p.y);
+        // Further coordinate pairs after a move are lines
+        command = command === 'm' ? 'l' : 'L';
+      } else if (lower === 'l') {
+        const p = at(0);
+        this.lineTo(p.x, p.y);
+      } else if (lower === 'h') {
+        this.lineTo(command === 'h' ? origin.x + args[0] : args[0], this.current?.y ?? 0);
+      } else if (lower === 'v') {
+        this.lineTo(this.current?.x ?? 0, command === 'v' ? origin.y + args[0] : args[0]);
+      } else if (lower === 'q') {
+        const [c, p] = [at(0), at(2)];
+        this.quadraticCurveTo(c.x, c.y, p.x, p.y);
+      } else if (lower === 'c') {
+        const [c1, c2, p] = [at(0), at(2), at(4)];
+        this.curveTo(c1.x, c1.y, c2.x, c2.y, p.x, p.y);
+      } else if (lower === 'a') {
+        const p = { x: origin.x + args[5], y: origin.y + args[6] };
+        this.svgArcTo(args[0], args[1], args[2], args[3] !== 0, args[4] !== 0, p.x, p.y);
+      } else if (lower === 'z') {
+        this.closePath();
+      } else {
+        return;
+      }
+    }
+  }
+}
+
+// A page and the content placed on it
+interface PdfPage {
+  width: number;
+  height: number;
+  content: string[];
+}
+
+/**
+ * A multi-page PDF assembled from placed drawings
+ */
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+  private readonly alphas = new Set<number>();
+
+  constructor(private readonly title?: string) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(width: number, height: number): void {
+    this.pages.push({ width, height, content: [] });
+  }
+
+  /**
+   * Draws the part of a drawing between two y values onto the last page, its
+   * top left corner at (x, y) in points from the top left of the page
+   */
+  place(drawing: PdfDrawing, region: { top: number; bottom: number }, x: number, y: number, scale = 1): void {
+    const page = this.pages[this.pages.length - 1];
+    if (!page) return;
+    drawing.alphas.forEach((alpha) => this.alphas.add(alpha));
+    const clip = [x, y, drawing.width * scale, (region.bottom - region.top) * scale].map(formatNumber).join(' ');
+    const transform = [scale, 0, 0, scale, x, y - region.top * scale].map(formatNumber).join(' ');
+    page.content.push(`q ${clip} re W n ${transform} cm`, drawing.getContent(region.top, region.bottom), 'Q');
+  }
+
+  /**
+   * Returns the finished file
+   */
+  toBlob(): Blob {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+    const fontNames = Object.keys(FONTS) as FontName[];
+    const pagesId = 2;
+    const resourcesId = 3;
+    const firstFontId = 4;
+    const firstPageId = firstFontId + fontNames.length;
+
+    add(`<< /Type /Catalog /Pages ${pagesId} 0 R /ViewerPreferences << /DisplayDocTitle true >> >>`);
+    const kids = this.pages.map((_, i) => `${firstPageId + i * 2} 0 R`).join(' ');
+    add(`<< /Type /Pages /Kids [${kids}] /Count ${this.pages.length} >>`);
+    const fonts = fontNames.map((name, i) => `/${name} ${firstFontId + i} 0 R`).join(' ');
+    const states = [...this.alphas].map((alpha) => `/GS${alpha} << /ca ${alpha / 100} /CA ${alpha / 100} >>`).join(' ');
+    add(`<< /Font << ${fonts} >> /ExtGState << ${states} >> >>`);
+    fontNames.forEach((name) => add(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[name]} /Encoding /WinAnsiEncoding >>`));
+    this.pages.forEach((page, i) => {
+      const box = `0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}`;
+      add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [${box}] /Resources ${resourcesId} 0 R /Contents ${firstPageId + i * 2 + 1} 0 R >>`);
+      // Flip to a top-down y axis like the canvas
+      const stream = [`1 0 0 -1 0 ${formatNumber(page.height)} cm`, ...page.content].join('\n');
+      add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+    const infoId = objects.length + 1;
+    add(`<< ${this.title ? `/Title ${formatUnicodeString(this.title)} ` : ''}/CreationDate (D:${formatDate(new Date())}) >>`);
+
+    // Every part is ASCII, so string lengths are byte offsets
+    let file = '%PDF-1.4\n';
+    const offsets = objects.map((body, i) => {
+      const offset = file.length;
+      file += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = file.length;
+    file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    file += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return new Blob([file], { type: 'application/pdf' });
+  }
+}
+
+/**
+ * Returns text as a UTF-16 hex string, for metadata that may hold any character
+ */
+function formatUnicodeString(text: string): string {
+  const hex = Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0')).join('');
+  return `<FEFF${hex}>`;
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
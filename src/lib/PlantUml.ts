@@ -0,0 +1,287 @@
+/**
+ * PlantUml - Converts diagrams to and from PlantUML sequence diagram text.
+ *
+ * Used by the PlantUML exporter and by Load for .puml files. Participants
+ * are declared in lifeline order with their shape and color, and each
+ * message becomes an arrow: "->" for sync calls, "->>" for async ones,
+ * "-->" for returns, with "[" and "]" for the diagram edge. Notes are
+ * written at their row or right after the message they are on, descriptions
+ * become notes on their message, and active blocks and activations become
+ * activate/deactivate pairs around the messages they start and end at.
+ * Flat numbering becomes PlantUML's own autonumber, while hierarchical
+ * numbers are written into the labels. Importing reads the same subset
+ * back (participant declarations, arrows, activate/deactivate, notes,
+ * create, destroy, autonumber and title) and reports every other line as
+ * unsupported.
+ */
+
+import {
+  SequenceDiagramState,
+  LifelineKind,
+  LIFELINE_KINDS,
+  Message,
+  MessageType,
+  ActivationBlockData,
+  Note,
+  NotePosition,
+  DIAGRAM_BOUNDARY_ID,
+} from '@/types/diagram';
+import { computeMessageNumbers } from '@/lib/MessageNumbering';
+import { formatMessageLabel, parseGuardedLabel } from '@/lib/MessageLabel';
+import {
+  ImportedDiagram,
+  DiagramReader,
+  createDiagramReader,
+  getParticipantAliases,
+  getActivationBars,
+  getActivationLines,
+  getNoteAliases,
+} from '@/lib/TextFormats';
+
+export const PLANTUML_ARROWS: Record<MessageType, string> = {
+  sync: '->',
+  async: '->>',
+  return: '-->',
+  create: '->',
+};
+
+/**
+ * Escapes text for a single PlantUML line; line breaks become "\n"
+ */
+function escapeText(text: string): string {
+  return text.replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Turns PlantUML "\n" escapes back into line breaks
+ */
+function unescapeText(text: string): string {
+  return text.trim().replace(/\\n/g, '\n');
+}
+
+/**
+ * Turns a number format such as "{n}." into a PlantUML number pattern, quoting the text around the number
+ */
+function toNumberPattern(format: string): string {
+  const quote = (text: string) => (text ? `'${text.replace(/'/g, "''").replace(/"/g, '')}'` : '');
+  const parts = format.includes('{n}') ? format.split('{n}') : [format, ''];
+  return parts.map(quote).join('#');
+}
+
+/**
+ * Turns a PlantUML number pattern back into a number format; markup is dropped
+ */
+function fromNumberPattern(pattern: string): string {
+  let format = '';
+  let hasNumber = false;
+  // Quoted text, digit placeholders and plain text in turn
+  for (const [, quoted, digits, text] of pattern.replace(/<[^>]*>/g, '').matchAll(/'((?:[^']|'')*)'|([#0]+)|([^'#0]+)/g)) {
+    if (digits && !hasNumber) {
+      format += '{n}';
+      hasNumber = true;
+    } else {
+      format += quoted !== undefined ? quoted.replace(/''/g, "'") : (digits ?? text);
+    }
+  }
+  return hasNumber ? format : `{n}${format}`;
+}
+
+/**
+ * Returns the arrow line for a message, using "[" and "]" for the left and right diagram edges
+ */
+function formatMessage(message: Message, aliases: Map<string, string>, label: string): string | undefined {
+  const from = message.fromLifelineId === DIAGRAM_BOUNDARY_ID ? '[' : aliases.get(message.fromLifelineId);
+  const to = message.toLifelineId === DIAGRAM_BOUNDARY_ID ? ']' : aliases.get(message.toLifelineId);
+  if (!from || !to) return undefined;
+  // Edge brackets go right against the arrow: "[-> A", "A ->]"
+  const arrow = `${from === '[' ? '[' : `${from} `}${PLANTUML_ARROWS[message.type]}${to === ']' ? ']' : ` ${to}`}`;
+  return `${arrow}${label ? ` : ${escapeText(label)}` : ''}`;
+}
+
+/**
+ * Returns a note line against the given aliases; with none, the note is on the message before it
+ */
+function formatNote(note: Note, targets: string[]): string {
+  const position = note.position === 'over' ? 'over' : `${note.position} of`;
+  return targets.length > 0
+    ? `note ${position} ${targets.join(', ')} : ${escapeText(note.text)}`
+    : `note ${note.position} : ${escapeText(note.text)}`;
+}
+
+/**
+ * Returns the diagram as a PlantUML document, from @startuml to @enduml
+ */
+export function toPlantUml(state: SequenceDiagramState, activatedBlocks: Map<string, ActivationBlockData>): string {
+  const lifelines = [...state.lifelines].sort((a, b) => a.order - b.order);
+  const aliases = getParticipantAliases(lifelines);
+  // PlantUML numbers messages itself; hierarchical numbers are written into the labels
+  const { autonumber } = state;
+  const isNativeNumbering = autonumber.enabled && autonumber.scheme === 'flat';
+  const messageNumbers = isNativeNumbering ? new Map<string, string>() : computeMessageNumbers(state.messages, autonumber);
+  const bars = getActivationBars(state, activatedBlocks);
+  const lines: string[] = ['@startuml'];
+  if (isNativeNumbering) lines.push(`autonumber ${autonumber.start} "${toNumberPattern(autonumber.format)}"`, '');
+
+  // Participants in lifeline order
+  lifelines.forEach((lifeline) => {
+    const name = lifeline.name.replace(/"/g, "'");
+    lines.push(`${lifeline.kind} "${name}" as ${aliases.get(lifeline.id)} ${lifeline.color}`);
+  });
+  if (lifelines.length > 0) lines.push('');
+
+  // Notes on lifelines sit at a message row, the others follow their message
+  const rowNotes = state.notes.filter((n) => !n.messageId);
+  const writeNote = (note: Note, message?: Message) => {
+    // Left and right notes on a message attach to it; notes over it span its endpoints
+    const targets = message && note.position !== 'over' ? [] : getNoteAliases(note, lifelines, aliases, message);
+    if (targets.length > 0 || message) lines.push(formatNote(note, targets));
+  };
+
+  const messages = [...state.messages].sort((a, b) => a.order - b.order);
+  messages.forEach((message) => {
+    rowNotes.filter((n) => n.messageOrder === message.order).forEach((note) => writeNote(note));
+    const created = message.type === 'create' ? aliases.get(message.toLifelineId) : undefined;
+    if (created) lines.push(`create ${created}`);
+
+    const line = formatMessage(message, aliases, formatMessageLabel(message, messageNumbers.get(message.id)));
+    if (!line) return;
+    lines.push(line);
+    if (message.description) {
+      lines.push(`note right : ${escapeText(message.description)}`);
+    }
+    state.notes.filter((n) => n.messageId === message.id).forEach((note) => writeNote(note, message));
+
+    lines.push(...getActivationLines(bars, message.order, (keyword, lifelineId) => `${keyword} ${aliases.get(lifelineId)}`));
+
+    lifelines
+      .filter((l) => l.destroyOrder === message.order)
+      .forEach((l) => lines.push(`destroy ${aliases.get(l.id)}`));
+  });
+
+  // Notes below the last message
+  rowNotes.filter((n) => !messages.some((m) => m.order === n.messageOrder)).forEach((note) => writeNote(note));
+
+  lines.push('@enduml', '');
+  return lines.join('\n');
+}
+
+const NAME = '"[^"]+"|[^\\s"\\[\\]<>:,-]+';
+const PARTICIPANT_PATTERN = new RegExp(`^(${LIFELINE_KINDS.join('|')})\\s+(${NAME})(?:\\s+as\\s+(${NAME}))?(?:\\s+(#\\w+))?$`);
+const CREATE_PATTERN = new RegExp(`^create\\s+(?:(${LIFELINE_KINDS.join('|')})\\s+)?(.+)$`);
+const ARROW_PATTERN = new RegExp(
+  `^(\\[|${NAME})\\s*(<<?)?(--?)(>>?)?\\s*(\\]|${NAME})\\s*(\\+\\+|--)?\\s*(?::(.*))?$`
+);
+const NOTE_PATTERN = /^note\s+(left|right|over)(?:\s+of)?\s*([^:]*?)\s*(?::(.*))?$/;
+const AUTONUMBER_PATTERN = /^autonumber(?:\s+(-?\d+))?(?:\s+\d+)?(?:\s+"([^"]*)")?$/;
+
+/**
+ * Strips the quotes around a participant name
+ */
+function unquote(text: string): string {
+  return text.startsWith('"') && text.endsWith('"') ? text.slice(1, -1) : text;
+}
+
+/**
+ * Declares a participant from a declaration match: "Long name" as alias, alias as "Long name", or a bare name
+ */
+function declareParticipant(reader: DiagramReader, match: RegExpMatchArray) {
+  const [, kind, first, second, color] = match;
+  const [name, alias] = second && second.startsWith('"') && !first.startsWith('"') ? [second, first] : [first, second ?? first];
+  return reader.declare(kind as LifelineKind, unquote(name), unquote(alias), color);
+}
+
+/**
+ * Reads the PlantUML sequence subset the exporter writes. Lines outside it
+ * are skipped and returned as warnings with their line numbers.
+ */
+export function parsePlantUml(content: string): ImportedDiagram {
+  const reader = createDiagramReader();
+  const getEndpointId = (token: string) =>
+    token === '[' || token === ']' ? DIAGRAM_BOUNDARY_ID : reader.getLifeline(unquote(token)).id;
+  const getNoteTargets = (targets: string) =>
+    targets
+      .split(',')
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0)
+      .map((t) => reader.getLifeline(unquote(t)).id);
+
+  const lines = content.split(/\r?\n/);
+  let inComment = false;
+  let openNote: { position: NotePosition; targets: string; text: string[]; line: number; source: string } | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    const lineNumber = index + 1;
+
+    if (inComment) {
+      inComment = !line.endsWith("'/");
+      continue;
+    }
+    if (openNote) {
+      if (/^end\s*note$/.test(line)) {
+        if (!reader.addNote(openNote.position, getNoteTargets(openNote.targets), openNote.text.join('\n'))) {
+          reader.warn(openNote.line, openNote.source);
+        }
+        openNote = null;
+      } else {
+        openNote.text.push(line);
+      }
+      continue;
+    }
+    if (line.startsWith("/'")) {
+      inComment = !line.endsWith("'/");
+      continue;
+    }
+    if (line === '' || line.startsWith("'") || line.startsWith('@startuml') || line.startsWith('@enduml')) continue;
+
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(/^title\s+(.+)$/))) {
+      reader.setTitle(match[1].trim());
+    } else if ((match = line.match(PARTICIPANT_PATTERN))) {
+      declareParticipant(reader, match);
+    } else if ((match = line.match(CREATE_PATTERN))) {
+      const declaration = match[1] ? `${match[1]} ${match[2]}`.match(PARTICIPANT_PATTERN) : null;
+      const lifeline = declaration ? declareParticipant(reader, declaration) : reader.getLifeline(unquote(match[2].trim()));
+      reader.markCreated(lifeline.id);
+    } else if ((match = line.match(/^destroy\s+(\S+)$/))) {
+      if (!reader.destroy(getEndpointId(match[1]))) reader.warn(lineNumber, line);
+    } else if ((match = line.match(/^activate\s+(\S+)(?:\s+#\w+)?$/))) {
+      reader.activate(getEndpointId(match[1]));
+    } else if ((match = line.match(/^deactivate\s+(\S+)$/))) {
+      if (!reader.deactivate(getEndpointId(match[1]))) reader.warn(lineNumber, line);
+    } else if ((match = line.match(AUTONUMBER_PATTERN))) {
+      reader.enableAutonumber(match[1] !== undefined ? Number(match[1]) : undefined, match[2] && fromNumberPattern(match[2]));
+    } else if ((match = line.match(NOTE_PATTERN))) {
+      const position = match[1] as NotePosition;
+      if (match[3] === undefined) {
+        openNote = { position, targets: match[2], text: [], line: lineNumber, source: line };
+      } else if (!reader.addNote(position, getNoteTargets(match[2]), unescapeText(match[3]))) {
+        reader.warn(lineNumber, line);
+      }
+    } else if ((match = line.replace(/-\[[^\]]*\]/g, '-').match(ARROW_PATTERN)) && !match[2] !== !match[4]) {
+      // Arrows have exactly one head (colors in brackets are dropped); a left head points the other way
+      const [from, to] = match[2] ? [match[5], match[1]] : [match[1], match[5]];
+      const fromLifelineId = getEndpointId(from);
+      const toLifelineId = getEndpointId(to);
+      if (fromLifelineId === DIAGRAM_BOUNDARY_ID && toLifelineId === DIAGRAM_BOUNDARY_ID) {
+        reader.warn(lineNumber, line);
+        continue;
+      }
+      const head = match[2] ?? match[4];
+      const type: MessageType = match[3] === '--' ? 'return' : head.length === 2 ? 'async' : 'sync';
+      const { guard, label } = parseGuardedLabel((match[7] ?? '').trim());
+      reader.addMessage(fromLifelineId, toLifelineId, type, unescapeText(label), guard && unescapeText(guard));
+      // "++" activates the receiver and "--" deactivates the sender at this message
+      if (match[6] === '++') reader.activate(toLifelineId);
+      if (match[6] === '--') reader.deactivate(fromLifelineId);
+    } else {
+      reader.warn(lineNumber, line);
+    }
+  }
+
+  // A note left open at the end is dropped
+  if (openNote) {
+    reader.warn(openNote.line, openNote.source);
+  }
+  return reader.finish();
+}
@@ -0,0 +1,67 @@
+/**
+ * RefLayout - Computes the on-canvas geometry of ref frames.
+ *
+ * Shared by the SVG canvas and the exporters. A ref is a separator row
+ * that, instead of spanning the whole diagram, frames a range of
+ * lifelines the way a combined fragment does and names the diagram it
+ * stands in for.
+ */
+
+import {
+  Lifeline,
+  Separator,
+  LIFELINE_HEADER_WIDTH,
+  LIFELINE_SPACING,
+  LIFELINE_START_X,
+  FRAGMENT_PADDING_X,
+  REF_FRAME_HEIGHT,
+} from '@/types/diagram';
+import { getSeparatorY } from '@/lib/RowLayout';
+
+// Resolved geometry of a single ref frame
+export interface RefFrame {
+  separator: Separator;
+  left: number; // Lowest covered lifeline order
+  right: number; // Highest covered lifeline order
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Returns the lowest and highest lifeline orders covered by a ref,
+ * or null when either edge lifeline no longer exists
+ */
+export function getRefLifelineRange(
+  separator: Separator,
+  lifelines: Lifeline[]
+): { left: number; right: number } | null {
+  const start = lifelines.find((l) => l.id === separator.startLifelineId);
+  const end = lifelines.find((l) => l.id === separator.endLifelineId);
+  if (!start || !end) return null;
+  return {
+    left: Math.min(start.order, end.order),
+    right: Math.max(start.order, end.order),
+  };
+}
+
+/**
+ * Computes frames for all ref separators whose edge lifelines exist
+ */
+export function layoutRefs(separators: Separator[], lifelines: Lifeline[]): RefFrame[] {
+  const frames: RefFrame[] = [];
+
+  for (const separator of separators) {
+    if (separator.kind !== 'ref') continue;
+    const range = getRefLifelineRange(separator, lifelines);
+    if (!range) continue;
+
+    const x = LIFELINE_START_X + range.left * LIFELINE_SPACING - FRAGMENT_PADDING_X;
+    const right = LIFELINE_START_X + range.right * LIFELINE_SPACING + LIFELINE_HEADER_WIDTH + FRAGMENT_PADDING_X;
+    const y = getSeparatorY(separator, separators) - REF_FRAME_HEIGHT / 2;
+    frames.push({ separator, ...range, x, y, width: right - x, height: REF_FRAME_HEIGHT });
+  }
+
+  return frames;
+}
@@ -0,0 +1,67 @@
+/**
+ * RowLayout - Maps message orders and separators to vertical positions.
+ *
+ * Messages and separators (dividers, delays and refs) each take up one row of
+ * MESSAGE_SPACING. A separator sits above the message whose order it
+ * names, so every message is pushed down by the separators above it;
+ * several separators before the same message stack in array order.
+ */
+
+import { Separator, LIFELINE_HEADER_HEIGHT, LIFELINE_START_Y, MESSAGE_SPACING } from '@/types/diagram';
+
+function getRowY(row: number): number {
+  return LIFELINE_START_Y + LIFELINE_HEADER_HEIGHT + 30 + row * MESSAGE_SPACING;
+}
+
+/**
+ * Returns the number of separator rows drawn above the message with the given order
+ */
+export function getSeparatorRowsBefore(order: number, separators: Separator[]): number {
+  return separators.filter((s) => s.beforeMessageOrder <= order).length;
+}
+
+/**
+ * Returns the y of the message row with the given order
+ */
+export function getMessageY(order: number, separators: Separator[] = []): number {
+  return getRowY(order + getSeparatorRowsBefore(order, separators));
+}
+
+/**
+ * Returns the order of the message row nearest to a y, e.g. where a dragged message is dropped
+ */
+export function getNearestMessageOrder(y: number, messageCount: number, separators: Separator[] = []): number {
+  let nearest = 0;
+  for (let order = 1; order < messageCount; order++) {
+    if (Math.abs(getMessageY(order, separators) - y) < Math.abs(getMessageY(nearest, separators) - y)) {
+      nearest = order;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Returns the center y of a separator's row
+ */
+export function getSeparatorY(separator: Separator, separators: Separator[]): number {
+  const earlier = separators.filter(
+    (s) =>
+      s.beforeMessageOrder < separator.beforeMessageOrder ||
+      (s.beforeMessageOrder === separator.beforeMessageOrder && separators.indexOf(s) < separators.indexOf(separator))
+  ).length;
+  return getRowY(separator.beforeMessageOrder + earlier);
+}
+
+/**
+ * Returns the y of the boundary above a row, where a diagram can be split across pages
+ */
+export function getRowTop(row: number): number {
+  return getRowY(row) - MESSAGE_SPACING / 2;
+}
+
+/**
+ * Returns the total number of rows taken by messages and separators
+ */
+export function getRowCount(messageCount: number, separators: Separator[]): number {
+  return messageCount + separators.length;
+}
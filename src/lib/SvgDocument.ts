@@ -0,0 +1,444 @@
+/**
+ * SvgDocument - Records canvas-style drawing calls as a standalone SVG.
+ *
+ * The exporters draw through a DrawingContext, the part of the 2D canvas API
+ * they use, so the PNG, SVG and PDF exports share one renderer.
+ * SvgDocument turns each fill, stroke and text call into a vector element
+ * with plain presentation attributes (no CSS classes or foreignObject). Given
+ * the embedded fonts, the fonts its text uses are written into the SVG as
+ * @font-face data URIs and text is measured with them, so wrapping fits
+ * on every machine. The .buml source can be embedded in a <metadata>
+ * element and read back on load.
+ */
+
+// The drawing calls the exporters make, plus paths given as SVG path data
+export interface DrawingContext
+  extends Pick<
+    CanvasRenderingContext2D,
+    | 'fillStyle'
+    | 'strokeStyle'
+    | 'lineWidth'
+    | 'lineCap'
+    | 'lineJoin'
+    | 'globalAlpha'
+    | 'font'
+    | 'textAlign'
+    | 'textBaseline'
+    | 'shadowColor'
+    | 'shadowBlur'
+    | 'shadowOffsetY'
+    | 'beginPath'
+    | 'closePath'
+    | 'moveTo'
+    | 'lineTo'
+    | 'quadraticCurveTo'
+    | 'arc'
+    | 'fill'
+    | 'stroke'
+    | 'fillRect'
+    | 'fillText'
+    | 'strokeText'
+    | 'measureText'
+    | 'setLineDash'
+  > {
+  fillPath(d: string): void;
+  strokePath(d: string): void;
+}
+
+/**
+ * Adds path-data drawing to a 2D canvas context
+ */
+export function createCanvasDrawingContext(ctx: CanvasRenderingContext2D): DrawingContext {
+  return Object.assign(ctx, {
+    fillPath: (d: string) => ctx.fill(new Path2D(d)),
+    strokePath: (d: string) => ctx.stroke(new Path2D(d)),
+  });
+}
+
+// Font stacks written into the SVG, matching the app's own fonts
+const SANS_FONT_STACK =
+  "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif";
+const MONO_FONT_STACK = "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, 'Liberation Mono', monospace";
+
+// Fonts the SVG export embeds: Inter for text (upright and italic) and JetBrains Mono for payloads
+export type EmbeddedFontStyle = 'sans' | 'sansItalic' | 'mono';
+
+// The embedded font files, as woff2 data
+export type EmbeddedFonts = Record<EmbeddedFontStyle, ArrayBuffer>;
+
+const EMBEDDED_FONTS: Record<EmbeddedFontStyle, { family: string; style: 'normal' | 'italic'; url: URL }> = {
+  sans: {
+    family: 'Inter Variable',
+    style: 'normal',
+    url: new URL('@fontsource-variable/inter/files/inter-latin-wght-normal.woff2', import.meta.url),
+  },
+  sansItalic: {
+    family: 'Inter Variable',
+    style: 'italic',
+    url: new URL('@fontsource-variable/inter/files/inter-latin-wght-italic.woff2', import.meta.url),
+  },
+  mono: {
+    family: 'JetBrains Mono Variable',
+    style: 'normal',
+    url: new URL('@fontsource-variable/jetbrains-mono/files/jetbrains-mono-latin-wght-normal.woff2', import.meta.url),
+  },
+};
+
+let embeddedFontsPromise: Promise<EmbeddedFonts> | null = null;
+
+/**
+ * Loads the embedded fonts once and registers them with the page, so text
+ * can be measured with them; a failed load is tried again on the next call
+ */
+export function loadEmbeddedFonts(): Promise<EmbeddedFonts> {
+  if (!embeddedFontsPromise) {
+    embeddedFontsPromise = Promise.all(
+      (Object.keys(EMBEDDED_FONTS) as EmbeddedFontStyle[]).map(async (style) => {
+        const { family, url } = EMBEDDED_FONTS[style];
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`Failed to load the ${family} font`);
+        }
+        const data = await response.arrayBuffer();
+        const face = new FontFace(family, data, { style: EMBEDDED_FONTS[style].style, weight: '100 900' });
+        document.fonts.add(await face.load());
+        return [style, data] as const;
+      })
+    ).then((entries) => Object.fromEntries(entries) as EmbeddedFonts);
+    embeddedFontsPromise.catch(() => {
+      embeddedFontsPromise = null;
+    });
+  }
+  return embeddedFontsPromise;
+}
+
+/**
+ * Encodes binary data as base64
+ */
+function toBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  // Chunks keep the argument list of fromCharCode short
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const BUML_METADATA_ID = 'buml-source';
+
+const TEXT_ANCHORS: Record<CanvasTextAlign, string> = {
+  left: 'start',
+  start: 'start',
+  center: 'middle',
+  right: 'end',
+  end: 'end',
+};
+
+const BASELINES: Record<CanvasTextBaseline, string | undefined> = {
+  top: 'text-before-edge',
+  hanging: 'hanging',
+  middle: 'central',
+  alphabetic: undefined,
+  ideographic: 'ideographic',
+  bottom: 'text-after-edge',
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Splits a CSS color into an opaque color and its alpha; SVG 1.1 viewers ignore rgba()
+ */
+function parseColor(color: string | CanvasGradient | CanvasPattern): { color: string; alpha: number } {
+  if (typeof color !== 'string' || color === 'transparent') return { color: 'none', alpha: 0 };
+  const match = color.match(/^rgba\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*\)$/);
+  if (!match) return { color, alpha: 1 };
+  return { color: `rgb(${match[1]},${match[2]},${match[3]})`, alpha: Number(match[4]) };
+}
+
+// The parts of a canvas font the exporters set, e.g. "italic 500 12px system-ui, sans-serif"
+export interface CanvasFont {
+  size: number;
+  weight?: string;
+  italic: boolean;
+  monospace: boolean;
+}
+
+/**
+ * Reads a canvas font string
+ */
+export function parseCanvasFont(font: string): CanvasFont | undefined {
+  const match = font.match(/^(italic\s+)?(bold|\d{3})?\s*([\d.]+)px\s+(.+)$/);
+  if (!match) return undefined;
+  const [, italic, weight, size, family] = match;
+  return { size: Number(size), weight, italic: !!italic, monospace: /monospace/.test(family) };
+}
+
+/**
+ * Returns the embedded font a canvas font is drawn with
+ */
+function getEmbeddedFontStyle(font: CanvasFont): EmbeddedFontStyle {
+  if (font.monospace) return 'mono';
+  return font.italic ? 'sansItalic' : 'sans';
+}
+
+/**
+ * Returns a font stack led by the embedded family, when fonts are embedded
+ */
+function getFontStack(style: EmbeddedFontStyle, isEmbedded: boolean): string {
+  const stack = style === 'mono' ? MONO_FONT_STACK : SANS_FONT_STACK;
+  return isEmbedded ? `'${EMBEDDED_FONTS[style].family}', ${stack}` : stack;
+}
+
+/**
+ * Returns the SVG font attributes for a canvas font
+ */
+function getFontAttributes(font: string, isEmbedded: boolean): string {
+  const parsed = parseCanvasFont(font);
+  if (!parsed) return '';
+  const attributes = [`font-size="${parsed.size}"`];
+  if (parsed.monospace) attributes.push(`font-family="${escapeXml(getFontStack('mono', isEmbedded))}"`);
+  if (parsed.weight) attributes.push(`font-weight="${parsed.weight}"`);
+  if (parsed.italic) attributes.push('font-style="italic"');
+  return attributes.join(' ');
+}
+
+/**
+ * A DrawingContext that collects SVG elements instead of painting pixels
+ */
+export class SvgDocument implements DrawingContext {
+  fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  lineWidth = 1;
+  lineCap: CanvasLineCap = 'butt';
+  lineJoin: CanvasLineJoin = 'miter';
+  globalAlpha = 1;
+  font = '10px sans-serif';
+  textAlign: CanvasTextAlign = 'start';
+  textBaseline: CanvasTextBaseline = 'alphabetic';
+  shadowColor = 'transparent';
+  shadowBlur = 0;
+  shadowOffsetY = 0;
+
+  private readonly elements: string[] = [];
+  private readonly filters = new Map<string, string>(); // Shadow key to filter id
+  private readonly usedFonts = new Set<EmbeddedFontStyle>();
+  private readonly measureContext: CanvasRenderingContext2D | null;
+  private path: string[] = [];
+  private lineDash: number[] = [];
+  private hasCurrentPoint = false;
+
+  constructor(
+    private readonly width: number,
+    private readonly height: number,
+    private readonly fonts?: EmbeddedFonts
+  ) {
+    this.measureContext = document.createElement('canvas').getContext('2d');
+  }
+
+  beginPath(): void {
+    this.path = [];
+    this.hasCurrentPoint = false;
+  }
+
+  closePath(): void {
+    this.path.push('Z');
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push(`M${formatNumber(x)} ${formatNumber(y)}`);
+    this.hasCurrentPoint = true;
+  }
+
+  lineTo(x: number, y: number): void {
+    this.path.push(`${this.hasCurrentPoint ? 'L' : 'M'}${formatNumber(x)} ${formatNumber(y)}`);
+    this.hasCurrentPoint = true;
+  }
+
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this.path.push(`Q${formatNumber(cpx)} ${formatNumber(cpy)} ${formatNumber(x)} ${formatNumber(y)}`);
+    this.hasCurrentPoint = true;
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false): void {
+    const pointAt = (angle: number) =>
+      `${formatNumber(x + radius * Math.cos(angle))} ${formatNumber(y + radius * Math.sin(angle))}`;
+    const r = formatNumber(radius);
+    const sweep = counterclockwise ? 0 : 1;
+    this.path.push(`${this.hasCurrentPoint ? 'L' : 'M'}${pointAt(startAngle)}`);
+    this.hasCurrentPoint = true;
+
+    const span = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+    if (span >= Math.PI * 2) {
+      // A full circle is drawn as two half arcs
+      const half = startAngle + (counterclockwise ? -Math.PI : Math.PI);
+      this.path.push(`A${r} ${r} 0 0 ${sweep} ${pointAt(half)}`, `A${r} ${r} 0 0 ${sweep} ${pointAt(startAngle)}`);
+      return;
+    }
+    const normalized = ((span % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+    this.path.push(`A${r} ${r} 0 ${normalized > Math.PI ? 1 : 0} ${sweep} ${pointAt(endAngle)}`);
+  }
+
+  setLineDash(segments: number[]): void {
+    this.lineDash = segments;
+  }
+
+  fill(): void {
+    this.fillPath(this.path.join(''));
+  }
+
+  stroke(): void {
+    this.strokePath(this.path.join(''));
+  }
+
+  fillPath(d: string): void {
+    if (!d) return;
+    this.elements.push(`<path d="${d}" ${this.getFillAttributes()}${this.getShadowAttribute()}/>`);
+  }
+
+  strokePath(d: string): void {
+    if (!d) return;
+    this.elements.push(`<path d="${d}" fill="none" ${this.getStrokeAttributes()}/>`);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.elements.push(
+      `<rect x="${formatNumber(x)}" y="${formatNumber(y)}" width="${formatNumber(width)}" height="${formatNumber(height)}" ${this.getFillAttributes()}${this.getShadowAttribute()}/>`
+    );
+  }
+
+  fillText(text: string, x: number, y: number, maxWidth?: number): void {
+    this.pushText(text, x, y, this.getFillAttributes(), maxWidth);
+  }
+
+  strokeText(text: string, x: number, y: number, maxWidth?: number): void {
+    this.pushText(text, x, y, `fill="none" ${this.getStrokeAttributes()}`, maxWidth);
+  }
+
+  measureText(text: string): TextMetrics {
+    if (!this.measureContext) {
+      // Rough fallback when no canvas is available
+      return { width: text.length * 7 } as TextMetrics;
+    }
+    const parsed = this.fonts ? parseCanvasFont(this.font) : undefined;
+    // Embedded fonts are measured by their own family
+    this.measureContext.font = parsed
+      ? `${parsed.italic ? 'italic ' : ''}${parsed.weight ?? ''} ${parsed.size}px '${EMBEDDED_FONTS[getEmbeddedFontStyle(parsed)].family}'`
+      : this.font;
+    return this.measureContext.measureText(text);
+  }
+
+  /**
+   * Returns the finished SVG document, with an optional title and embedded .buml source
+   */
+  toString(title?: string, bumlSource?: string): string {
+    const defs = [...this.filters.entries()].map(([key, id]) => {
+      const [color, blur, offsetY] = key.split('|');
+      const { color: floodColor, alpha } = parseColor(color);
+      return (
+        `<filter id="${id}" x="-20%" y="-20%" width="140%" height="140%">` +
+        `<feDropShadow dx="0" dy="${offsetY}" stdDeviation="${formatNumber(Number(blur) / 2)}" flood-color="${floodColor}" flood-opacity="${alpha}"/>` +
+        '</filter>'
+      );
+    });
+    // Only the fonts the text uses are embedded
+    const fonts = this.fonts;
+    const fontFaces = fonts
+      ? [...this.usedFonts].map((style) => {
+          const { family, style: fontStyle } = EMBEDDED_FONTS[style];
+          return (
+            `@font-face{font-family:'${family}';font-style:${fontStyle};font-weight:100 900;` +
+            `src:url(data:font/woff2;base64,${toBase64(fonts[style])}) format('woff2')}`
+          );
+        })
+      : [];
+    if (fontFaces.length > 0) defs.unshift(`<style>${fontFaces.join('')}</style>`);
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}" font-family="${escapeXml(getFontStack('sans', !!this.fonts))}" xml:space="preserve">`,
+      ...(title ? [`<title>${escapeXml(title)}</title>`] : []),
+      ...(bumlSource !== undefined
+        ? [
+            // "]]>" cannot appear inside CDATA, so it is split across two sections
+            `<metadata id="${BUML_METADATA_ID}"><![CDATA[${bumlSource.replace(/]]>/g, ']]]]><![CDATA[>')}]]></metadata>`,
+          ]
+        : []),
+      ...(defs.length > 0 ? [`<defs>${defs.join('')}</defs>`] : []),
+      ...this.elements,
+      '</svg>',
+      '',
+    ].join('\n');
+  }
+
+  private pushText(text: string, x: number, y: number, paint: string, maxWidth?: number): void {
+    const attributes = [
+      `x="${formatNumber(x)}"`,
+      `y="${formatNumber(y)}"`,
+      getFontAttributes(this.font, !!this.fonts),
+      `text-anchor="${TEXT_ANCHORS[this.textAlign]}"`,
+    ];
+    const baseline = BASELINES[this.textBaseline];
+    if (baseline) attributes.push(`dominant-baseline="${baseline}"`);
+    // Like the canvas, text wider than maxWidth is squeezed to fit
+    if (maxWidth !== undefined && this.measureText(text).width > maxWidth) {
+      attributes.push(`textLength="${formatNumber(maxWidth)}" lengthAdjust="spacingAndGlyphs"`);
+    }
+    const font = parseCanvasFont(this.font);
+    this.usedFonts.add(font ? getEmbeddedFontStyle(font) : 'sans');
+    this.elements.push(`<text ${attributes.filter(Boolean).join(' ')} ${paint}>${escapeXml(text)}</text>`);
+  }
+
+  private getFillAttributes(): string {
+    const { color, alpha } = parseColor(this.fillStyle);
+    const opacity = alpha * this.globalAlpha;
+    return `fill="${color}"${opacity < 1 ? ` fill-opacity="${formatNumber(opacity)}"` : ''}`;
+  }
+
+  private getStrokeAttributes(): string {
+    const { color, alpha } = parseColor(this.strokeStyle);
+    const opacity = alpha * this.globalAlpha;
+    const attributes = [`stroke="${color}"`, `stroke-width="${formatNumber(this.lineWidth)}"`];
+    if (opacity < 1) attributes.push(`stroke-opacity="${formatNumber(opacity)}"`);
+    if (this.lineCap !== 'butt') attributes.push(`stroke-linecap="${this.lineCap}"`);
+    if (this.lineJoin !== 'miter') attributes.push(`stroke-linejoin="${this.lineJoin}"`);
+    if (this.lineDash.length > 0) attributes.push(`stroke-dasharray="${this.lineDash.join(' ')}"`);
+    return attributes.join(' ');
+  }
+
+  private getShadowAttribute(): string {
+    if (parseColor(this.shadowColor).alpha === 0 || (this.shadowBlur === 0 && this.shadowOffsetY === 0)) return '';
+    const key = `${this.shadowColor}|${this.shadowBlur}|${this.shadowOffsetY}`;
+    let id = this.filters.get(key);
+    if (!id) {
+      id = `shadow-${this.filters.size + 1}`;
+      this.filters.set(key, id);
+    }
+    return ` filter="url(#${id})"`;
+  }
+}
+
+/**
+ * Returns the .buml source embedded in an exported SVG
+ */
+export function readSvgBumlSource(svg: string): string {
+  const match = svg.match(new RegExp(`<metadata[^>]*\\bid="${BUML_METADATA_ID}"[^>]*>([\\s\\S]*?)</metadata>`));
+  if (!match) {
+    throw new Error('This SVG has no embedded diagram source');
+  }
+  const content = match[1];
+  const sections = [...content.matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>/g)];
+  if (sections.length > 0) return sections.map((section) => section[1]).join('');
+  // Editors may rewrite CDATA as escaped text
+  return content
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,294 @@
+/**
+ * TextFormats - Shared pieces of the PlantUML and Mermaid converters.
+ *
+ * Exporting names every lifeline with a unique alias, turns the active
+ * blocks and activations into bars to open and close around messages and
+ * places notes against their lifelines.
+ * Importing collects participants, messages, activation bars and notes in
+ * file order through a reader, so each format only has to match its own
+ * syntax; lines that cannot be represented are kept as warnings.
+ */
+
+import {
+  SequenceDiagramState,
+  Lifeline,
+  LifelineKind,
+  Message,
+  MessageType,
+  Activation,
+  ActivationBlockData,
+  Note,
+  NotePosition,
+  AutonumberSettings,
+  DEFAULT_AUTONUMBER,
+  DEFAULT_COLORS,
+  DIAGRAM_BOUNDARY_ID,
+} from '@/types/diagram';
+import { ActivationSpan } from '@/lib/ActivationLayout';
+import { resolveActivatedBlocks } from '@/lib/ActivationInference';
+import { getActivationBlocks, getBlockKey } from '@/lib/ActivationBlocks';
+
+// A line of an imported file that could not be represented
+export interface ImportWarning {
+  line: number; // 1-based line number
+  text: string;
+}
+
+// Diagram content read from a PlantUML or Mermaid file, ready for the BumlDirector
+export interface ImportedDiagram {
+  title?: string;
+  lifelines: Lifeline[];
+  messages: Message[];
+  activations: Activation[];
+  notes: Note[];
+  autonumber: AutonumberSettings;
+  warnings: ImportWarning[];
+}
+
+/**
+ * Returns a unique alias for each lifeline, derived from its name
+ */
+export function getParticipantAliases(lifelines: Lifeline[]): Map<string, string> {
+  const aliases = new Map<string, string>();
+  const used = new Set<string>();
+  lifelines.forEach((lifeline) => {
+    const base = lifeline.name.replace(/[^A-Za-z0-9_]/g, '') || `P${lifeline.order + 1}`;
+    let alias = /^[0-9]/.test(base) ? `P${base}` : base;
+    for (let i = 2; used.has(alias); i++) {
+      alias = `${base}${i}`;
+    }
+    used.add(alias);
+    aliases.set(lifeline.id, alias);
+  });
+  return aliases;
+}
+
+/**
+ * Returns the spans drawn as activation bars: runs of consecutive active blocks and explicit activations
+ */
+export function getActivationBars(
+  state: SequenceDiagramState,
+  activatedBlocks: Map<string, ActivationBlockData>
+): ActivationSpan[] {
+  const blocks = resolveActivatedBlocks(state, activatedBlocks);
+  const spans: ActivationSpan[] = [];
+  getActivationBlocks(state.lifelines, state.messages).forEach((block) => {
+    if (!blocks.get(getBlockKey(block))?.isActive) return;
+    const previous = spans.find((s) => s.lifelineId === block.lifelineId && s.endMessageOrder === block.startMessageOrder);
+    if (previous) {
+      previous.endMessageOrder = block.endMessageOrder;
+    } else {
+      spans.push({ lifelineId: block.lifelineId, startMessageOrder: block.startMessageOrder, endMessageOrder: block.endMessageOrder });
+    }
+  });
+  state.activations.forEach((a) => {
+    spans.push({ lifelineId: a.lifelineId, startMessageOrder: a.startMessageOrder, endMessageOrder: a.endMessageOrder });
+  });
+  const lifelineIds = new Set(state.lifelines.map((l) => l.id));
+  return spans.filter((s) => lifelineIds.has(s.lifelineId) && s.endMessageOrder > s.startMessageOrder);
+}
+
+/**
+ * Returns the lines closing the bars that end at a message and opening the
+ * ones that start there: closing innermost first, then opening outermost first
+ */
+export function getActivationLines(
+  spans: ActivationSpan[],
+  order: number,
+  format: (keyword: 'activate' | 'deactivate', lifelineId: string) => string
+): string[] {
+  const closing = spans
+    .filter((s) => s.endMessageOrder === order)
+    .sort((a, b) => b.startMessageOrder - a.startMessageOrder)
+    .map((s) => format('deactivate', s.lifelineId));
+  const opening = spans
+    .filter((s) => s.startMessageOrder === order)
+    .sort((a, b) => b.endMessageOrder - a.endMessageOrder)
+    .map((s) => format('activate', s.lifelineId));
+  return [...closing, ...opening];
+}
+
+/**
+ * Returns the aliases a note is written against, given lifelines in order:
+ * the lifeline on its side for left and right notes and the outermost two
+ * for notes over several. A note attached to a message is placed against the
+ * message's endpoints.
+ */
+export function getNoteAliases(
+  note: Note,
+  lifelines: Lifeline[],
+  aliases: Map<string, string>,
+  message?: Message
+): string[] {
+  const ids: string[] = note.messageId ? (message ? [message.fromLifelineId, message.toLifelineId] : []) : note.lifelineIds;
+  const targets = lifelines.filter((l) => ids.includes(l.id)).map((l) => aliases.get(l.id) ?? l.name);
+  if (targets.length === 0) return [];
+  if (note.position === 'left') return [targets[0]];
+  if (note.position === 'right') return [targets[targets.length - 1]];
+  return targets.length > 1 ? [targets[0], targets[targets.length - 1]] : targets;
+}
+
+// Collects imported content in file order
+export interface DiagramReader {
+  getLifeline(name: string): Lifeline;
+  declare(kind: LifelineKind, name: string, alias: string, color?: string): Lifeline;
+  markCreated(lifelineId: string): void;
+  addMessage(fromLifelineId: string, toLifelineId: string, type: MessageType, label: string, guard?: string): Message;
+  activate(lifelineId: string): void;
+  deactivate(lifelineId: string): boolean;
+  destroy(lifelineId: string): boolean;
+  addNote(position: NotePosition, lifelineIds: string[], text: string): boolean;
+  setTitle(title: string): void;
+  enableAutonumber(start?: number, format?: string): void;
+  warn(line: number, text: string): void;
+  finish(): ImportedDiagram;
+}
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Creates a reader. Participants are found by alias or display name and
+ * declared on first use; activation bars start and end at the last message
+ * read, and notes naming no participant attach to that message.
+ */
+export function createDiagramReader(): DiagramReader {
+  const lifelines: Lifeline[] = [];
+  const aliases = new Map<string, Lifeline>();
+  const messages: Message[] = [];
+  const activations: Activation[] = [];
+  const notes: Note[] = [];
+  const warnings: ImportWarning[] = [];
+  const autonumber: AutonumberSettings = { ...DEFAULT_AUTONUMBER };
+  const openActivations = new Map<string, number[]>(); // Start orders per lifeline, innermost last
+  const pendingCreates = new Set<string>();
+  let title: string | undefined;
+  let lastMessage: Message | undefined;
+
+  const getLifeline = (name: string): Lifeline => {
+    const existing = aliases.get(name) ?? lifelines.find((l) => l.name === name);
+    if (existing) return existing;
+    const lifeline: Lifeline = {
+      id: `lifeline-${lifelines.length + 1}`,
+      name,
+      color: DEFAULT_COLORS[lifelines.length % DEFAULT_COLORS.length],
+      order: lifelines.length,
+      kind: 'participant',
+    };
+    lifelines.push(lifeline);
+    aliases.set(name, lifeline);
+    return lifeline;
+  };
+
+  const deactivate = (lifelineId: string): boolean => {
+    const start = openActivations.get(lifelineId)?.pop();
+    if (start === undefined) return false;
+    const end = lastMessage?.order ?? 0;
+    if (end > start) {
+      activations.push({ id: `activation-${activations.length + 1}`, lifelineId, startMessageOrder: start, endMessageOrder: end });
+    }
+    return true;
+  };
+
+  return {
+    getLifeline,
+
+    declare(kind, name, alias, color) {
+      const lifeline = getLifeline(alias);
+      lifeline.name = name;
+      lifeline.kind = kind;
+      if (color && HEX_COLOR_PATTERN.test(color)) lifeline.color = color.toUpperCase();
+      return lifeline;
+    },
+
+    markCreated(lifelineId) {
+      pendingCreates.add(lifelineId);
+    },
+
+    addMessage(fromLifelineId, toLifelineId, type, label, guard) {
+      // The first message to a lifeline marked as created creates it
+      const messageType = pendingCreates.delete(toLifelineId) ? 'create' : type;
+      const message: Message = {
+        id: `message-${messages.length + 1}`,
+        fromLifelineId,
+        toLifelineId,
+        label,
+        type: messageType,
+        order: messages.length,
+        ...(guard ? { guard } : {}),
+      };
+      messages.push(message);
+      lastMessage = message;
+      return message;
+    },
+
+    activate(lifelineId) {
+      if (lifelineId === DIAGRAM_BOUNDARY_ID) return;
+      openActivations.set(lifelineId, [...(openActivations.get(lifelineId) ?? []), lastMessage?.order ?? 0]);
+    },
+
+    deactivate,
+
+    destroy(lifelineId) {
+      const lifeline = lifelines.find((l) => l.id === lifelineId);
+      if (!lifeline || !lastMessage) return false;
+      while (deactivate(lifelineId));
+      lifeline.destroyOrder = lastMessage.order;
+      return true;
+    },
+
+    addNote(position, lifelineIds, text) {
+      if (lifelineIds.length === 0 && !lastMessage) return false;
+      notes.push({
+        id: `note-${notes.length + 1}`,
+        text,
+        position,
+        lifelineIds,
+        // A note naming no participant is attached to the message before it
+        messageOrder: lifelineIds.length > 0 ? messages.length : (lastMessage?.order ?? 0),
+        messageId: lifelineIds.length > 0 ? undefined : lastMessage?.id,
+      });
+      return true;
+    },
+
+    setTitle(value) {
+      title = value;
+    },
+
+    enableAutonumber(start, format) {
+      autonumber.enabled = true;
+      autonumber.start = start ?? DEFAULT_AUTONUMBER.start;
+      autonumber.format = format || DEFAULT_AUTONUMBER.format;
+    },
+
+    warn(line, text) {
+      warnings.push({ line, text });
+    },
+
+    finish() {
+      // Bars still open at the end run to the last message
+      openActivations.forEach((_, lifelineId) => {
+        while (deactivate(lifelineId));
+      });
+      return { title, lifelines, messages, activations, notes, autonumber, warnings };
+    },
+  };
+}
+
+/**
+ * Summarizes warnings for a notification, e.g. "line 4 (alt ok), line 9 (return)"
+ */
+export function formatImportWarnings(warnings: ImportWarning[], limit = 3): string {
+  const shown = warnings
+    .slice(0, limit)
+    .map((w) => `line ${w.line} (${w.text.length > 40 ? `${w.text.slice(0, 40)}…` : w.text})`);
+  const rest = warnings.length - shown.length;
+  return rest > 0 ? `${shown.join(', ')} and ${rest} more` : shown.join(', ');
+}
+
+/**
+ * Summarizes export warnings for a notification, e.g. "found message 1 (login), lost message 4"
+ */
+export function formatExportWarnings(warnings: string[], limit = 3): string {
+  const rest = warnings.length - limit;
+  return rest > 0 ? `${warnings.slice(0, limit).join(', ')} and ${rest} more` : warnings.join(', ');
+}
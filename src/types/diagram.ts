@@ -1,23 +1,66 @@
+// Participant shapes (UML/PlantUML-style glyphs)
+export type LifelineKind = 'participant' | 'actor' | 'database' | 'queue' | 'boundary' | 'control' | 'entity';
+
+export const LIFELINE_KINDS: LifelineKind[] = ['participant', 'actor', 'database', 'queue', 'boundary', 'control', 'entity'];
+
 // Lifeline - represents an actor/component (horizontal axis)
 export interface Lifeline {
   id: string;
   name: string;
   color: string;
   order: number; // Position from left to right
+  kind: LifelineKind; // Shape drawn in the header
+  destroyOrder?: number; // Row at which the lifeline ends with a destroy marker (X)
+}
+
+// Group - a titled background box around contiguous lifelines (bounded context, trust zone)
+export interface LifelineGroup {
+  id: string;
+  title: string;
+  color: string;
+  lifelineIds: string[]; // Members; always adjacent by lifeline order, and a lifeline belongs to at most one group
 }
 
 // Message types for sequence diagrams
-export type MessageType = 'sync' | 'return';
+// A 'create' message ends at the target's header, which is drawn at the message's row
+export type MessageType = 'sync' | 'async' | 'return' | 'create';
+
+export const MESSAGE_TYPES: MessageType[] = ['sync', 'async', 'return', 'create'];
+
+// Endpoint id of found (from) and lost (to) messages that start or end at the diagram edge
+export const DIAGRAM_BOUNDARY_ID = '__diagram_boundary__';
+
+// Transport a message is sent over
+export type MessageProtocol = 'http' | 'websocket' | 'grpc' | 'event';
+
+export const MESSAGE_PROTOCOLS: MessageProtocol[] = ['http', 'websocket', 'grpc', 'event'];
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Payload - structured details of the call a message stands for; every field is optional
+export interface MessagePayload {
+  protocol?: MessageProtocol;
+  method?: HttpMethod; // HTTP only
+  path?: string; // e.g. "/api/chat", a gRPC "Service/Method" or an event topic
+  params?: string; // Request params or body schema, e.g. "{ prompt }"
+  status?: number; // Response status code, e.g. 200
+  returns?: string; // Return value or response body schema, e.g. "{ reply }"
+}
 
 // Message - horizontal arrow between lifelines
 export interface Message {
   id: string;
-  fromLifelineId: string;
-  toLifelineId: string;
+  fromLifelineId: string; // DIAGRAM_BOUNDARY_ID for a found message entering from the left edge
+  toLifelineId: string; // DIAGRAM_BOUNDARY_ID for a lost message leaving through the right edge
   label: string;
   description?: string; // Optional description text displayed below the arrow
+  guard?: string; // Condition shown in brackets before the label, e.g. "user is logged in"
   type: MessageType;
   order: number; // Vertical position (time order)
+  payload?: MessagePayload; // Structured call details, rendered in compact form above the label
+  replyTo?: string; // Return messages only: id of the sync call this answers
 }
 
 // Activation - shows when a lifeline is active/processing
@@ -26,6 +69,7 @@ export interface Activation {
   lifelineId: string;
   startMessageOrder: number; // Message order when activation starts
   endMessageOrder: number; // Message order when activation ends
+  text?: string; // Optional text to display next to the activation bar
 }
 
 // Data for an activated block including optional text label
@@ -34,10 +78,106 @@ export interface ActivationBlockData {
   text?: string; // Optional text to display on the activation bar
 }
 
+// Interaction operators for combined fragments
+export type FragmentOperator = 'alt' | 'opt' | 'loop' | 'par' | 'break' | 'critical';
+
+export const FRAGMENT_OPERATORS: FragmentOperator[] = ['alt', 'opt', 'loop', 'par', 'break', 'critical'];
+
+// Operand - one compartment of a combined fragment (e.g. one branch of an alt)
+export interface FragmentOperand {
+  id: string;
+  guard: string; // Guard condition shown in brackets, e.g. "cache hit"
+  startMessageOrder: number; // First message order covered by this operand
+  endMessageOrder: number; // Last message order covered by this operand (inclusive)
+}
+
+// Fragment - a combined fragment framing a region of messages across a range of lifelines
+export interface Fragment {
+  id: string;
+  operator: FragmentOperator;
+  startLifelineId: string; // Lifeline at one horizontal edge of the frame
+  endLifelineId: string; // Lifeline at the other horizontal edge of the frame
+  operands: FragmentOperand[]; // Contiguous operands in top-to-bottom order
+  parentId?: string; // Enclosing fragment when nested
+}
+
+// Where a note sits relative to its lifelines
+export type NotePosition = 'left' | 'right' | 'over';
+
+export const NOTE_POSITIONS: NotePosition[] = ['left', 'over', 'right'];
+
+// Note - a folded-corner annotation anchored to lifelines or to a message
+export interface Note {
+  id: string;
+  text: string;
+  position: NotePosition;
+  lifelineIds: string[]; // Lifelines the note is placed against ('over' may span several)
+  messageOrder: number; // Row the note sits at
+  messageId?: string; // When set, the note follows this message's row and endpoints instead
+}
+
+// Rows between messages: a full-width section divider or delay (time gap), or a
+// ref frame over a range of lifelines standing in for another diagram
+export type SeparatorKind = 'divider' | 'delay' | 'ref';
+
+export const SEPARATOR_KINDS: SeparatorKind[] = ['divider', 'delay', 'ref'];
+
+// Separator - a labeled row of its own that pushes the messages below it down
+export interface Separator {
+  id: string;
+  kind: SeparatorKind;
+  text: string; // e.g. "Authentication", "30 seconds later" or "Payment authorization"
+  beforeMessageOrder: number; // Sits above the message with this order (the message count places it at the end)
+  startLifelineId?: string; // ref only: lifeline at one horizontal edge of the frame
+  endLifelineId?: string; // ref only: lifeline at the other horizontal edge of the frame
+  target?: string; // ref only: name or path of the referenced .buml file
+}
+
+// Which side gutter a duration constraint is drawn in
+export type DurationSide = 'left' | 'right';
+
+export const DURATION_SIDES: DurationSide[] = ['left', 'right'];
+
+// DurationConstraint - a timing bound between two messages, e.g. "< 200ms" between a request and its return
+export interface DurationConstraint {
+  id: string;
+  startMessageOrder: number;
+  endMessageOrder: number; // Always after startMessageOrder
+  label: string; // e.g. "< 200ms"
+  side: DurationSide;
+}
+
+// How automatic message numbers are derived
+export type NumberingScheme = 'flat' | 'hierarchical';
+
+export const NUMBERING_SCHEMES: NumberingScheme[] = ['flat', 'hierarchical'];
+
+// Diagram-level autonumbering; numbers are computed from message order, never stored in labels
+export interface AutonumberSettings {
+  enabled: boolean;
+  scheme: NumberingScheme; // 'flat' counts 1, 2, 3; 'hierarchical' follows call nesting (1, 1.1, 1.2, 2)
+  start: number; // First top-level number
+  format: string; // Prefix template where "{n}" is replaced by the number, e.g. "{n}." or "[{n}]"
+}
+
+export const DEFAULT_AUTONUMBER: AutonumberSettings = {
+  enabled: false,
+  scheme: 'flat',
+  start: 1,
+  format: '{n}.',
+};
+
 export interface SequenceDiagramState {
   lifelines: Lifeline[];
   messages: Message[];
   activations: Activation[];
+  fragments: Fragment[];
+  notes: Note[];
+  separators: Separator[];
+  groups: LifelineGroup[];
+  durations: DurationConstraint[];
+  autonumber: AutonumberSettings;
+  autoActivate: boolean; // Infer activation blocks from calls and returns, with activatedBlocks as overrides
 }
 
 export const DEFAULT_COLORS = [
@@ -59,4 +199,28 @@ export const LIFELINE_START_X = 100;
 export const LIFELINE_START_Y = 80;
 export const MESSAGE_SPACING = 60;
 export const ACTIVATION_WIDTH = 16;
+export const ACTIVATION_NEST_OFFSET = 6; // Horizontal shift of each nested (stacked) activation level
+export const SELF_MESSAGE_LOOP_WIDTH = 40; // How far a self-message loop extends right of its lifeline
+export const SELF_MESSAGE_LOOP_HEIGHT = 24; // Vertical drop between a self-message's outgoing and returning legs
+export const FRAGMENT_PADDING_X = 12; // Horizontal gap between a fragment frame and the headers it covers
+export const FRAGMENT_PADDING_TOP = 30; // Space above the first covered message (room for the message label)
+export const FRAGMENT_PADDING_BOTTOM = 30; // Space below the last covered message (room for the description)
+export const FRAGMENT_NEST_INSET = 6; // Extra inset per nesting level so nested frames stay visible
+export const FRAGMENT_TAB_HEIGHT = 18; // Height of the operator tab in the top-left corner
+export const NOTE_WIDTH = 130;
+export const NOTE_MIN_HEIGHT = 30;
+export const NOTE_LINE_HEIGHT = 15;
+export const NOTE_CHARS_PER_LINE = 18; // Approximate characters per wrapped note line
+export const NOTE_FOLD_SIZE = 10; // Size of the folded top-right corner
+export const NOTE_GAP = 10; // Space between a note and the lifeline or arrow it is placed against
+export const DESTROY_MARKER_SIZE = 10; // Half the width of the X that ends a destroyed lifeline
+export const BOUNDARY_MARGIN = 60; // Gap between the outermost lifeline headers and the diagram edge
+export const BOUNDARY_DOT_RADIUS = 5; // Filled dot drawn at the edge end of found and lost messages
+export const GROUP_PADDING_X = 20; // Horizontal gap between a group box and its outermost headers
+export const GROUP_PADDING_TOP = 8; // Gap between the group title band and the headers
+export const GROUP_TITLE_HEIGHT = 22;
+export const REF_FRAME_HEIGHT = 44; // Height of a ref frame within its row
+export const DURATION_GUTTER_GAP = 16; // Gap between the outermost headers and the first duration line
+export const DURATION_LANE_SPACING = 14; // Offset between overlapping duration lines on the same side
+export const DURATION_TICK_WIDTH = 6; // Half the width of the ticks closing a duration line
 export const CANVAS_PADDING = 40;